@@ -8,7 +8,10 @@ import { AccountLayout } from "@/components/account-layout";
 import Auth from "@/pages/auth";
 import Accounts from "@/pages/accounts";
 import Upload from "@/pages/upload";
+import ManualEntry from "@/pages/manual-entry";
 import Receipts from "@/pages/receipts";
+import Review from "@/pages/review";
+import Trash from "@/pages/trash";
 import People from "@/pages/people";
 import Vehicles from "@/pages/vehicles";
 import VehicleEdit from "@/pages/vehicle-edit";
@@ -45,7 +48,7 @@ function AuthCheck({ children }: { children: React.ReactNode }) {
 function AccountRoutes() {
   const [location] = useLocation();
   
-  const accountIdMatch = location.match(/^\/(upload|receipts|people|vehicles|settings|billing|export)\/([^/]+)/);
+  const accountIdMatch = location.match(/^\/(upload|receipts|review|trash|people|vehicles|settings|billing|export)\/([^/]+)/);
   const accountId = accountIdMatch?.[2] || "";
   
   if (!accountId) {
@@ -55,8 +58,11 @@ function AccountRoutes() {
   return (
     <AccountLayout accountId={accountId}>
       <Switch>
+        <Route path="/upload/:accountId/manual" component={ManualEntry} />
         <Route path="/upload/:accountId" component={Upload} />
         <Route path="/receipts/:accountId" component={Receipts} />
+        <Route path="/review/:accountId" component={Review} />
+        <Route path="/trash/:accountId" component={Trash} />
         <Route path="/people/:accountId" component={People} />
         <Route path="/vehicles/:accountId/edit/:vehicleId" component={VehicleEdit} />
         <Route path="/vehicles/:accountId" component={Vehicles} />
@@ -85,6 +91,11 @@ function Router() {
       <Route path="/privacy" component={Privacy} />
       <Route path="/security" component={Security} />
       <Route path="/cookies" component={Cookies} />
+      <Route path="/upload/:accountId/manual">
+        <AuthCheck>
+          <AccountRoutes />
+        </AuthCheck>
+      </Route>
       <Route path="/upload/:accountId">
         <AuthCheck>
           <AccountRoutes />
@@ -95,6 +106,16 @@ function Router() {
           <AccountRoutes />
         </AuthCheck>
       </Route>
+      <Route path="/review/:accountId">
+        <AuthCheck>
+          <AccountRoutes />
+        </AuthCheck>
+      </Route>
+      <Route path="/trash/:accountId">
+        <AuthCheck>
+          <AccountRoutes />
+        </AuthCheck>
+      </Route>
       <Route path="/people/:accountId">
         <AuthCheck>
           <AccountRoutes />
@@ -3,7 +3,7 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { Upload, Receipt, Settings, LogOut, Users, Car, ChevronDown, Menu, CreditCard } from "lucide-react";
+import { Upload, Receipt, Settings, LogOut, Users, Car, ChevronDown, Menu, CreditCard, ClipboardCheck } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -117,6 +117,13 @@ export function AccountHeader({ account, accountId }: AccountHeaderProps) {
               <Receipt className="w-4 h-4" />
             </Link>
           </Button>
+          {isAdminOrOwner && (
+            <Button variant="ghost" size="icon" data-testid="button-review" aria-label="Review" asChild>
+              <Link href={`/review/${accountId}`}>
+                <ClipboardCheck className="w-4 h-4" />
+              </Link>
+            </Button>
+          )}
           {isAdminOrOwner && (
             <Button variant="ghost" size="icon" data-testid="button-people" aria-label="People" asChild>
               <Link href={`/people/${accountId}`}>
@@ -179,6 +186,14 @@ export function AccountHeader({ account, accountId }: AccountHeaderProps) {
                     <span>Receipts</span>
                   </Link>
                 </Button>
+                {isAdminOrOwner && (
+                  <Button variant="ghost" className="w-full justify-start gap-3" data-testid="mobile-button-review" asChild>
+                    <Link href={`/review/${accountId}`} onClick={closeMenu}>
+                      <ClipboardCheck className="w-5 h-5" />
+                      <span>Review</span>
+                    </Link>
+                  </Button>
+                )}
                 {isAdminOrOwner && (
                   <Button variant="ghost" className="w-full justify-start gap-3" data-testid="mobile-button-people" asChild>
                     <Link href={`/people/${accountId}`} onClick={closeMenu}>
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Copy, FileArchive, Loader2, XCircle } from "lucide-react";
+import { BULK_UPLOAD_STATUSES, type BulkUploadResult, type BulkUploadSummary } from "@shared/bulkUpload";
+
+type BulkUploadDialogProps = {
+  accountId: string;
+  vehicleId: string;
+  files: File[];
+  onClose: () => void;
+};
+
+type Phase = "uploading" | "processing" | "done" | "error";
+
+/**
+ * Send every file in one bulk upload request. While the files are sent, the
+ * request's byte progress is split across them in order, so each row fills
+ * up in turn. The server answers once the files are stored, with each one
+ * queued for processing or already failed.
+ */
+function uploadFiles(
+  url: string,
+  files: File[],
+  vehicleId: string,
+  onProgress: (loaded: number, total: number) => void
+): Promise<BulkUploadSummary> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    formData.append("vehicleId", vehicleId);
+    files.forEach(file => formData.append("receipts", file));
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.withCredentials = true;
+    xhr.responseType = "json";
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response as BulkUploadSummary);
+      } else {
+        reject(new Error(xhr.response?.message || xhr.response?.error || "Upload failed"));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error - check your connection and try again"));
+    xhr.send(formData);
+  });
+}
+
+// Share of each file that has been sent, given the bytes sent for the whole request
+function getFileProgress(files: File[], loaded: number, total: number): number[] {
+  const fileBytes = files.reduce((sum, file) => sum + file.size, 0);
+  const sent = total > 0 ? (loaded / total) * fileBytes : 0;
+  let start = 0;
+  return files.map(file => {
+    const progress = file.size > 0 ? Math.min(Math.max((sent - start) / file.size, 0), 1) : 1;
+    start += file.size;
+    return progress;
+  });
+}
+
+function ResultIcon({ result }: { result: BulkUploadResult }) {
+  if (result.status === "uploaded") return <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />;
+  if (result.status === "duplicate") return <Copy className="w-4 h-4 text-amber-600 shrink-0" />;
+  if (result.status === "queued") return <Loader2 className="w-4 h-4 text-muted-foreground animate-spin shrink-0" />;
+  return <XCircle className="w-4 h-4 text-destructive shrink-0" />;
+}
+
+export function BulkUploadDialog({ accountId, vehicleId, files, onClose }: BulkUploadDialogProps) {
+  const [phase, setPhase] = useState<Phase>("uploading");
+  const [progress, setProgress] = useState<number[]>(() => files.map(() => 0));
+  const [staged, setStaged] = useState<BulkUploadSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+  const queryClient = useQueryClient();
+
+  // Each file is processed by its own background job; poll until none are left
+  const { data: batch } = useQuery<BulkUploadSummary>({
+    queryKey: ["/api/accounts", accountId, "receipts", "bulk-upload", staged?.batchId],
+    enabled: !!staged && staged.queued > 0,
+    refetchInterval: (query) => (query.state.data?.queued ?? 1) > 0 ? 3000 : false,
+  });
+  const summary = batch ?? staged;
+
+  useEffect(() => {
+    if (phase !== "processing" || !summary || summary.queued > 0) return;
+    setPhase("done");
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "subscription"] });
+  }, [phase, summary, accountId, queryClient]);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    uploadFiles(`/api/accounts/${accountId}/receipts/bulk-upload`, files, vehicleId, (loaded, total) => {
+      setProgress(getFileProgress(files, loaded, total));
+    })
+      .then(result => {
+        setStaged(result);
+        setPhase("processing");
+      })
+      .catch((uploadError: Error) => {
+        setError(uploadError.message);
+        setPhase("error");
+      });
+  }, [accountId, vehicleId, files]);
+
+  const isBusy = phase === "uploading";
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {phase === "done" ? "Upload complete" : phase === "error" ? "Upload failed" : phase === "processing" ? "Processing receipts" : `Uploading ${files.length} files`}
+          </DialogTitle>
+          <DialogDescription>
+            {phase === "uploading" && "Sending your receipts. Keep this window open until they are all sent."}
+            {phase === "processing" && summary && (
+              <span data-testid="text-bulk-upload-progress">
+                Saving receipts and checking for duplicates: {summary.results.length - summary.queued} of {summary.results.length} done.
+                {" "}You can close this window; the rest will finish in the background.
+              </span>
+            )}
+            {phase === "done" && summary && (
+              <span data-testid="text-bulk-upload-summary">
+                {summary.uploaded} uploaded, {summary.duplicates} possible {summary.duplicates === 1 ? "duplicate" : "duplicates"}, {summary.failed} failed.
+                {" "}AI is processing the details in the background.
+              </span>
+            )}
+            {phase === "error" && error}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto space-y-2 pr-1" data-testid="list-bulk-upload-files">
+          {summary
+            ? summary.results.map((result, index) => (
+              <div key={`${result.fileName}-${index}`} className="flex items-start gap-2 text-sm" data-testid={`row-bulk-result-${index}`}>
+                <ResultIcon result={result} />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{result.fileName}</p>
+                  {result.error && <p className="text-xs text-muted-foreground">{result.error}</p>}
+                </div>
+                <Badge variant={result.status === "uploaded" ? "secondary" : "outline"} className="text-xs shrink-0">
+                  {BULK_UPLOAD_STATUSES[result.status].label}
+                </Badge>
+              </div>
+            ))
+            : files.map((file, index) => (
+              <div key={`${file.name}-${index}`} className="space-y-1 text-sm" data-testid={`row-bulk-file-${index}`}>
+                <div className="flex items-center gap-2">
+                  {file.name.toLowerCase().endsWith(".zip") && <FileArchive className="w-4 h-4 text-muted-foreground shrink-0" />}
+                  <span className="truncate flex-1">{file.name}</span>
+                  <span className="text-xs text-muted-foreground">{Math.round(progress[index] * 100)}%</span>
+                </div>
+                <Progress value={progress[index] * 100} className="h-1.5" />
+              </div>
+            ))}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} disabled={isBusy} data-testid="button-close-bulk-upload">
+            {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isBusy ? "Uploading..." : phase === "processing" ? "Close" : "Done"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
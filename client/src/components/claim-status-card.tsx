@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Claim } from "@shared/schema";
+import { CLAIM_STATUSES, canTransitionClaim, isClaimLocked, type ClaimStatus } from "@shared/claims";
+import { formatCalendarDate, toDateString } from "@shared/filingCalendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useFilingCalendar } from "@/hooks/use-filing-calendar";
+import { ClipboardCheck, Loader2, Lock } from "lucide-react";
+
+interface ClaimTotals {
+  receiptCount: number;
+  eligibleCount: number;
+  gallons: number;
+  refundAmount: number;
+}
+
+interface ClaimDiffLine {
+  receiptId: string;
+  date: string;
+  stationName: string;
+  status: "changed" | "added" | "removed";
+  changedFields: string[];
+  filed: { refundAmount: number } | null;
+  current: { refundAmount: number } | null;
+}
+
+interface ClaimDiff {
+  filedTotals: ClaimTotals;
+  currentTotals: ClaimTotals;
+  refundDifference: number;
+  unchangedCount: number;
+  lines: ClaimDiffLine[];
+}
+
+const DIFF_STATUS_LABELS: Record<ClaimDiffLine["status"], string> = {
+  changed: "Changed",
+  added: "Added since filing",
+  removed: "Removed since filing",
+};
+
+interface ClaimResponse {
+  claim: Claim | null;
+  currentTotals: ClaimTotals;
+}
+
+type ClaimAction =
+  | { type: "status"; status: "draft" | "ready" }
+  | { type: "file" }
+  | { type: "refund"; amount: string }
+  | { type: "reopen"; reason: string };
+
+interface ClaimStatusCardProps {
+  accountId: string;
+  fiscalYear: string;
+}
+
+export function ClaimStatusCard({ accountId, fiscalYear }: ClaimStatusCardProps) {
+  const [refundAmount, setRefundAmount] = useState("");
+  const [reopenReason, setReopenReason] = useState("");
+  const [showReopen, setShowReopen] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { getCalendar } = useFilingCalendar();
+
+  const { data, isLoading } = useQuery<ClaimResponse>({
+    queryKey: ["/api/accounts", accountId, "claims", fiscalYear],
+    enabled: !!accountId && !!fiscalYear,
+  });
+
+  const { data: diff, isLoading: diffLoading } = useQuery<ClaimDiff>({
+    queryKey: ["/api/accounts", accountId, "claims", fiscalYear, "diff"],
+    enabled: showDiff && !!data?.claim?.filedAt,
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (action: ClaimAction) => {
+      const base = `/api/accounts/${accountId}/claims/${fiscalYear}`;
+      switch (action.type) {
+        case "status":
+          return apiRequest(`${base}/status`, { method: "POST", body: JSON.stringify({ status: action.status }) });
+        case "file":
+          return apiRequest(`${base}/file`, { method: "POST", body: JSON.stringify({}) });
+        case "refund":
+          return apiRequest(`${base}/refund`, { method: "POST", body: JSON.stringify({ amount: action.amount }) });
+        case "reopen":
+          return apiRequest(`${base}/reopen`, { method: "POST", body: JSON.stringify({ reason: action.reason }) });
+      }
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "claims"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+      setRefundAmount("");
+      setReopenReason("");
+      setShowReopen(false);
+      toast({
+        title: "Claim updated",
+        description: action.type === "file"
+          ? `FY ${fiscalYear} marked as filed; its receipts are now locked`
+          : action.type === "reopen"
+            ? `FY ${fiscalYear} reopened as an amendment`
+            : action.type === "refund"
+              ? "Refund recorded"
+              : `FY ${fiscalYear} claim moved to ${CLAIM_STATUSES[action.status].label}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Claim update failed",
+        description: getApiErrorMessage(error, "Failed to update the claim"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  const { claim, currentTotals } = data;
+  const status = (claim?.status || "draft") as ClaimStatus;
+  const locked = isClaimLocked(status);
+  const filedRefund = parseFloat(claim?.filedRefundAmount || "0");
+  const variance = parseFloat(claim?.varianceAmount || "0");
+  // The server only accepts filings inside the fiscal year's filing window
+  const calendar = getCalendar(fiscalYear);
+  const today = toDateString();
+  const filingOpen = today >= calendar.filingOpensOn && today <= calendar.filingDeadline;
+
+  return (
+    <Card data-testid="card-claim-status">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary/10">
+              <ClipboardCheck className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle>FY {fiscalYear} Claim</CardTitle>
+              <CardDescription className="mt-1">
+                Track the Form 4923-H claim from draft through the refund
+              </CardDescription>
+            </div>
+          </div>
+          <Badge variant={locked ? "default" : "secondary"} className="gap-1" data-testid="badge-claim-status">
+            {locked && <Lock className="w-3 h-3" />}
+            {CLAIM_STATUSES[status].label}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="p-3 bg-muted/50 rounded-md">
+            <p className="text-sm font-medium text-foreground">Current totals</p>
+            <p className="text-sm text-muted-foreground mt-1" data-testid="text-claim-current-totals">
+              {currentTotals.eligibleCount} eligible receipt{currentTotals.eligibleCount !== 1 ? "s" : ""} &middot;{" "}
+              {currentTotals.gallons.toFixed(3)} gal &middot; ${currentTotals.refundAmount.toFixed(2)}
+            </p>
+          </div>
+          {claim?.filedAt && (
+            <div className="p-3 bg-muted/50 rounded-md">
+              <p className="text-sm font-medium text-foreground">
+                Filed {new Date(claim.filedAt).toLocaleDateString()}
+                {claim.amendmentCount > 0 && ` (amendment ${claim.amendmentCount})`}
+              </p>
+              <p className="text-sm text-muted-foreground mt-1" data-testid="text-claim-filed-totals">
+                {claim.filedReceiptCount} receipt{claim.filedReceiptCount !== 1 ? "s" : ""} &middot;{" "}
+                {parseFloat(claim.filedGallons || "0").toFixed(3)} gal &middot; ${filedRefund.toFixed(2)}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {claim?.refundPaidAmount && (
+          <div className="p-3 bg-accent/50 rounded-md text-sm" data-testid="text-claim-refund">
+            <span className="font-medium text-foreground">
+              Refund of ${parseFloat(claim.refundPaidAmount).toFixed(2)} received
+              {claim.refundReceivedAt && ` on ${new Date(claim.refundReceivedAt).toLocaleDateString()}`}
+            </span>
+            {variance !== 0 && (
+              <span className={variance < 0 ? "text-destructive ml-2" : "text-muted-foreground ml-2"}>
+                ({variance > 0 ? "+" : "-"}${Math.abs(variance).toFixed(2)} vs. filed)
+              </span>
+            )}
+          </div>
+        )}
+
+        {locked && (
+          <p className="text-sm text-muted-foreground">
+            Receipts for this fiscal year can't be edited or deleted while the claim is filed. Reopen it as an amendment to make changes.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {canTransitionClaim(status, "ready") && (
+            <Button
+              variant="outline"
+              onClick={() => claimMutation.mutate({ type: "status", status: "ready" })}
+              disabled={claimMutation.isPending}
+              data-testid="button-claim-ready"
+            >
+              Mark Ready to File
+            </Button>
+          )}
+          {canTransitionClaim(status, "draft") && (
+            <Button
+              variant="ghost"
+              onClick={() => claimMutation.mutate({ type: "status", status: "draft" })}
+              disabled={claimMutation.isPending}
+              data-testid="button-claim-draft"
+            >
+              Back to Draft
+            </Button>
+          )}
+          {canTransitionClaim(status, "filed") && (
+            <Button
+              onClick={() => claimMutation.mutate({ type: "file" })}
+              disabled={claimMutation.isPending || currentTotals.eligibleCount === 0 || !filingOpen}
+              title={filingOpen ? undefined : `Filing is open from ${formatCalendarDate(calendar.filingOpensOn)} to ${formatCalendarDate(calendar.filingDeadline)}`}
+              data-testid="button-claim-file"
+            >
+              {claimMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Mark as Filed
+            </Button>
+          )}
+          {claim?.filedAt && (
+            <Button
+              variant="ghost"
+              onClick={() => setShowDiff(!showDiff)}
+              data-testid="button-claim-diff"
+            >
+              {showDiff ? "Hide Comparison" : "Compare with Current Data"}
+            </Button>
+          )}
+          {canTransitionClaim(status, "amending") && !showReopen && (
+            <Button
+              variant="outline"
+              onClick={() => setShowReopen(true)}
+              disabled={claimMutation.isPending}
+              data-testid="button-claim-reopen"
+            >
+              Reopen as Amendment
+            </Button>
+          )}
+        </div>
+
+        {showDiff && (
+          diffLoading || !diff ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-2 text-sm" data-testid="section-claim-diff">
+              <p className="text-muted-foreground">
+                Filed ${diff.filedTotals.refundAmount.toFixed(2)} &middot; recomputed today ${diff.currentTotals.refundAmount.toFixed(2)}
+                {diff.refundDifference !== 0 && (
+                  <span className={diff.refundDifference < 0 ? "text-destructive ml-1" : "ml-1"}>
+                    ({diff.refundDifference > 0 ? "+" : "-"}${Math.abs(diff.refundDifference).toFixed(2)})
+                  </span>
+                )}
+              </p>
+              {diff.lines.length === 0 ? (
+                <p className="text-muted-foreground">
+                  All {diff.unchangedCount} filed receipts match a recomputation from current tax rates.
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {diff.lines.map(line => (
+                    <li key={line.receiptId} className="flex flex-wrap items-center gap-2" data-testid={`row-claim-diff-${line.receiptId}`}>
+                      <span className="font-medium text-foreground">{line.date}</span>
+                      {line.stationName && <span className="text-foreground">{line.stationName}</span>}
+                      <Badge variant="outline">{DIFF_STATUS_LABELS[line.status]}</Badge>
+                      {line.changedFields.length > 0 && (
+                        <span className="text-muted-foreground">{line.changedFields.join(", ")}</span>
+                      )}
+                      <span className="text-muted-foreground">
+                        ${(line.filed?.refundAmount ?? 0).toFixed(2)} &rarr; ${(line.current?.refundAmount ?? 0).toFixed(2)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )
+        )}
+
+        {status === "filed" && (
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="claimRefundAmount">Refund received</Label>
+              <Input
+                id="claimRefundAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder={filedRefund.toFixed(2)}
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                data-testid="input-claim-refund-amount"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => claimMutation.mutate({ type: "refund", amount: refundAmount })}
+              disabled={claimMutation.isPending || refundAmount === ""}
+              data-testid="button-claim-record-refund"
+            >
+              Record Refund
+            </Button>
+          </div>
+        )}
+
+        {showReopen && (
+          <div className="space-y-2">
+            <Label htmlFor="claimReopenReason">Reason for amendment</Label>
+            <Textarea
+              id="claimReopenReason"
+              placeholder="What needs to change on the filed claim?"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              rows={2}
+              data-testid="input-claim-reopen-reason"
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                onClick={() => setShowReopen(false)}
+                data-testid="button-claim-reopen-cancel"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={() => claimMutation.mutate({ type: "reopen", reason: reopenReason })}
+                disabled={claimMutation.isPending}
+                data-testid="button-claim-reopen-confirm"
+              >
+                Reopen Claim
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
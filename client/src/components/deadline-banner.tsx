@@ -1,18 +1,15 @@
 import { AlertCircle } from "lucide-react";
+import { daysBetween, formatCalendarDate, toDateString } from "@shared/filingCalendar";
+import { useFilingCalendar } from "@/hooks/use-filing-calendar";
 
 export function DeadlineBanner() {
-  const now = new Date();
-  const month = now.getMonth() + 1;
-  const year = now.getFullYear();
+  const { openFilingWindow } = useFilingCalendar();
 
-  const isSubmissionWindow = month >= 7 && month <= 9;
-
-  if (!isSubmissionWindow) {
+  if (!openFilingWindow) {
     return null;
   }
 
-  const deadline = new Date(year, 8, 30);
-  const daysLeft = Math.ceil((deadline.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  const daysLeft = daysBetween(toDateString(), openFilingWindow.filingDeadline);
 
   return (
     <div className="bg-primary text-primary-foreground">
@@ -20,7 +17,7 @@ export function DeadlineBanner() {
         <div className="flex items-center gap-3">
           <AlertCircle className="w-5 h-5 flex-shrink-0" data-testid="icon-deadline" />
           <p className="text-sm font-medium">
-            <strong>Submission Window Open:</strong> You have {daysLeft} day{daysLeft !== 1 ? 's' : ''} to submit your Form 4923-H (deadline: September 30, {year})
+            <strong>Submission Window Open:</strong> You have {daysLeft} day{daysLeft !== 1 ? 's' : ''} to submit your FY {openFilingWindow.fiscalYear} Form 4923-H (deadline: {formatCalendarDate(openFilingWindow.filingDeadline)})
           </p>
         </div>
       </div>
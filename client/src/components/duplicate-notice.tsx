@@ -0,0 +1,123 @@
+import type { Receipt } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Eye, Loader2, Trash2 } from "lucide-react";
+
+interface DuplicateNoticeProps {
+  receipt: Receipt;
+  accountId: string;
+  onViewOriginal?: (original: Receipt) => void;
+  onResolved: () => void;
+}
+
+/**
+ * Warning for a receipt that looks like a second upload of another one, with
+ * a link to the original. The receipt is left out of refund totals until the
+ * user marks it as a separate purchase or deletes it.
+ */
+export function DuplicateNotice({ receipt, accountId, onViewOriginal, onResolved }: DuplicateNoticeProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Members may not be able to see the original if someone else uploaded it
+  const { data: original } = useQuery<Receipt>({
+    queryKey: ["/api/accounts", accountId, "receipts", receipt.duplicateOfId],
+    enabled: !!receipt.duplicateOfId,
+  });
+
+  const onSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "trash"] });
+    toast({ title });
+    onResolved();
+  };
+
+  const notDuplicateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}/not-duplicate`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => onSuccess("Receipt kept as a separate purchase"),
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: getApiErrorMessage(error, "Failed to update the receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => onSuccess("Duplicate receipt moved to trash"),
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: getApiErrorMessage(error, "Failed to delete the receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = notDuplicateMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-md text-sm space-y-3" data-testid="section-duplicate-notice">
+      <div className="flex items-start gap-2 text-amber-700 dark:text-amber-400">
+        <Copy className="w-4 h-4 mt-0.5 shrink-0" />
+        <p>
+          <strong>Possible duplicate:</strong>{" "}
+          {original
+            ? `this looks like the receipt from ${original.date} at ${original.stationName}${original.totalAmount ? ` ($${parseFloat(original.totalAmount).toFixed(2)})` : ""}.`
+            : "this looks like another receipt already uploaded to this account."}{" "}
+          It is not counted toward refunds until you resolve it.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {original && onViewOriginal && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => onViewOriginal(original)}
+            disabled={isPending}
+            data-testid="button-view-original"
+          >
+            <Eye className="w-4 h-4 mr-2" />
+            View original
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => notDuplicateMutation.mutate()}
+          disabled={isPending}
+          data-testid="button-not-duplicate"
+        >
+          {notDuplicateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Not a duplicate
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="destructive"
+          onClick={() => deleteMutation.mutate()}
+          disabled={isPending}
+          data-testid="button-delete-duplicate"
+        >
+          {deleteMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+          Delete duplicate
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { Receipt } from "@shared/schema";
+import { ELIGIBILITY_REASONS, type EligibilityReason } from "@shared/eligibility";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+type ReceiptWithEligibility = Receipt & {
+  eligible?: boolean;
+  eligibilityReasons?: EligibilityReason[];
+};
+
+interface EligibilityOverrideDialogProps {
+  receipt: ReceiptWithEligibility;
+  accountId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function EligibilityOverrideDialog({ receipt, accountId, open, onClose }: EligibilityOverrideDialogProps) {
+  const [justification, setJustification] = useState(receipt.eligibilityOverrideReason || "");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const reasons = receipt.eligibilityReasons || [];
+  const hasOverride = receipt.eligibilityOverride !== null && receipt.eligibilityOverride !== undefined;
+  const blockingReasons = reasons.filter(reason => !ELIGIBILITY_REASONS[reason].overridable);
+
+  const overrideMutation = useMutation({
+    mutationFn: async (eligible: boolean | null) => {
+      if (eligible === null) {
+        return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}/eligibility-override`, {
+          method: "DELETE",
+        });
+      }
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}/eligibility-override`, {
+        method: "PUT",
+        body: JSON.stringify({ eligible, justification }),
+      });
+    },
+    onSuccess: (_, eligible) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+      toast({
+        title: eligible === null ? "Override removed" : "Eligibility overridden",
+        description: eligible === null
+          ? "Eligibility is determined by the rules again"
+          : `Receipt marked ${eligible ? "eligible" : "ineligible"}`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Override failed",
+        description: getApiErrorMessage(error, "Failed to update receipt eligibility"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const justificationValid = justification.trim().length >= 10;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Override Eligibility</DialogTitle>
+          <DialogDescription>
+            {receipt.stationName} &middot; {receipt.date}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Rule results</Label>
+            {reasons.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This receipt passes every eligibility rule.</p>
+            ) : (
+              <ul className="space-y-2">
+                {reasons.map(reason => (
+                  <li key={reason} className="text-sm" data-testid={`text-override-reason-${reason}`}>
+                    <Badge variant={ELIGIBILITY_REASONS[reason].overridable ? "secondary" : "destructive"} className="mr-2">
+                      {ELIGIBILITY_REASONS[reason].label}
+                    </Badge>
+                    <span className="text-muted-foreground">{ELIGIBILITY_REASONS[reason].description}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {blockingReasons.length > 0 && (
+              <p className="text-sm text-destructive">
+                Reasons shown in red cannot be overridden; fix the receipt data instead.
+              </p>
+            )}
+          </div>
+
+          {hasOverride && (
+            <p className="text-sm text-muted-foreground" data-testid="text-current-override">
+              Currently overridden as <span className="font-medium">{receipt.eligibilityOverride ? "eligible" : "ineligible"}</span>
+              {receipt.eligibilityOverrideAt && ` on ${new Date(receipt.eligibilityOverrideAt).toLocaleDateString()}`}.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="overrideJustification">Justification</Label>
+            <Textarea
+              id="overrideJustification"
+              placeholder="Explain why the rules should not apply to this receipt"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              rows={3}
+              data-testid="input-override-justification"
+            />
+            <p className="text-xs text-muted-foreground">At least 10 characters. Recorded with your name and the date.</p>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {hasOverride && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => overrideMutation.mutate(null)}
+              disabled={overrideMutation.isPending}
+              data-testid="button-clear-override"
+            >
+              Remove Override
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => overrideMutation.mutate(false)}
+            disabled={!justificationValid || overrideMutation.isPending}
+            data-testid="button-override-ineligible"
+          >
+            Mark Ineligible
+          </Button>
+          <Button
+            type="button"
+            onClick={() => overrideMutation.mutate(true)}
+            disabled={!justificationValid || blockingReasons.length > 0 || overrideMutation.isPending}
+            data-testid="button-override-eligible"
+          >
+            {overrideMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Mark Eligible
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Download, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useFilingCalendar } from "@/hooks/use-filing-calendar";
+import { formatCalendarDate } from "@shared/filingCalendar";
 
 interface ExportSectionProps {
   receipts: Receipt[];
@@ -12,6 +14,7 @@ interface ExportSectionProps {
 
 export function ExportSection({ receipts }: ExportSectionProps) {
   const { toast } = useToast();
+  const { getCalendar } = useFilingCalendar();
 
   // Memoize fiscal years to prevent unnecessary recalculations
   const fiscalYears = useMemo(() => {
@@ -28,6 +31,7 @@ export function ExportSection({ receipts }: ExportSectionProps) {
   }, [fiscalYears, selectedYear]);
 
   const yearReceipts = receipts.filter(r => r.fiscalYear === selectedYear);
+  const calendar = selectedYear ? getCalendar(selectedYear) : null;
 
   const handleExport = () => {
     if (yearReceipts.length === 0) {
@@ -77,8 +81,14 @@ export function ExportSection({ receipts }: ExportSectionProps) {
             Submission Guidelines
           </p>
           <ul className="text-sm text-muted-foreground space-y-1">
-            <li>• Fiscal year runs from July 1 to June 30</li>
-            <li>• Submit between July 1 and September 30 of the following year</li>
+            {calendar ? (
+              <>
+                <li>• FY {calendar.fiscalYear} runs from {formatCalendarDate(calendar.startDate)} to {formatCalendarDate(calendar.endDate)}</li>
+                <li>• Submit between {formatCalendarDate(calendar.filingOpensOn)} and {formatCalendarDate(calendar.filingDeadline)}</li>
+              </>
+            ) : (
+              <li>• Claims are filed after the fiscal year ends</li>
+            )}
             <li>• Keep original receipts for your records</li>
             <li>• CSV format is compatible with Form 4923-H</li>
           </ul>
@@ -145,15 +155,3 @@ function generateCSV(receipts: Receipt[]): string {
     ...rows.map(row => row.join(","))
   ].join("\n");
 }
-
-function getCurrentFiscalYear(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.getMonth() + 1;
-  
-  if (month >= 7) {
-    return `${year}-${year + 1}`;
-  } else {
-    return `${year - 1}-${year}`;
-  }
-}
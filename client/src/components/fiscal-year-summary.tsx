@@ -1,24 +1,25 @@
-import { Receipt } from "@shared/schema";
+import type { ReceiptSummary } from "@shared/receiptQuery";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Fuel, DollarSign, FileText, Calendar } from "lucide-react";
+import { daysBetween, formatCalendarDate, toDateString } from "@shared/filingCalendar";
+import { useFilingCalendar } from "@/hooks/use-filing-calendar";
 
 interface FiscalYearSummaryProps {
-  receipts: Receipt[];
+  totals: Pick<ReceiptSummary, "receiptCount" | "gallons" | "totalAmount">;
   fiscalYear: string;
 }
 
-export function FiscalYearSummary({ receipts, fiscalYear }: FiscalYearSummaryProps) {
-  const totalGallons = receipts.reduce((sum, r) => sum + parseFloat(r.gallons || "0"), 0);
-  const totalAmount = receipts.reduce((sum, r) => sum + parseFloat(r.totalAmount || "0"), 0);
-  const receiptCount = receipts.length;
+export function FiscalYearSummary({ totals, fiscalYear }: FiscalYearSummaryProps) {
+  const { gallons: totalGallons, totalAmount, receiptCount } = totals;
 
-  const daysUntilDeadline = getDaysUntilDeadline();
+  const { getCalendar, openFilingWindow } = useFilingCalendar();
+  const daysUntilDeadline = openFilingWindow ? daysBetween(toDateString(), openFilingWindow.filingDeadline) : null;
   
   if (!fiscalYear) {
     return null;
   }
 
-  const [startYear, endYear] = fiscalYear.split('-');
+  const calendar = getCalendar(fiscalYear);
 
   const summaryCards = [
     {
@@ -44,12 +45,12 @@ export function FiscalYearSummary({ receipts, fiscalYear }: FiscalYearSummaryPro
     },
   ];
 
-  if (daysUntilDeadline !== null) {
+  if (openFilingWindow && daysUntilDeadline !== null) {
     summaryCards.push({
       title: "Days Until Deadline",
       value: daysUntilDeadline.toString(),
       icon: Calendar,
-      subtitle: "Submit before Sept 30",
+      subtitle: `Submit FY ${openFilingWindow.fiscalYear} by ${formatCalendarDate(openFilingWindow.filingDeadline)}`,
       testId: "text-days-until-deadline",
     });
   }
@@ -61,7 +62,7 @@ export function FiscalYearSummary({ receipts, fiscalYear }: FiscalYearSummaryPro
           Fiscal Year {fiscalYear} Summary
         </h2>
         <p className="text-sm text-muted-foreground mt-1">
-          July 1, {startYear} - June 30, {endYear}
+          {formatCalendarDate(calendar.startDate)} - {formatCalendarDate(calendar.endDate)}
         </p>
       </div>
       
@@ -88,18 +89,3 @@ export function FiscalYearSummary({ receipts, fiscalYear }: FiscalYearSummaryPro
     </div>
   );
 }
-
-function getDaysUntilDeadline(): number | null {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.getMonth() + 1;
-
-  if (month >= 7 && month <= 9) {
-    const deadline = new Date(year, 8, 30);
-    const diff = deadline.getTime() - now.getTime();
-    const days = Math.ceil(diff / (1000 * 60 * 60 * 24));
-    return days >= 0 ? days : null;
-  }
-
-  return null;
-}
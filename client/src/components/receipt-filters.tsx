@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { AccountMember, User, Vehicle } from "@shared/schema";
+import {
+  UNASSIGNED_VEHICLE_FILTER,
+  type EligibilityFilter,
+  type ReceiptFilters,
+  type ReceiptProcessingStatus,
+} from "@shared/receiptQuery";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+
+type MemberWithUser = AccountMember & { user: User };
+
+// Filters the receipts page sets itself (fiscal year, seller state) are not edited here
+export type ReceiptFilterValues = Omit<ReceiptFilters, "fiscalYear" | "sellerState">;
+
+interface ReceiptFilterBarProps {
+  accountId: string;
+  filters: ReceiptFilterValues;
+  onChange: (filters: ReceiptFilterValues) => void;
+  // Only owners and admins can list the account's members
+  canFilterByUploader: boolean;
+}
+
+const ALL = "all";
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_OPTIONS: { value: ReceiptProcessingStatus; label: string }[] = [
+  { value: "completed", label: "Transcribed" },
+  { value: "pending", label: "Waiting" },
+  { value: "processing", label: "Processing" },
+  { value: "failed", label: "Failed" },
+];
+
+export function ReceiptFilterBar({ accountId, filters, onChange, canFilterByUploader }: ReceiptFilterBarProps) {
+  const [search, setSearch] = useState(filters.search ?? "");
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/accounts", accountId, "vehicles"],
+    enabled: !!accountId,
+  });
+
+  const { data: members = [] } = useQuery<MemberWithUser[]>({
+    queryKey: ["/api/accounts", accountId, "members"],
+    enabled: !!accountId && canFilterByUploader,
+  });
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const trimmed = search.trim();
+    if (trimmed === (filters.search ?? "")) return;
+    const timeout = setTimeout(() => onChange({ ...filters, search: trimmed || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, filters, onChange]);
+
+  const update = (changes: Partial<ReceiptFilterValues>) => onChange({ ...filters, ...changes });
+  const hasFilters = Object.values(filters).some(value => value !== undefined);
+
+  return (
+    <div className="flex flex-wrap items-end gap-3" data-testid="receipt-filters">
+      <div className="space-y-1 flex-1 min-w-48">
+        <Label htmlFor="receipt-search" className="text-xs text-muted-foreground">Station</Label>
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            id="receipt-search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search stations"
+            className="pl-8"
+            data-testid="input-receipt-search"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Vehicle</Label>
+        <Select value={filters.vehicleId ?? ALL} onValueChange={(value) => update({ vehicleId: value === ALL ? undefined : value })}>
+          <SelectTrigger className="w-44" data-testid="select-filter-vehicle">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All vehicles</SelectItem>
+            {vehicles.map(vehicle => (
+              <SelectItem key={vehicle.id} value={vehicle.id}>
+                {vehicle.nickname || `${vehicle.year} ${vehicle.make} ${vehicle.model}`}
+              </SelectItem>
+            ))}
+            <SelectItem value={UNASSIGNED_VEHICLE_FILTER}>No vehicle</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {canFilterByUploader && (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Uploaded by</Label>
+          <Select value={filters.uploadedBy ?? ALL} onValueChange={(value) => update({ uploadedBy: value === ALL ? undefined : value })}>
+            <SelectTrigger className="w-44" data-testid="select-filter-uploader">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Anyone</SelectItem>
+              {members.map(member => (
+                <SelectItem key={member.userId} value={member.userId}>
+                  {`${member.user.firstName} ${member.user.lastName}`.trim() || member.user.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Status</Label>
+        <Select
+          value={filters.processingStatus ?? ALL}
+          onValueChange={(value) => update({ processingStatus: value === ALL ? undefined : value as ReceiptProcessingStatus })}
+        >
+          <SelectTrigger className="w-36" data-testid="select-filter-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any status</SelectItem>
+            {STATUS_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Validated</Label>
+        <Select
+          value={filters.validated === undefined ? ALL : String(filters.validated)}
+          onValueChange={(value) => update({ validated: value === ALL ? undefined : value === "true" })}
+        >
+          <SelectTrigger className="w-36" data-testid="select-filter-validated">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any</SelectItem>
+            <SelectItem value="true">Validated</SelectItem>
+            <SelectItem value="false">Not validated</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Eligibility</Label>
+        <Select
+          value={filters.eligibility ?? ALL}
+          onValueChange={(value) => update({ eligibility: value === ALL ? undefined : value as EligibilityFilter })}
+        >
+          <SelectTrigger className="w-36" data-testid="select-filter-eligibility">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any</SelectItem>
+            <SelectItem value="eligible">Eligible</SelectItem>
+            <SelectItem value="ineligible">Not eligible</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="receipt-date-from" className="text-xs text-muted-foreground">From</Label>
+        <Input
+          id="receipt-date-from"
+          type="date"
+          value={filters.dateFrom ?? ""}
+          onChange={(e) => update({ dateFrom: e.target.value || undefined })}
+          className="w-40"
+          data-testid="input-filter-date-from"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="receipt-date-to" className="text-xs text-muted-foreground">To</Label>
+        <Input
+          id="receipt-date-to"
+          type="date"
+          value={filters.dateTo ?? ""}
+          onChange={(e) => update({ dateTo: e.target.value || undefined })}
+          className="w-40"
+          data-testid="input-filter-date-to"
+        />
+      </div>
+
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setSearch("");
+            onChange({});
+          }}
+          data-testid="button-clear-filters"
+        >
+          <X className="w-4 h-4 mr-2" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ReceiptRevision, User, Vehicle } from "@shared/schema";
+import { REVISION_FIELDS, REVISION_SOURCES, type ReceiptFieldChange, type RevisionSource } from "@shared/receiptRevisions";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+
+type RevisionWithActor = ReceiptRevision & {
+  actor: Pick<User, "id" | "firstName" | "lastName" | "email"> | null;
+};
+
+interface ReceiptHistoryProps {
+  receiptId: string;
+  accountId: string;
+}
+
+function actorName(revision: RevisionWithActor): string {
+  if (!revision.actor) {
+    return revision.source === "ai" ? "AI" : "Former member";
+  }
+  const { firstName, lastName, email } = revision.actor;
+  return `${firstName ?? ""} ${lastName ?? ""}`.trim() || email || "Unknown user";
+}
+
+/**
+ * Timeline of every recorded change to a receipt: who or what changed it,
+ * when, and each field's value before and after.
+ */
+export function ReceiptHistory({ receiptId, accountId }: ReceiptHistoryProps) {
+  const { data: revisions = [], isLoading } = useQuery<RevisionWithActor[]>({
+    queryKey: ["/api/accounts", accountId, "receipts", receiptId, "revisions"],
+    enabled: !!receiptId,
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/accounts", accountId, "vehicles"],
+    enabled: !!accountId,
+  });
+
+  const formatValue = (change: ReceiptFieldChange, value: ReceiptFieldChange["before"]): string => {
+    if (value === null || value === "") return "—";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    if (change.field === "vehicleId") {
+      const vehicle = vehicles.find(v => v.id === value);
+      return vehicle ? vehicle.nickname || `${vehicle.year} ${vehicle.make} ${vehicle.model}` : "Removed vehicle";
+    }
+    if (change.field === "duplicateOfId") return "Another receipt";
+    if (change.field === "deletedAt") return format(new Date(String(value)), "MMM d, yyyy h:mm a");
+    return String(value);
+  };
+
+  if (isLoading || revisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pt-2 space-y-3 border-t" data-testid="receipt-history">
+      <h4 className="pt-2 text-sm font-medium flex items-center gap-2">
+        <History className="w-4 h-4" />
+        History
+      </h4>
+      <ol className="space-y-3 border-l pl-4">
+        {revisions.map(revision => (
+          <li key={revision.id} className="text-sm" data-testid={`revision-${revision.id}`}>
+            <p>
+              <span className="font-medium">
+                {REVISION_SOURCES[revision.source as RevisionSource]?.label ?? revision.source}
+              </span>
+              <span className="text-muted-foreground">
+                {" "}by {actorName(revision)} · {format(new Date(revision.createdAt), "MMM d, yyyy h:mm a")}
+              </span>
+            </p>
+            <ul className="mt-1 space-y-0.5 text-muted-foreground">
+              {revision.changes.map(change => (
+                <li key={change.field} data-testid={`revision-change-${revision.id}-${change.field}`}>
+                  {REVISION_FIELDS[change.field]?.label ?? change.field}:{" "}
+                  <span className="line-through">{formatValue(change, change.before)}</span>
+                  {" → "}
+                  <span className="text-foreground">{formatValue(change, change.after)}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
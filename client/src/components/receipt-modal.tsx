@@ -1,13 +1,20 @@
 import { useState } from "react";
-import { Receipt } from "@shared/schema";
+import { Receipt, type TranscriptionField } from "@shared/schema";
+import { isLowConfidence } from "@shared/confidence";
+import { RECEIPT_WARNINGS } from "@shared/receiptWarnings";
+import { isBrowserViewable } from "@shared/receiptFiles";
+import { EVIDENCE_TYPES } from "@shared/receiptEvidence";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, AlertCircle, RotateCcw, RotateCw, ZoomIn, ZoomOut, RefreshCw } from "lucide-react";
+import { Loader2, AlertCircle, RotateCcw, RotateCw, ZoomIn, ZoomOut, RefreshCw, ScanText, ImageIcon, ExternalLink, FileText } from "lucide-react";
+import { TranscriptionReview } from "@/components/transcription-review";
+import { DuplicateNotice } from "@/components/duplicate-notice";
+import { ReceiptHistory } from "@/components/receipt-history";
 import { TransformWrapper, TransformComponent, useControls } from "react-zoom-pan-pinch";
 
 function ZoomControls() {
@@ -48,18 +55,48 @@ function ZoomControls() {
   );
 }
 
+function ConfidenceHint({ receipt, field }: { receipt: Receipt; field: TranscriptionField }) {
+  const entry = receipt.fieldConfidence?.[field];
+  if (receipt.validated || !entry || !isLowConfidence(receipt.fieldConfidence, field)) {
+    return null;
+  }
+
+  return (
+    <p className="text-xs text-amber-700 dark:text-amber-400" data-testid={`text-confidence-${field}`}>
+      Low confidence ({Math.round(entry.confidence * 100)}%)
+      {entry.rawText ? <> - read from "<span className="font-mono">{entry.rawText}</span>"</> : " - not found on the receipt"}
+    </p>
+  );
+}
+
 interface ReceiptModalProps {
   receipt: Receipt;
   accountId: string;
   open: boolean;
   onClose: () => void;
+  // Open another receipt in place of this one, e.g. the original of a duplicate
+  onViewReceipt?: (receipt: Receipt) => void;
 }
 
-type ReceiptWithTax = Receipt & { taxRate?: number; taxRefund?: number };
+type ReceiptWithTax = Receipt & {
+  taxRate?: number;
+  taxRefund?: number;
+  taxFuelType?: string | null;
+  taxRateFallback?: boolean;
+  taxFiled?: boolean;
+};
 
-export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModalProps) {
+export function ReceiptModal({ receipt, accountId, open, onClose, onViewReceipt }: ReceiptModalProps) {
   const receiptWithTax = receipt as ReceiptWithTax;
   const [rotation, setRotation] = useState(0);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const originalUrl = `/api/accounts/${accountId}/receipts/${receipt.id}/original`;
+  // Manual entries have no receipt image, only the supporting document if one was attached
+  const isManualEntry = !receipt.imageUrl;
+  const originalViewable = !!receipt.originalImagePath && isBrowserViewable(receipt.originalImageType);
+  const imageSrc = isManualEntry
+    ? (originalViewable ? originalUrl : null)
+    : (showOriginal ? originalUrl : receipt.imageUrl);
   const [formData, setFormData] = useState({
     date: receipt.date,
     stationName: receipt.stationName,
@@ -76,25 +113,62 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
   const queryClient = useQueryClient();
   const isUnvalidated = !receipt.validated;
 
+  // Validation is the claim gate, so only owners and admins can validate
+  const { data: roleData } = useQuery<{ role: string }>({
+    queryKey: ["/api/accounts", accountId, "my-role"],
+    enabled: !!accountId,
+  });
+  const canValidate = roleData?.role === "owner" || roleData?.role === "admin";
+  const isValidating = isUnvalidated && canValidate;
+
+  // Highlight fields the transcription was unsure about until the receipt is validated
+  const lowConfidenceClass = (field: TranscriptionField) =>
+    isUnvalidated && isLowConfidence(receipt.fieldConfidence, field)
+      ? "border-amber-500 focus-visible:ring-amber-500"
+      : undefined;
+
   const updateMutation = useMutation({
-    mutationFn: async (data: typeof formData & { validated?: boolean }) => {
-      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}`, {
-        method: "PUT",
+    mutationFn: async (data: typeof formData) => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}${isValidating ? "/approve" : ""}`, {
+        method: isValidating ? "POST" : "PUT",
         body: JSON.stringify(data),
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
       toast({
-        title: isUnvalidated ? "Receipt validated" : "Receipt updated",
-        description: isUnvalidated ? "Receipt has been verified and saved" : "Changes saved successfully",
+        title: isValidating ? "Receipt validated" : "Receipt updated",
+        description: isValidating ? "Receipt has been verified and saved" : "Changes saved successfully",
       });
       onClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Update failed",
-        description: "Failed to save changes",
+        description: getApiErrorMessage(error, "Failed to save changes"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reprocessMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}/reprocess`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+      toast({
+        title: "Re-transcription queued",
+        description: "The new values will appear here for review when they are ready",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Re-transcription failed",
+        description: getApiErrorMessage(error, "Failed to queue re-transcription"),
         variant: "destructive",
       });
     },
@@ -102,11 +176,7 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isUnvalidated) {
-      updateMutation.mutate({ ...formData, validated: true });
-    } else {
-      updateMutation.mutate(formData);
-    }
+    updateMutation.mutate(formData);
   };
 
   return (
@@ -115,7 +185,7 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             {isUnvalidated && <AlertCircle className="w-5 h-5 text-destructive" />}
-            {isUnvalidated ? "Validate Receipt" : "Receipt Details"}
+            {isValidating ? "Validate Receipt" : "Receipt Details"}
           </DialogTitle>
         </DialogHeader>
 
@@ -144,6 +214,27 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                   <RotateCw className="h-4 w-4" />
                 </Button>
               </div>
+              {receipt.originalImagePath && !isBrowserViewable(receipt.originalImageType) && (
+                <Button type="button" size="sm" variant="outline" asChild data-testid="link-original-file">
+                  <a href={originalUrl} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    {isManualEntry ? "Supporting document" : receipt.originalImageType === "application/pdf" ? "Original PDF" : "Original file"}
+                  </a>
+                </Button>
+              )}
+              {!isManualEntry && originalViewable && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={showOriginal ? "secondary" : "outline"}
+                  onClick={() => setShowOriginal((value) => !value)}
+                  data-testid="button-toggle-original"
+                  title={showOriginal ? "Show the processed image" : "Show the image as it was uploaded"}
+                >
+                  <ImageIcon className="h-4 w-4 mr-2" />
+                  {showOriginal ? "Original" : "Processed"}
+                </Button>
+              )}
             </div>
             <div className="border rounded-md overflow-hidden bg-muted h-[400px] relative">
               <TransformWrapper
@@ -159,13 +250,21 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                   wrapperStyle={{ width: "100%", height: "100%" }}
                   contentStyle={{ width: "100%", height: "100%", display: "flex", alignItems: "center", justifyContent: "center" }}
                 >
-                  <img
-                    src={receipt.imageUrl}
-                    alt="Receipt"
-                    className="max-w-full max-h-full object-contain"
-                    style={{ transform: `rotate(${rotation}deg)` }}
-                    data-testid="img-receipt-detail"
-                  />
+                  {imageSrc ? (
+                    <img
+                      src={imageSrc}
+                      alt={isManualEntry ? "Supporting document" : showOriginal ? "Original receipt upload" : "Receipt"}
+                      className="max-w-full max-h-full object-contain"
+                      style={{ transform: `rotate(${rotation}deg)` }}
+                      data-testid="img-receipt-detail"
+                    />
+                  ) : (
+                    <div className="flex flex-col items-center gap-2 p-6 text-center text-sm text-muted-foreground" data-testid="text-manual-entry">
+                      <FileText className="w-10 h-10" />
+                      <p>Manual entry - no receipt image</p>
+                      <p>{EVIDENCE_TYPES[receipt.evidenceType].description}</p>
+                    </div>
+                  )}
                 </TransformComponent>
               </TransformWrapper>
             </div>
@@ -175,7 +274,51 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
           <form onSubmit={handleSubmit} className="space-y-4">
             {isUnvalidated && (
               <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
-                Please verify the AI-extracted details below match the receipt image.
+                {isManualEntry
+                  ? "Please verify the entered details below against the supporting records."
+                  : "Please verify the AI-extracted details below match the receipt image."}
+                {!canValidate && " An account owner or admin validates receipts before they count toward a claim."}
+              </div>
+            )}
+
+            {isManualEntry && (
+              <p className="text-sm text-muted-foreground" data-testid="text-evidence-type">
+                <span className="font-medium">Manual entry:</span> {EVIDENCE_TYPES[receipt.evidenceType].label}.
+                Marked as such on Form 4923-H.
+              </p>
+            )}
+
+            {receipt.duplicateOfId && (
+              <DuplicateNotice
+                receipt={receipt}
+                accountId={accountId}
+                onViewOriginal={onViewReceipt}
+                onResolved={onClose}
+              />
+            )}
+
+            {receipt.pendingTranscription && (
+              <TranscriptionReview
+                receipt={receipt}
+                proposal={receipt.pendingTranscription}
+                accountId={accountId}
+                onApplied={onClose}
+              />
+            )}
+
+            {isUnvalidated && receipt.needsReview && (
+              <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-md text-sm text-amber-700 dark:text-amber-400" data-testid="text-needs-review">
+                <strong>Needs review:</strong> Some details could not be read with confidence. Check the highlighted fields against the receipt image.
+              </div>
+            )}
+
+            {receipt.validationWarnings.length > 0 && (
+              <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-md text-sm text-amber-700 dark:text-amber-400 space-y-1" data-testid="list-validation-warnings">
+                {receipt.validationWarnings.map(warning => (
+                  <p key={warning.code} data-testid={`text-warning-${warning.code}`}>
+                    <strong>{RECEIPT_WARNINGS[warning.code].label}:</strong> {warning.message}
+                  </p>
+                ))}
               </div>
             )}
 
@@ -193,8 +336,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                 value={formData.date}
                 onChange={(e) => setFormData({ ...formData, date: e.target.value })}
                 required
+                className={lowConfidenceClass("date")}
                 data-testid="input-edit-date"
               />
+              <ConfidenceHint receipt={receipt} field="date" />
             </div>
 
             <div className="space-y-2">
@@ -204,8 +349,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                 value={formData.stationName}
                 onChange={(e) => setFormData({ ...formData, stationName: e.target.value })}
                 required
+                className={lowConfidenceClass("stationName")}
                 data-testid="input-edit-station"
               />
+              <ConfidenceHint receipt={receipt} field="stationName" />
             </div>
 
             <div className="space-y-2">
@@ -215,8 +362,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                 value={formData.sellerStreet}
                 onChange={(e) => setFormData({ ...formData, sellerStreet: e.target.value })}
                 placeholder="123 Main St"
+                className={lowConfidenceClass("sellerStreet")}
                 data-testid="input-edit-street"
               />
+              <ConfidenceHint receipt={receipt} field="sellerStreet" />
             </div>
 
             <div className="grid grid-cols-3 gap-2">
@@ -227,8 +376,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                   value={formData.sellerCity}
                   onChange={(e) => setFormData({ ...formData, sellerCity: e.target.value })}
                   placeholder="City"
+                  className={lowConfidenceClass("sellerCity")}
                   data-testid="input-edit-city"
                 />
+                <ConfidenceHint receipt={receipt} field="sellerCity" />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="sellerState">State</Label>
@@ -238,8 +389,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                   onChange={(e) => setFormData({ ...formData, sellerState: e.target.value.toUpperCase().slice(0, 2) })}
                   placeholder="MO"
                   maxLength={2}
+                  className={lowConfidenceClass("sellerState")}
                   data-testid="input-edit-state"
                 />
+                <ConfidenceHint receipt={receipt} field="sellerState" />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="sellerZip">ZIP</Label>
@@ -248,8 +401,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                   value={formData.sellerZip}
                   onChange={(e) => setFormData({ ...formData, sellerZip: e.target.value })}
                   placeholder="12345"
+                  className={lowConfidenceClass("sellerZip")}
                   data-testid="input-edit-zip"
                 />
+                <ConfidenceHint receipt={receipt} field="sellerZip" />
               </div>
             </div>
 
@@ -262,8 +417,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                 value={formData.gallons}
                 onChange={(e) => setFormData({ ...formData, gallons: e.target.value })}
                 required
+                className={lowConfidenceClass("gallons")}
                 data-testid="input-edit-gallons"
               />
+              <ConfidenceHint receipt={receipt} field="gallons" />
             </div>
 
             <div className="space-y-2">
@@ -275,8 +432,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                 value={formData.pricePerGallon}
                 onChange={(e) => setFormData({ ...formData, pricePerGallon: e.target.value })}
                 required
+                className={lowConfidenceClass("pricePerGallon")}
                 data-testid="input-edit-price"
               />
+              <ConfidenceHint receipt={receipt} field="pricePerGallon" />
             </div>
 
             <div className="space-y-2">
@@ -288,8 +447,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
                 value={formData.totalAmount}
                 onChange={(e) => setFormData({ ...formData, totalAmount: e.target.value })}
                 required
+                className={lowConfidenceClass("totalAmount")}
                 data-testid="input-edit-total"
               />
+              <ConfidenceHint receipt={receipt} field="totalAmount" />
             </div>
 
             <div className="pt-2 space-y-2 text-sm text-muted-foreground border-t">
@@ -299,11 +460,40 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
               {receiptWithTax.taxRefund !== undefined && !isNaN(receiptWithTax.taxRefund) && (
                 <p className="text-base font-semibold text-primary" data-testid="text-tax-refund">
                   <span className="font-medium text-muted-foreground">Tax Refund:</span> ${parseFloat(receiptWithTax.taxRefund.toString()).toFixed(2)}
+                  {receiptWithTax.taxFiled && (
+                    <span className="ml-2 text-xs font-normal text-muted-foreground">(as filed)</span>
+                  )}
+                </p>
+              )}
+              {receiptWithTax.taxFuelType && (
+                <p data-testid="text-tax-fuel-type">
+                  <span className="font-medium">Fuel Type:</span> {receiptWithTax.taxFuelType}
+                  {receiptWithTax.taxRateFallback && " (no specific rate on file - using the general motor fuel rate)"}
                 </p>
               )}
             </div>
 
+            <ReceiptHistory receiptId={receipt.id} accountId={accountId} />
+
             <DialogFooter className="gap-2">
+              {!isManualEntry && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => reprocessMutation.mutate()}
+                  disabled={updateMutation.isPending || reprocessMutation.isPending}
+                  className="sm:mr-auto"
+                  title="Run transcription on the receipt image again"
+                  data-testid="button-reprocess"
+                >
+                  {reprocessMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <ScanText className="w-4 h-4 mr-2" />
+                  )}
+                  Re-transcribe
+                </Button>
+              )}
               <Button
                 type="button"
                 variant="outline"
@@ -316,11 +506,10 @@ export function ReceiptModal({ receipt, accountId, open, onClose }: ReceiptModal
               <Button
                 type="submit"
                 disabled={updateMutation.isPending}
-                variant={isUnvalidated ? "default" : "default"}
                 data-testid="button-save-edit"
               >
                 {updateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-                {isUnvalidated ? "Validate" : "Save Changes"}
+                {isValidating ? "Validate" : "Save Changes"}
               </Button>
             </DialogFooter>
           </form>
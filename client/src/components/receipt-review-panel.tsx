@@ -0,0 +1,322 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { TranscriptionField } from "@shared/schema";
+import { isLowConfidence } from "@shared/confidence";
+import { RECEIPT_WARNINGS } from "@shared/receiptWarnings";
+import { EVIDENCE_TYPES } from "@shared/receiptEvidence";
+import { isBrowserViewable } from "@shared/receiptFiles";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ReceiptListItem } from "@/hooks/use-receipts";
+import { TransformWrapper, TransformComponent } from "react-zoom-pan-pinch";
+import { Check, ChevronLeft, ChevronRight, ExternalLink, FileText, Loader2, Pencil, X } from "lucide-react";
+
+interface ReceiptReviewPanelProps {
+  receipt: ReceiptListItem;
+  accountId: string;
+  // Called once the receipt has been approved or rejected
+  onReviewed: (receiptId: string) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+}
+
+type ReviewFields = Record<"date" | "stationName" | "sellerCity" | "sellerState" | "gallons" | "pricePerGallon" | "totalAmount", string>;
+
+const FIELDS: { key: keyof ReviewFields; label: string; type: string; step?: string }[] = [
+  { key: "date", label: "Date", type: "date" },
+  { key: "stationName", label: "Station Name", type: "text" },
+  { key: "sellerCity", label: "City", type: "text" },
+  { key: "sellerState", label: "State", type: "text" },
+  { key: "gallons", label: "Gallons", type: "number", step: "0.001" },
+  { key: "pricePerGallon", label: "Price per Gallon", type: "number", step: "0.001" },
+  { key: "totalAmount", label: "Total Amount", type: "number", step: "0.01" },
+];
+
+function initialFields(receipt: ReceiptListItem): ReviewFields {
+  return {
+    date: receipt.date,
+    stationName: receipt.stationName,
+    sellerCity: receipt.sellerCity || "",
+    sellerState: receipt.sellerState || "",
+    gallons: parseFloat(receipt.gallons || "0").toFixed(3),
+    pricePerGallon: parseFloat(receipt.pricePerGallon || "0").toFixed(3),
+    totalAmount: parseFloat(receipt.totalAmount || "0").toFixed(2),
+  };
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+}
+
+/**
+ * One receipt in the review queue: the image beside its transcribed values.
+ * Keyboard shortcuts: A approve, C correct (focus the form), R reject,
+ * J / K next and previous, Ctrl+Enter save while editing, Esc cancel.
+ */
+export function ReceiptReviewPanel({ receipt, accountId, onReviewed, onNext, onPrevious }: ReceiptReviewPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fields, setFields] = useState<ReviewFields>(() => initialFields(receipt));
+  const [rejecting, setRejecting] = useState(false);
+  const [justification, setJustification] = useState("");
+  const firstFieldRef = useRef<HTMLInputElement>(null);
+  const justificationRef = useRef<HTMLTextAreaElement>(null);
+
+  const original = initialFields(receipt);
+  const corrected = FIELDS.some(({ key }) => fields[key] !== original[key]);
+
+  const onSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+    toast({ title });
+    onReviewed(receipt.id);
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}/approve`, {
+        method: "POST",
+        body: JSON.stringify(fields),
+      });
+    },
+    onSuccess: () => onSuccess(corrected ? "Receipt corrected and validated" : "Receipt validated"),
+    onError: (error) => {
+      toast({
+        title: "Validation failed",
+        description: getApiErrorMessage(error, "Failed to validate the receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}/reject`, {
+        method: "POST",
+        body: JSON.stringify({ justification }),
+      });
+    },
+    onSuccess: () => onSuccess("Receipt rejected"),
+    onError: (error) => {
+      toast({
+        title: "Rejection failed",
+        description: getApiErrorMessage(error, "Failed to reject the receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = approveMutation.isPending || rejectMutation.isPending;
+  const justificationValid = justification.trim().length >= 10;
+
+  const approve = () => {
+    if (!isPending) approveMutation.mutate();
+  };
+  const reject = () => {
+    if (!isPending && justificationValid) rejectMutation.mutate();
+  };
+  const startRejecting = () => {
+    setRejecting(true);
+    setTimeout(() => justificationRef.current?.focus());
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        if (rejecting) setRejecting(false);
+        if (isTyping(event.target)) (event.target as HTMLElement).blur();
+        return;
+      }
+      if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        if (rejecting) reject();
+        else approve();
+        return;
+      }
+      if (isTyping(event.target) || event.ctrlKey || event.metaKey || event.altKey) {
+        return;
+      }
+
+      switch (event.key.toLowerCase()) {
+        case "a":
+          event.preventDefault();
+          approve();
+          break;
+        case "c":
+          event.preventDefault();
+          firstFieldRef.current?.focus();
+          break;
+        case "r":
+          event.preventDefault();
+          startRejecting();
+          break;
+        case "j":
+        case "arrowright":
+          event.preventDefault();
+          onNext();
+          break;
+        case "k":
+        case "arrowleft":
+          event.preventDefault();
+          onPrevious();
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Manual entries are shown with their supporting document, if it can be displayed
+  const originalUrl = `/api/accounts/${accountId}/receipts/${receipt.id}/original`;
+  const imageSrc = receipt.imageUrl
+    ?? (receipt.originalImagePath && isBrowserViewable(receipt.originalImageType) ? originalUrl : null);
+
+  const lowConfidenceClass = (field: TranscriptionField) =>
+    isLowConfidence(receipt.fieldConfidence, field)
+      ? "border-amber-500 focus-visible:ring-amber-500"
+      : undefined;
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6" data-testid={`review-panel-${receipt.id}`}>
+      <div className="border rounded-md overflow-hidden bg-muted h-[60vh] min-h-[400px]">
+        <TransformWrapper initialScale={1} minScale={0.5} maxScale={4} centerOnInit>
+          <TransformComponent
+            wrapperStyle={{ width: "100%", height: "100%" }}
+            contentStyle={{ width: "100%", height: "100%", display: "flex", alignItems: "center", justifyContent: "center" }}
+          >
+            {imageSrc ? (
+              <img
+                src={imageSrc}
+                alt={receipt.imageUrl ? "Receipt" : "Supporting document"}
+                className="max-w-full max-h-full object-contain"
+                data-testid="img-review-receipt"
+              />
+            ) : (
+              <div className="flex flex-col items-center gap-2 p-6 text-center text-sm text-muted-foreground" data-testid="text-review-manual-entry">
+                <FileText className="w-10 h-10" />
+                <p>Manual entry - no receipt image</p>
+                {receipt.originalImagePath ? (
+                  <a href={originalUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 underline">
+                    <ExternalLink className="w-4 h-4" />
+                    Open supporting document
+                  </a>
+                ) : (
+                  <p>{EVIDENCE_TYPES[receipt.evidenceType].description}</p>
+                )}
+              </div>
+            )}
+          </TransformComponent>
+        </TransformWrapper>
+      </div>
+
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          approve();
+        }}
+      >
+        <div className="flex items-center gap-2 flex-wrap text-sm text-muted-foreground">
+          <span>Uploaded by {receipt.uploadedByUser ? `${receipt.uploadedByUser.firstName} ${receipt.uploadedByUser.lastName}`.trim() || receipt.uploadedByUser.email : "unknown"}</span>
+          {receipt.vehicle && (
+            <Badge variant="outline">{receipt.vehicle.nickname || `${receipt.vehicle.year} ${receipt.vehicle.make} ${receipt.vehicle.model}`}</Badge>
+          )}
+          {receipt.needsReview && <Badge variant="secondary">Low confidence</Badge>}
+          {receipt.evidenceType !== "receipt" && (
+            <Badge variant="outline" data-testid="badge-review-evidence">Manual: {EVIDENCE_TYPES[receipt.evidenceType].label}</Badge>
+          )}
+        </div>
+
+        {receipt.validationWarnings.length > 0 && (
+          <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-md text-sm text-amber-700 dark:text-amber-400 space-y-1" data-testid="list-review-warnings">
+            {receipt.validationWarnings.map(warning => (
+              <p key={warning.code}>
+                <strong>{RECEIPT_WARNINGS[warning.code].label}:</strong> {warning.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          {FIELDS.map(({ key, label, type, step }, index) => (
+            <div key={key} className={key === "stationName" ? "col-span-2 space-y-1" : "space-y-1"}>
+              <Label htmlFor={`review-${key}`}>{label}</Label>
+              <Input
+                id={`review-${key}`}
+                ref={index === 0 ? firstFieldRef : undefined}
+                type={type}
+                step={step}
+                value={fields[key]}
+                onChange={(e) => setFields({ ...fields, [key]: e.target.value })}
+                className={lowConfidenceClass(key)}
+                data-testid={`input-review-${key}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        {rejecting ? (
+          <div className="space-y-2" data-testid="review-reject-form">
+            <Label htmlFor="review-justification">Why is this receipt being rejected?</Label>
+            <Textarea
+              id="review-justification"
+              ref={justificationRef}
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="e.g. Receipt is for a rental car, not a household vehicle"
+              data-testid="input-review-justification"
+            />
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="ghost" onClick={() => setRejecting(false)} data-testid="button-review-cancel-reject">
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={reject}
+                disabled={isPending || !justificationValid}
+                data-testid="button-review-confirm-reject"
+              >
+                {rejectMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Reject
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">At least 10 characters. Rejected receipts are never included in a claim.</p>
+          </div>
+        ) : (
+          <div className="flex gap-2 flex-wrap">
+            <Button type="submit" disabled={isPending} data-testid="button-review-approve">
+              {approveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+              {corrected ? "Save & Approve" : "Approve"}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => firstFieldRef.current?.focus()} disabled={isPending} data-testid="button-review-correct">
+              <Pencil className="w-4 h-4 mr-2" />
+              Correct
+            </Button>
+            <Button type="button" variant="outline" onClick={startRejecting} disabled={isPending} data-testid="button-review-reject">
+              <X className="w-4 h-4 mr-2" />
+              Reject
+            </Button>
+            <div className="flex gap-1 ml-auto">
+              <Button type="button" size="icon" variant="ghost" onClick={onPrevious} title="Previous (K)" data-testid="button-review-previous">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button type="button" size="icon" variant="ghost" onClick={onNext} title="Skip (J)" data-testid="button-review-next">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground" data-testid="text-review-shortcuts">
+          <kbd>A</kbd> approve · <kbd>C</kbd> correct · <kbd>R</kbd> reject · <kbd>J</kbd>/<kbd>K</kbd> next/previous · <kbd>Ctrl</kbd>+<kbd>Enter</kbd> save · <kbd>Esc</kbd> cancel
+        </p>
+      </form>
+    </div>
+  );
+}
@@ -1,15 +1,29 @@
-import { useState, useEffect } from "react";
-import { Receipt } from "@shared/schema";
+import { useState, useEffect, type ReactNode } from "react";
+import { ELIGIBILITY_REASONS } from "@shared/eligibility";
+import { RECEIPT_WARNINGS } from "@shared/receiptWarnings";
+import { EVIDENCE_TYPES } from "@shared/receiptEvidence";
+import {
+  DEFAULT_RECEIPT_PAGE_SIZE,
+  DEFAULT_RECEIPT_SORT,
+  RECEIPT_PAGE_SIZES,
+  toReceiptQueryString,
+  type ReceiptFilters,
+  type ReceiptSortField,
+  type SortDirection,
+} from "@shared/receiptQuery";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
-import { Eye, Trash2, ArrowUpDown, AlertCircle, Loader2, XCircle } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { Eye, Trash2, ArrowUpDown, AlertCircle, Loader2, XCircle, Scale, RotateCw, FileText } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { useReceiptPage, type ReceiptListItem } from "@/hooks/use-receipts";
 import { ReceiptModal } from "@/components/receipt-modal";
+import { EligibilityOverrideDialog } from "@/components/eligibility-override-dialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,42 +35,67 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-type ReceiptWithTaxRefund = Receipt & { taxRefund?: number };
+type ReceiptWithTaxRefund = ReceiptListItem;
 
 interface ReceiptTableProps {
-  receipts: ReceiptWithTaxRefund[];
   accountId: string;
+  // Which receipts to list; sorting and paging are handled by the table
+  filters: ReceiptFilters;
+  // Shown instead of the table when no receipts match
+  emptyState?: ReactNode;
 }
 
-type SortField = "date" | "stationName" | "gallons" | "totalAmount";
-type SortDirection = "asc" | "desc";
-
 const ITEMS_PER_PAGE_KEY = "receipts_items_per_page";
-const DEFAULT_ITEMS_PER_PAGE = 25;
 
-export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
-  const [sortField, setSortField] = useState<SortField>("date");
-  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+export function ReceiptTable({ accountId, filters, emptyState }: ReceiptTableProps) {
+  const [sortField, setSortField] = useState<ReceiptSortField>(DEFAULT_RECEIPT_SORT.sort);
+  const [sortDirection, setSortDirection] = useState<SortDirection>(DEFAULT_RECEIPT_SORT.direction);
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [viewingReceipt, setViewingReceipt] = useState<ReceiptWithTaxRefund | null>(null);
+  const [overridingReceipt, setOverridingReceipt] = useState<ReceiptWithTaxRefund | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState<number>(() => {
-    if (typeof window === 'undefined') return DEFAULT_ITEMS_PER_PAGE;
-    const stored = localStorage.getItem(ITEMS_PER_PAGE_KEY);
-    return stored ? parseInt(stored, 10) : DEFAULT_ITEMS_PER_PAGE;
+    if (typeof window === 'undefined') return DEFAULT_RECEIPT_PAGE_SIZE;
+    const stored = parseInt(localStorage.getItem(ITEMS_PER_PAGE_KEY) ?? "", 10);
+    return (RECEIPT_PAGE_SIZES as readonly number[]).includes(stored) ? stored : DEFAULT_RECEIPT_PAGE_SIZE;
   });
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: roleData } = useQuery<{ role: string }>({
+    queryKey: ["/api/accounts", accountId, "my-role"],
+    enabled: !!accountId,
+  });
+  const canOverride = roleData?.role === "owner" || roleData?.role === "admin";
+
   useEffect(() => {
     if (typeof window !== 'undefined') {
       localStorage.setItem(ITEMS_PER_PAGE_KEY, itemsPerPage.toString());
     }
   }, [itemsPerPage]);
 
+  // Back to the first page whenever the filters change
+  const filterKey = toReceiptQueryString(filters);
   useEffect(() => {
     setCurrentPage(1);
-  }, [receipts.length, itemsPerPage]);
+  }, [filterKey]);
+
+  const { data: receiptPage, isLoading, isPlaceholderData } = useReceiptPage(accountId, {
+    ...filters,
+    sort: sortField,
+    direction: sortDirection,
+    page: currentPage,
+    pageSize: itemsPerPage,
+  });
+  const receipts = receiptPage?.receipts ?? [];
+  const totalReceipts = receiptPage?.total ?? 0;
+
+  // The last page can empty out after a delete; step back to one that has receipts
+  useEffect(() => {
+    if (receiptPage && !isPlaceholderData && receipts.length === 0 && currentPage > 1) {
+      setCurrentPage(Math.max(1, Math.ceil(receiptPage.total / itemsPerPage)));
+    }
+  }, [receiptPage, isPlaceholderData, receipts.length, currentPage, itemsPerPage]);
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -64,52 +103,86 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
         method: "DELETE",
       });
     },
-    onSuccess: () => {
+    onSuccess: (_, id) => {
       queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "trash"] });
       // Note: We do NOT invalidate subscription status here because the receipt counter
       // tracks lifetime uploads, not current receipts (prevents abuse of upload/delete/re-upload)
       toast({
-        title: "Receipt deleted",
-        description: "The receipt has been removed successfully",
+        title: "Receipt moved to trash",
+        description: "It can be restored from the trash until it is permanently deleted",
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => restoreMutation.mutate(id)} data-testid="button-undo-delete">
+            Undo
+          </ToastAction>
+        ),
       });
       setDeleteId(null);
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Delete failed",
-        description: "Failed to delete the receipt",
+        description: getApiErrorMessage(error, "Failed to delete the receipt"),
         variant: "destructive",
       });
     },
   });
 
-  const handleSort = (field: SortField) => {
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/accounts/${accountId}/trash/${id}/restore`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "trash"] });
+      toast({ title: "Receipt restored" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: getApiErrorMessage(error, "Failed to restore the receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reprocessMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${id}/reprocess`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+      toast({
+        title: "Retrying receipt",
+        description: "The receipt has been queued for transcription",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Retry failed",
+        description: getApiErrorMessage(error, "Failed to retry the receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSort = (field: ReceiptSortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
     } else {
       setSortField(field);
       setSortDirection("asc");
     }
+    setCurrentPage(1);
   };
 
-  const sortedReceipts = [...receipts].sort((a, b) => {
-    let aVal: string | number = a[sortField] || "";
-    let bVal: string | number = b[sortField] || "";
-
-    if (sortField === "gallons" || sortField === "totalAmount") {
-      aVal = parseFloat(aVal as string) || 0;
-      bVal = parseFloat(bVal as string) || 0;
-    }
-
-    if (aVal < bVal) return sortDirection === "asc" ? -1 : 1;
-    if (aVal > bVal) return sortDirection === "asc" ? 1 : -1;
-    return 0;
-  });
-
-  const totalPages = Math.ceil(sortedReceipts.length / itemsPerPage);
+  const totalPages = Math.ceil(totalReceipts / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedReceipts = sortedReceipts.slice(startIndex, endIndex);
+  const endIndex = startIndex + receipts.length;
 
   const handleItemsPerPageChange = (value: string) => {
     setItemsPerPage(parseInt(value, 10));
@@ -119,8 +192,15 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
   return (
     <>
       <div className="space-y-4">
-        
-        <div className="hidden md:block">
+        {isLoading && (
+          <div className="text-center py-12">
+            <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        )}
+
+        {!isLoading && totalReceipts === 0 && emptyState}
+
+        <div className={`hidden ${totalReceipts > 0 ? "md:block" : ""}`}>
           <div className="border rounded-md">
             <Table>
               <TableHeader className="bg-muted/50">
@@ -172,14 +252,13 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {paginatedReceipts.map((receipt) => (
+                {receipts.map((receipt) => (
                   <TableRow key={receipt.id} className="hover-elevate" data-testid={`row-receipt-${receipt.id}`}>
                     <TableCell>
-                      <img
-                        src={receipt.imageUrl}
-                        alt="Receipt thumbnail"
-                        className="w-14 h-14 object-cover rounded"
-                        data-testid={`img-receipt-${receipt.id}`}
+                      <ReceiptThumbnail
+                        receipt={receipt}
+                        className="w-14 h-14"
+                        testId={`img-receipt-${receipt.id}`}
                       />
                     </TableCell>
                     <TableCell className="font-medium" data-testid={`text-date-${receipt.id}`}>
@@ -193,6 +272,10 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
                     </TableCell>
                     <TableCell data-testid={`text-station-${receipt.id}`}>
                       {receipt.processingStatus === "completed" || receipt.processingStatus === undefined ? receipt.stationName : "-"}
+                      {receipt.processingStatus === "completed" && <EvidenceBadge receipt={receipt} />}
+                      {receipt.processingStatus === "completed" && <ReviewBadge receipt={receipt} />}
+                      {receipt.processingStatus === "completed" && <WarningBadges receipt={receipt} />}
+                      {receipt.processingStatus === "completed" && <EligibilityBadges receipt={receipt} />}
                     </TableCell>
                     <TableCell className="text-right font-mono" data-testid={`text-gallons-${receipt.id}`}>
                       {receipt.processingStatus === "completed" || receipt.processingStatus === undefined ? parseFloat(receipt.gallons || "0").toFixed(3) : "-"}
@@ -211,15 +294,27 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
                         {receipt.processingStatus === "pending" || receipt.processingStatus === "processing" ? (
                           <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
                         ) : receipt.processingStatus === "failed" ? (
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            onClick={() => setViewingReceipt(receipt)}
-                            data-testid={`button-view-${receipt.id}`}
-                            className="text-destructive hover:text-destructive"
-                          >
-                            <XCircle className="w-4 h-4" />
-                          </Button>
+                          <>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => reprocessMutation.mutate(receipt.id)}
+                              disabled={reprocessMutation.isPending}
+                              data-testid={`button-retry-${receipt.id}`}
+                              title="Retry transcription"
+                            >
+                              <RotateCw className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setViewingReceipt(receipt)}
+                              data-testid={`button-view-${receipt.id}`}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <XCircle className="w-4 h-4" />
+                            </Button>
+                          </>
                         ) : (
                           <Button
                             size="icon"
@@ -235,6 +330,17 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
                             )}
                           </Button>
                         )}
+                        {canOverride && receipt.processingStatus === "completed" && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setOverridingReceipt(receipt)}
+                            data-testid={`button-override-${receipt.id}`}
+                            title="Override eligibility"
+                          >
+                            <Scale className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           size="icon"
                           variant="ghost"
@@ -253,7 +359,7 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
         </div>
 
         <div className="md:hidden space-y-4">
-          {paginatedReceipts.map((receipt) => {
+          {receipts.map((receipt) => {
             const isProcessing = receipt.processingStatus === "pending" || receipt.processingStatus === "processing";
             const isFailed = receipt.processingStatus === "failed";
             const isComplete = receipt.processingStatus === "completed" || receipt.processingStatus === undefined;
@@ -265,11 +371,10 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
                 data-testid={`card-receipt-${receipt.id}`}
               >
                 <div className="flex gap-3">
-                  <img
-                    src={receipt.imageUrl}
-                    alt="Receipt"
-                    className="w-20 h-20 object-cover rounded"
-                    data-testid={`img-receipt-mobile-${receipt.id}`}
+                  <ReceiptThumbnail
+                    receipt={receipt}
+                    className="w-20 h-20"
+                    testId={`img-receipt-mobile-${receipt.id}`}
                   />
                   <div className="flex-1 space-y-1">
                     <div className="font-medium text-foreground" data-testid={`text-date-mobile-${receipt.id}`}>
@@ -295,6 +400,10 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
                         FY {receipt.fiscalYear}
                       </Badge>
                     )}
+                    {receipt.processingStatus === "completed" && <EvidenceBadge receipt={receipt} />}
+                    {receipt.processingStatus === "completed" && <ReviewBadge receipt={receipt} />}
+                    {receipt.processingStatus === "completed" && <WarningBadges receipt={receipt} />}
+                    {receipt.processingStatus === "completed" && <EligibilityBadges receipt={receipt} />}
                   </div>
                 </div>
                 
@@ -357,7 +466,29 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
                         ) : (
                           <AlertCircle className="w-4 h-4 mr-1" />
                         )}
-                        {isFailed ? "View" : receipt.validated ? "View" : "Validate"}
+                        {isFailed || receipt.validated || !canOverride ? "View" : "Validate"}
+                      </Button>
+                    )}
+                    {isFailed && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => reprocessMutation.mutate(receipt.id)}
+                        disabled={reprocessMutation.isPending}
+                        data-testid={`button-retry-mobile-${receipt.id}`}
+                      >
+                        <RotateCw className="w-4 h-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                    {canOverride && receipt.processingStatus === "completed" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setOverridingReceipt(receipt)}
+                        data-testid={`button-override-mobile-${receipt.id}`}
+                      >
+                        <Scale className="w-4 h-4" />
                       </Button>
                     )}
                     <Button
@@ -384,13 +515,13 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="25" data-testid="option-25">25</SelectItem>
-                  <SelectItem value="50" data-testid="option-50">50</SelectItem>
-                  <SelectItem value="100" data-testid="option-100">100</SelectItem>
+                  {RECEIPT_PAGE_SIZES.map(size => (
+                    <SelectItem key={size} value={size.toString()} data-testid={`option-${size}`}>{size}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <span className="text-sm text-muted-foreground">
-                {startIndex + 1}-{Math.min(endIndex, sortedReceipts.length)} of {sortedReceipts.length}
+                {startIndex + 1}-{endIndex} of {totalReceipts}
               </span>
             </div>
             
@@ -445,10 +576,21 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
 
       {viewingReceipt && (
         <ReceiptModal
+          key={viewingReceipt.id}
           receipt={viewingReceipt}
           accountId={accountId}
           open={!!viewingReceipt}
           onClose={() => setViewingReceipt(null)}
+          onViewReceipt={(original) => setViewingReceipt(receipts.find(r => r.id === original.id) ?? original as ReceiptWithTaxRefund)}
+        />
+      )}
+
+      {overridingReceipt && (
+        <EligibilityOverrideDialog
+          receipt={overridingReceipt}
+          accountId={accountId}
+          open={!!overridingReceipt}
+          onClose={() => setOverridingReceipt(null)}
         />
       )}
 
@@ -457,7 +599,7 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Receipt</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this receipt? This action cannot be undone.
+              The receipt will be moved to the trash. You can restore it from there until it is permanently deleted.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -475,6 +617,145 @@ export function ReceiptTable({ receipts, accountId }: ReceiptTableProps) {
   );
 }
 
+// Transcribed with low confidence and not yet checked by the user, or
+// re-transcribed with new values waiting to be accepted
+// Manual entries have no receipt image; they show an icon instead
+function ReceiptThumbnail({ receipt, className, testId }: { receipt: ReceiptWithTaxRefund; className: string; testId: string }) {
+  if (!receipt.imageUrl) {
+    return (
+      <div
+        className={`${className} rounded bg-muted flex items-center justify-center text-muted-foreground`}
+        title="Manual entry - no receipt image"
+        data-testid={testId}
+      >
+        <FileText className="w-6 h-6" />
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={receipt.imageUrl}
+      alt="Receipt thumbnail"
+      className={`${className} object-cover rounded`}
+      data-testid={testId}
+    />
+  );
+}
+
+function EvidenceBadge({ receipt }: { receipt: ReceiptWithTaxRefund }) {
+  if (receipt.evidenceType === "receipt") {
+    return null;
+  }
+
+  const evidence = EVIDENCE_TYPES[receipt.evidenceType];
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs mt-1"
+      title={`Manual entry - ${evidence.description}`}
+      data-testid={`badge-evidence-${receipt.id}`}
+    >
+      Manual: {evidence.label}
+    </Badge>
+  );
+}
+
+function ReviewBadge({ receipt }: { receipt: ReceiptWithTaxRefund }) {
+  if (receipt.pendingTranscription) {
+    return (
+      <Badge
+        variant="outline"
+        className="text-xs mt-1 border-primary text-primary"
+        title="Open the receipt to compare the new transcription with the current values"
+        data-testid={`badge-new-transcription-${receipt.id}`}
+      >
+        New values to review
+      </Badge>
+    );
+  }
+
+  if (!receipt.needsReview || receipt.validated) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs mt-1 border-amber-500 text-amber-700 dark:text-amber-400"
+      title="Some fields were read with low confidence - open the receipt to check them"
+      data-testid={`badge-needs-review-${receipt.id}`}
+    >
+      Needs review
+    </Badge>
+  );
+}
+
+function WarningBadges({ receipt }: { receipt: ReceiptWithTaxRefund }) {
+  if (receipt.validationWarnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1" data-testid={`validation-warnings-${receipt.id}`}>
+      {receipt.validationWarnings.map(warning => (
+        <Badge
+          key={warning.code}
+          variant="outline"
+          className="text-xs border-amber-500 text-amber-700 dark:text-amber-400"
+          title={warning.message}
+          data-testid={`badge-warning-${warning.code}-${receipt.id}`}
+        >
+          {RECEIPT_WARNINGS[warning.code].label}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function EligibilityBadges({ receipt }: { receipt: ReceiptWithTaxRefund }) {
+  const reasons = receipt.eligibilityReasons || [];
+  if (reasons.length === 0 && !receipt.eligibilityOverridden && receipt.validated) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1" data-testid={`eligibility-reasons-${receipt.id}`}>
+      {!receipt.validated && (
+        <Badge
+          variant="outline"
+          className="text-xs text-amber-700 dark:text-amber-400 border-amber-300 dark:border-amber-700"
+          title="Only validated receipts count toward the filed claim and Form 4923-H"
+          data-testid={`badge-unvalidated-${receipt.id}`}
+        >
+          Not validated
+        </Badge>
+      )}
+      {receipt.eligibilityOverridden && (
+        <Badge
+          variant="outline"
+          className="text-xs"
+          title={receipt.eligibilityOverrideReason || undefined}
+          data-testid={`badge-override-${receipt.id}`}
+        >
+          Overridden: {receipt.eligible ? "eligible" : "ineligible"}
+        </Badge>
+      )}
+      {reasons.map(reason => (
+        <Badge
+          key={reason}
+          variant={receipt.eligibilityOverridden && receipt.eligible ? "secondary" : "destructive"}
+          className="text-xs"
+          title={ELIGIBILITY_REASONS[reason].description}
+          data-testid={`badge-reason-${reason}-${receipt.id}`}
+        >
+          {ELIGIBILITY_REASONS[reason].label}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
 function formatDate(dateStr: string): string {
   const date = new Date(dateStr + "T00:00:00");
   return date.toLocaleDateString("en-US", {
@@ -0,0 +1,65 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RotateCw } from "lucide-react";
+
+interface RetryFailedBannerProps {
+  accountId: string;
+  failedCount: number;
+}
+
+// Offer to queue every receipt that could not be transcribed for another attempt
+export function RetryFailedBanner({ accountId, failedCount }: RetryFailedBannerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const retryAllFailedMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ queued: string[]; skipped: { receiptId: string; reason: string }[] }>(
+        `/api/accounts/${accountId}/receipts/reprocess`,
+        {
+          method: "POST",
+          body: JSON.stringify({ status: "failed" }),
+        }
+      );
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+      toast({
+        title: "Retrying failed receipts",
+        description: `${result.queued.length} receipt${result.queued.length !== 1 ? "s" : ""} queued for transcription` +
+          (result.skipped.length > 0 ? `, ${result.skipped.length} skipped (filed fiscal year)` : ""),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Retry failed",
+        description: getApiErrorMessage(error, "Failed to retry the failed receipts"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex items-center justify-between gap-2 p-3 border border-destructive/20 bg-destructive/10 rounded-md text-sm">
+      <span className="text-destructive">
+        {failedCount} receipts could not be transcribed
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => retryAllFailedMutation.mutate()}
+        disabled={retryAllFailedMutation.isPending}
+        data-testid="button-retry-all-failed"
+      >
+        {retryAllFailedMutation.isPending ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <RotateCw className="w-4 h-4 mr-2" />
+        )}
+        Retry all
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import type { Receipt, TranscriptionField, TranscriptionProposal } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Sparkles } from "lucide-react";
+
+const FIELD_LABELS: Record<TranscriptionField, string> = {
+  date: "Date",
+  stationName: "Seller Name",
+  sellerStreet: "Street Address",
+  sellerCity: "City",
+  sellerState: "State",
+  sellerZip: "ZIP",
+  gallons: "Gallons",
+  pricePerGallon: "Price per Gallon",
+  totalAmount: "Total Amount",
+  fuelType: "Fuel Type",
+};
+
+const NUMERIC_FIELDS: TranscriptionField[] = ["gallons", "pricePerGallon", "totalAmount"];
+
+function isSameValue(field: TranscriptionField, current: string | null, proposed: string | null): boolean {
+  if (NUMERIC_FIELDS.includes(field) && current !== null && proposed !== null) {
+    return parseFloat(current) === parseFloat(proposed);
+  }
+  return (current ?? "").trim() === (proposed ?? "").trim();
+}
+
+interface TranscriptionReviewProps {
+  receipt: Receipt;
+  proposal: TranscriptionProposal;
+  accountId: string;
+  onApplied: () => void;
+}
+
+/**
+ * Side-by-side view of a receipt's values and a new transcription of its
+ * image. The user picks which new values to keep; the rest are discarded.
+ */
+export function TranscriptionReview({ receipt, proposal, accountId, onApplied }: TranscriptionReviewProps) {
+  const changedFields = (Object.keys(FIELD_LABELS) as TranscriptionField[])
+    .filter(field => !isSameValue(field, receipt[field], proposal.values[field]));
+  const [selected, setSelected] = useState<TranscriptionField[]>(changedFields);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const onSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+    toast({ title });
+    onApplied();
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (fields: TranscriptionField[]) => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}/reprocess/accept`, {
+        method: "POST",
+        body: JSON.stringify({ fields }),
+      });
+    },
+    onSuccess: () => onSuccess("New values applied"),
+    onError: (error) => {
+      toast({
+        title: "Update failed",
+        description: getApiErrorMessage(error, "Failed to apply the new values"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/accounts/${accountId}/receipts/${receipt.id}/reprocess`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => onSuccess("New transcription discarded"),
+    onError: (error) => {
+      toast({
+        title: "Discard failed",
+        description: getApiErrorMessage(error, "Failed to discard the new transcription"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleField = (field: TranscriptionField, checked: boolean) => {
+    setSelected(current => checked ? [...current, field] : current.filter(f => f !== field));
+  };
+
+  const isPending = acceptMutation.isPending || discardMutation.isPending;
+
+  return (
+    <div className="p-3 border rounded-md space-y-3" data-testid="section-transcription-review">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Sparkles className="w-4 h-4 text-primary" />
+        New transcription ({proposal.provider})
+      </div>
+
+      {changedFields.length === 0 ? (
+        <p className="text-sm text-muted-foreground">The new transcription matches the current values.</p>
+      ) : (
+        <div className="space-y-2 text-sm">
+          <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-x-3 gap-y-1 items-center">
+            <span />
+            <span className="text-xs text-muted-foreground">Field</span>
+            <span className="text-xs text-muted-foreground">Current</span>
+            <span className="text-xs text-muted-foreground">New</span>
+            {changedFields.map(field => (
+              <div key={field} className="contents" data-testid={`row-transcription-diff-${field}`}>
+                <Checkbox
+                  checked={selected.includes(field)}
+                  onCheckedChange={(checked) => toggleField(field, checked === true)}
+                  disabled={isPending}
+                  data-testid={`checkbox-accept-${field}`}
+                />
+                <span className="font-medium">{FIELD_LABELS[field]}</span>
+                <span className="text-muted-foreground line-through break-words">{receipt[field] || "-"}</span>
+                <span className="break-words">{proposal.values[field] || "-"}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => discardMutation.mutate()}
+          disabled={isPending}
+          data-testid="button-discard-transcription"
+        >
+          {discardMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Discard
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => acceptMutation.mutate(selected)}
+          disabled={isPending || selected.length === 0}
+          data-testid="button-accept-transcription"
+        >
+          {acceptMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Apply {selected.length} {selected.length === 1 ? "change" : "changes"}
+        </Button>
+      </div>
+    </div>
+  );
+}
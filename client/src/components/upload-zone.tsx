@@ -12,6 +12,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Receipt } from "@shared/schema";
+import { getReceiptFileType, MAX_RECEIPT_FILE_BYTES, RECEIPT_FILE_ACCEPT } from "@shared/receiptFiles";
+import { isZipFile, MAX_BULK_UPLOAD_BYTES, MAX_BULK_UPLOAD_FILES } from "@shared/bulkUpload";
+import { BulkUploadDialog } from "./bulk-upload-dialog";
 
 type UploadZoneProps = {
   accountId: string;
@@ -24,6 +27,7 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedReceipt, setUploadedReceipt] = useState<Receipt | null>(null);
   const [showPostUploadDialog, setShowPostUploadDialog] = useState(false);
+  const [bulkFiles, setBulkFiles] = useState<File[] | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -43,7 +47,7 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
       
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || "Upload failed");
+        throw new Error(error.message || error.error || "Upload failed");
       }
       
       return response.json() as Promise<Receipt>;
@@ -70,16 +74,16 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
   });
 
   const handleFile = (file: File) => {
-    if (!file.type.startsWith("image/")) {
+    if (!getReceiptFileType(file.type, file.name)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload an image file",
+        description: "Please upload a photo (JPEG, PNG, HEIC) or a PDF receipt",
         variant: "destructive",
       });
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_RECEIPT_FILE_BYTES) {
       toast({
         title: "File too large",
         description: "Maximum file size is 10MB",
@@ -91,14 +95,31 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
     uploadMutation.mutate(file);
   };
 
+  // One receipt keeps the single upload flow; several files or a ZIP go up as a batch
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 && !isZipFile(files[0].type, files[0].name)) {
+      handleFile(files[0]);
+      return;
+    }
+
+    // The server turns away larger batches before reading them
+    if (files.length > MAX_BULK_UPLOAD_FILES || files.reduce((sum, file) => sum + file.size, 0) > MAX_BULK_UPLOAD_BYTES) {
+      toast({
+        title: "Too many files",
+        description: `Upload up to ${MAX_BULK_UPLOAD_FILES} files and ${MAX_BULK_UPLOAD_BYTES / 1024 / 1024}MB at once`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setBulkFiles(files);
+  };
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      handleFile(files[0]);
-    }
+    handleFiles(Array.from(e.dataTransfer.files));
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -111,10 +132,7 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files.length > 0) {
-      handleFile(files[0]);
-    }
+    handleFiles(Array.from(e.target.files ?? []));
     e.target.value = "";
   };
 
@@ -164,7 +182,7 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
                   Upload Receipt
                 </h3>
                 <p className="text-sm text-muted-foreground max-w-md">
-                  Drag and drop a receipt image, or click to browse
+                  Drag and drop receipt photos, PDF e-receipts or a ZIP of them, or click to browse
                 </p>
               </div>
               <div className="flex flex-col sm:flex-row gap-3 pt-2">
@@ -193,7 +211,8 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept={`${RECEIPT_FILE_ACCEPT},.zip,application/zip`}
+          multiple
           onChange={handleFileSelect}
           className="hidden"
           data-testid="input-file"
@@ -209,6 +228,15 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
         />
       </div>
 
+      {bulkFiles && (
+        <BulkUploadDialog
+          accountId={accountId}
+          vehicleId={vehicleId}
+          files={bulkFiles}
+          onClose={() => setBulkFiles(null)}
+        />
+      )}
+
       <AlertDialog open={showPostUploadDialog} onOpenChange={setShowPostUploadDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -217,6 +245,12 @@ export function UploadZone({ accountId, vehicleId, onViewReceipt }: UploadZonePr
               Your receipt has been saved and AI is processing the details in the background.
               What would you like to do next?
             </AlertDialogDescription>
+            {uploadedReceipt?.duplicateOfId && (
+              <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-md text-sm text-amber-700 dark:text-amber-400" data-testid="text-upload-duplicate">
+                <strong>Possible duplicate:</strong> this image looks like a receipt already uploaded to this account.
+                View the receipt to compare it with the original, then keep or delete it.
+              </div>
+            )}
           </AlertDialogHeader>
           <AlertDialogFooter className="flex-col sm:flex-row gap-2">
             <Button
@@ -0,0 +1,32 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  getFiscalYearCalendar,
+  getOpenFilingWindow,
+  getCurrentFiscalYear,
+  type FilingCalendarOverrides,
+  type FiscalYearCalendar,
+} from "@shared/filingCalendar";
+
+/**
+ * Filing calendar with any per-year filing windows configured on the fiscal
+ * year plans applied, whether or not the plan is still on sale.
+ */
+export function useFilingCalendar() {
+  const { data: plans = [] } = useQuery<FilingCalendarOverrides[]>({
+    queryKey: ["/api/filing-calendar"],
+  });
+
+  const getCalendar = useCallback(
+    (fiscalYear: string): FiscalYearCalendar =>
+      getFiscalYearCalendar(fiscalYear, plans.find(plan => plan.fiscalYear === fiscalYear)),
+    [plans]
+  );
+
+  return {
+    getCalendar,
+    // Fiscal year whose claim can be filed today, if any
+    openFilingWindow: getOpenFilingWindow(plans),
+    currentFiscalYear: getCurrentFiscalYear(),
+  };
+}
@@ -1,17 +1,8 @@
 import { useState, useEffect, useCallback } from "react";
+import { getCurrentFiscalYear } from "@shared/filingCalendar";
 
 const STORAGE_KEY_PREFIX = "fiscal-year-selection-";
 
-function getCurrentFiscalYear(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.getMonth() + 1;
-  if (month >= 7) {
-    return `${year}-${year + 1}`;
-  }
-  return `${year - 1}-${year}`;
-}
-
 export function useFiscalYearSelection(accountId: string) {
   const storageKey = `${STORAGE_KEY_PREFIX}${accountId}`;
   
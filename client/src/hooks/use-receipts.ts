@@ -0,0 +1,65 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { Receipt, User, Vehicle } from "@shared/schema";
+import type { EligibilityReason } from "@shared/eligibility";
+import {
+  toReceiptQueryString,
+  type ReceiptFilters,
+  type ReceiptPage,
+  type ReceiptQuery,
+  type ReceiptSummary,
+} from "@shared/receiptQuery";
+
+// A receipt as returned by the receipts list, with its refund fields
+export type ReceiptListItem = Receipt & {
+  uploadedByUser?: User;
+  vehicle?: Vehicle | null;
+  taxRefund?: number;
+  eligible?: boolean;
+  eligibilityReasons?: EligibilityReason[];
+  eligibilityOverridden?: boolean;
+};
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { credentials: "include" });
+  if (!response.ok) {
+    const text = (await response.text()) || response.statusText;
+    throw new Error(`${response.status}: ${text}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// Keys stay under ["/api/accounts", accountId, "receipts"] so invalidating
+// the account's receipts refreshes every page and summary
+
+export function useReceiptPage(accountId: string, query: ReceiptQuery, options: { enabled?: boolean } = {}) {
+  const queryString = toReceiptQueryString(query);
+  return useQuery<ReceiptPage<ReceiptListItem>>({
+    queryKey: ["/api/accounts", accountId, "receipts", "page", queryString],
+    queryFn: () => fetchJson(`/api/accounts/${accountId}/receipts?${queryString}`),
+    enabled: !!accountId && options.enabled !== false,
+    placeholderData: keepPreviousData,
+    // Poll while receipts on the page are still being transcribed
+    refetchInterval: (query) => {
+      const receipts = query.state.data?.receipts ?? [];
+      const hasProcessing = receipts.some(
+        r => r.processingStatus === "pending" || r.processingStatus === "processing"
+      );
+      return hasProcessing ? 2000 : false;
+    },
+  });
+}
+
+export function useReceiptSummary(accountId: string, filters: Omit<ReceiptFilters, "eligibility">, options: { enabled?: boolean } = {}) {
+  const queryString = toReceiptQueryString(filters);
+  return useQuery<ReceiptSummary>({
+    queryKey: ["/api/accounts", accountId, "receipts", "summary", queryString],
+    queryFn: () => fetchJson(`/api/accounts/${accountId}/receipts/summary?${queryString}`),
+    enabled: !!accountId && options.enabled !== false,
+    placeholderData: keepPreviousData,
+    // Totals change as pending receipts are transcribed
+    refetchInterval: (query) => {
+      const counts = query.state.data?.statusCounts;
+      return counts && counts.pending + counts.processing > 0 ? 5000 : false;
+    },
+  });
+}
@@ -26,6 +26,18 @@ export async function apiRequest<T = any>(
   return await res.json();
 }
 
+// apiRequest errors look like "409: {\"error\":\"...\",\"message\":\"...\"}" - surface the server's explanation
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  const text = error instanceof Error ? error.message : "";
+  const body = text.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.message || parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
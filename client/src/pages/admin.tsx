@@ -12,7 +12,7 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
 import { 
   ArrowLeft, 
   Plus, 
@@ -37,9 +37,12 @@ import {
   X,
   ExternalLink,
   Pencil,
-  Save
+  Save,
+  Fuel,
+  Trash2
 } from "lucide-react";
-import type { User, FiscalYearPlan } from "@shared/schema";
+import type { User, FiscalYearPlan, TaxRate } from "@shared/schema";
+import { getFiscalYearCalendar } from "@shared/filingCalendar";
 import { format } from "date-fns";
 
 type UserWithStats = User & {
@@ -134,6 +137,22 @@ export default function Admin() {
     baseReceiptLimit: number;
     packPriceInCents: number;
     packSize: number;
+    filingOpensOn: string;
+    filingDeadline: string;
+  } | null>(null);
+
+  const [newTaxRate, setNewTaxRate] = useState({
+    fuelType: "Motor Fuel",
+    startDate: "",
+    endDate: "",
+    baseRate: "0.170",
+    increase: "",
+  });
+  const [editingTaxRateId, setEditingTaxRateId] = useState<string | null>(null);
+  const [editingTaxRateData, setEditingTaxRateData] = useState<{
+    endDate: string;
+    baseRate: string;
+    increase: string;
   } | null>(null);
 
   const { data: user } = useQuery<User>({
@@ -144,6 +163,10 @@ export default function Admin() {
     queryKey: ["/api/admin/plans"],
   });
 
+  const { data: taxRates = [], isLoading: taxRatesLoading } = useQuery<TaxRate[]>({
+    queryKey: ["/api/admin/tax-rates"],
+  });
+
   const { data: users = [], isLoading: usersLoading } = useQuery<UserWithStats[]>({
     queryKey: ["/api/admin/users"],
   });
@@ -208,6 +231,7 @@ export default function Admin() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/filing-calendar"] });
       toast({ title: "Plan created", description: "Fiscal year plan created successfully" });
       setNewPlan({ fiscalYear: "", name: "", description: "", priceInCents: 1200, baseReceiptLimit: 156, packPriceInCents: 500, packSize: 52 });
     },
@@ -225,12 +249,63 @@ export default function Admin() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/filing-calendar"] });
       toast({ title: "Plan updated", description: "Plan settings saved successfully" });
       setEditingPlanId(null);
       setEditingPlanData(null);
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to update plan", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update plan"), variant: "destructive" });
+    },
+  });
+
+  const createTaxRateMutation = useMutation({
+    mutationFn: async (data: typeof newTaxRate) => {
+      return apiRequest("/api/admin/tax-rates", {
+        method: "POST",
+        body: JSON.stringify({ ...data, endDate: data.endDate || null }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rates"] });
+      toast({ title: "Tax rate created", description: "Tax rate period added to the schedule" });
+      setNewTaxRate({ fuelType: "Motor Fuel", startDate: "", endDate: "", baseRate: "0.170", increase: "" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to create tax rate"), variant: "destructive" });
+    },
+  });
+
+  const updateTaxRateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: NonNullable<typeof editingTaxRateData> }) => {
+      return apiRequest(`/api/admin/tax-rates/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ ...updates, endDate: updates.endDate || null }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rates"] });
+      toast({ title: "Tax rate updated", description: "Tax rate period saved successfully" });
+      setEditingTaxRateId(null);
+      setEditingTaxRateData(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update tax rate"), variant: "destructive" });
+    },
+  });
+
+  const deleteTaxRateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/admin/tax-rates/${id}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tax-rates"] });
+      toast({ title: "Deleted", description: "Tax rate period removed from the schedule" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to delete tax rate"), variant: "destructive" });
     },
   });
 
@@ -326,6 +401,21 @@ export default function Admin() {
     createPlanMutation.mutate(newPlan);
   };
 
+  const handleCreateTaxRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTaxRate.startDate || !newTaxRate.baseRate || !newTaxRate.increase) {
+      toast({ title: "Error", description: "Start date, base rate and increase are required", variant: "destructive" });
+      return;
+    }
+    createTaxRateMutation.mutate(newTaxRate);
+  };
+
+  const handleDeleteTaxRate = (rate: TaxRate) => {
+    if (confirm(`Are you sure you want to delete the ${rate.fuelType} rate starting ${rate.startDate}?`)) {
+      deleteTaxRateMutation.mutate(rate.id);
+    }
+  };
+
   const handleRefund = (paymentIntentId: string, accountName: string) => {
     if (confirm(`Are you sure you want to refund the payment for "${accountName}"? This action cannot be undone.`)) {
       refundMutation.mutate(paymentIntentId);
@@ -436,7 +526,7 @@ export default function Admin() {
             }
           }}
         >
-          <TabsList className="grid w-full max-w-2xl grid-cols-5">
+          <TabsList className="grid w-full max-w-3xl grid-cols-6">
             <TabsTrigger value="overview" className="gap-2" data-testid="tab-overview">
               <TrendingUp className="w-4 h-4" />
               Overview
@@ -453,6 +543,10 @@ export default function Admin() {
               <Calendar className="w-4 h-4" />
               Plans
             </TabsTrigger>
+            <TabsTrigger value="tax-rates" className="gap-2" data-testid="tab-tax-rates">
+              <Fuel className="w-4 h-4" />
+              Tax Rates
+            </TabsTrigger>
             <TabsTrigger value="users" className="gap-2" data-testid="tab-users">
               <Users className="w-4 h-4" />
               Users
@@ -1026,6 +1120,7 @@ export default function Admin() {
                         <TableHead>Receipt Limit</TableHead>
                         <TableHead>Pack Price</TableHead>
                         <TableHead>Pack Size</TableHead>
+                        <TableHead>Filing Window</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                       </TableRow>
@@ -1078,6 +1173,34 @@ export default function Admin() {
                               plan.packSize || 52
                             )}
                           </TableCell>
+                          <TableCell>
+                            {editingPlanId === plan.id ? (
+                              <div className="flex items-center gap-1">
+                                <Input
+                                  type="date"
+                                  value={editingPlanData?.filingOpensOn || ""}
+                                  onChange={(e) => setEditingPlanData({ ...editingPlanData!, filingOpensOn: e.target.value })}
+                                  className="w-36 h-8"
+                                  data-testid={`input-edit-filing-opens-${plan.id}`}
+                                />
+                                <span className="text-muted-foreground text-xs">to</span>
+                                <Input
+                                  type="date"
+                                  value={editingPlanData?.filingDeadline || ""}
+                                  onChange={(e) => setEditingPlanData({ ...editingPlanData!, filingDeadline: e.target.value })}
+                                  className="w-36 h-8"
+                                  data-testid={`input-edit-filing-deadline-${plan.id}`}
+                                />
+                              </div>
+                            ) : (
+                              <span data-testid={`text-filing-window-${plan.id}`}>
+                                {getFiscalYearCalendar(plan.fiscalYear, plan).filingOpensOn} to {getFiscalYearCalendar(plan.fiscalYear, plan).filingDeadline}
+                                {(plan.filingOpensOn || plan.filingDeadline) && (
+                                  <Badge variant="outline" className="ml-2">Custom</Badge>
+                                )}
+                              </span>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <Badge variant={plan.active ? "default" : "secondary"}>
                               {plan.active ? "Active" : "Inactive"}
@@ -1124,6 +1247,8 @@ export default function Admin() {
                                     baseReceiptLimit: plan.baseReceiptLimit || 156,
                                     packPriceInCents: plan.packPriceInCents || 500,
                                     packSize: plan.packSize || 52,
+                                    filingOpensOn: plan.filingOpensOn || "",
+                                    filingDeadline: plan.filingDeadline || "",
                                   });
                                 }}
                                 data-testid={`button-edit-plan-${plan.id}`}
@@ -1141,6 +1266,238 @@ export default function Admin() {
             </Card>
           </TabsContent>
 
+          {/* Tax Rates Tab */}
+          <TabsContent value="tax-rates" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Plus className="w-5 h-5" />
+                  Add Tax Rate Period
+                </CardTitle>
+                <CardDescription>
+                  Periods for a fuel type must not overlap or leave gaps. To start a new rate, set an end date on the current period first. Leave the end date blank for the current, open-ended rate. Use "Gasoline" or "Diesel" for fuel-specific rates; "Motor Fuel" rates apply when no fuel-specific rate exists.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleCreateTaxRate} className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="taxRateFuelType">Fuel Type</Label>
+                      <Input
+                        id="taxRateFuelType"
+                        placeholder="Motor Fuel"
+                        value={newTaxRate.fuelType}
+                        onChange={(e) => setNewTaxRate({ ...newTaxRate, fuelType: e.target.value })}
+                        data-testid="input-tax-rate-fuel-type"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="taxRateStartDate">Start Date</Label>
+                      <Input
+                        id="taxRateStartDate"
+                        type="date"
+                        value={newTaxRate.startDate}
+                        onChange={(e) => setNewTaxRate({ ...newTaxRate, startDate: e.target.value })}
+                        data-testid="input-tax-rate-start-date"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="taxRateEndDate">End Date</Label>
+                      <Input
+                        id="taxRateEndDate"
+                        type="date"
+                        value={newTaxRate.endDate}
+                        onChange={(e) => setNewTaxRate({ ...newTaxRate, endDate: e.target.value })}
+                        data-testid="input-tax-rate-end-date"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="taxRateBaseRate">Base Rate ($/gal)</Label>
+                      <Input
+                        id="taxRateBaseRate"
+                        type="number"
+                        step="0.001"
+                        value={newTaxRate.baseRate}
+                        onChange={(e) => setNewTaxRate({ ...newTaxRate, baseRate: e.target.value })}
+                        data-testid="input-tax-rate-base-rate"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="taxRateIncrease">Increase ($/gal)</Label>
+                      <Input
+                        id="taxRateIncrease"
+                        type="number"
+                        step="0.001"
+                        placeholder="0.125"
+                        value={newTaxRate.increase}
+                        onChange={(e) => setNewTaxRate({ ...newTaxRate, increase: e.target.value })}
+                        data-testid="input-tax-rate-increase"
+                      />
+                    </div>
+                    <div className="flex items-end">
+                      <Button
+                        type="submit"
+                        disabled={createTaxRateMutation.isPending}
+                        className="w-full"
+                        data-testid="button-create-tax-rate"
+                      >
+                        {createTaxRateMutation.isPending ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          "Add Period"
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tax Rate Schedule</CardTitle>
+                <CardDescription>
+                  Refunds are calculated from the increase in effect on each receipt's purchase date.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {taxRatesLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : taxRates.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No tax rates configured. Add a period above or run <code>npm run db:seed-tax-rates</code> to load the Missouri schedule.
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Fuel Type</TableHead>
+                        <TableHead>Start Date</TableHead>
+                        <TableHead>End Date</TableHead>
+                        <TableHead>Base Rate</TableHead>
+                        <TableHead>Increase</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {taxRates.map((rate) => (
+                        <TableRow key={rate.id} data-testid={`row-tax-rate-${rate.id}`}>
+                          <TableCell className="font-medium">{rate.fuelType}</TableCell>
+                          <TableCell>{rate.startDate}</TableCell>
+                          <TableCell>
+                            {editingTaxRateId === rate.id ? (
+                              <Input
+                                type="date"
+                                value={editingTaxRateData?.endDate || ""}
+                                onChange={(e) => setEditingTaxRateData({ ...editingTaxRateData!, endDate: e.target.value })}
+                                className="w-36 h-8"
+                                data-testid={`input-edit-tax-rate-end-date-${rate.id}`}
+                              />
+                            ) : rate.endDate ? (
+                              rate.endDate
+                            ) : (
+                              <Badge variant="secondary">Current</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {editingTaxRateId === rate.id ? (
+                              <Input
+                                type="number"
+                                step="0.001"
+                                value={editingTaxRateData?.baseRate || ""}
+                                onChange={(e) => setEditingTaxRateData({ ...editingTaxRateData!, baseRate: e.target.value })}
+                                className="w-24 h-8"
+                                data-testid={`input-edit-tax-rate-base-rate-${rate.id}`}
+                              />
+                            ) : (
+                              `$${parseFloat(rate.baseRate).toFixed(3)}`
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {editingTaxRateId === rate.id ? (
+                              <Input
+                                type="number"
+                                step="0.001"
+                                value={editingTaxRateData?.increase || ""}
+                                onChange={(e) => setEditingTaxRateData({ ...editingTaxRateData!, increase: e.target.value })}
+                                className="w-24 h-8"
+                                data-testid={`input-edit-tax-rate-increase-${rate.id}`}
+                              />
+                            ) : (
+                              `$${parseFloat(rate.increase).toFixed(3)}`
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {editingTaxRateId === rate.id ? (
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setEditingTaxRateId(null);
+                                    setEditingTaxRateData(null);
+                                  }}
+                                  data-testid={`button-cancel-edit-tax-rate-${rate.id}`}
+                                >
+                                  <X className="w-3 h-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => {
+                                    if (editingTaxRateData) {
+                                      updateTaxRateMutation.mutate({ id: rate.id, updates: editingTaxRateData });
+                                    }
+                                  }}
+                                  disabled={updateTaxRateMutation.isPending}
+                                  data-testid={`button-save-edit-tax-rate-${rate.id}`}
+                                >
+                                  {updateTaxRateMutation.isPending ? (
+                                    <Loader2 className="w-3 h-3 animate-spin" />
+                                  ) : (
+                                    <Save className="w-3 h-3" />
+                                  )}
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => {
+                                    setEditingTaxRateId(rate.id);
+                                    setEditingTaxRateData({
+                                      endDate: rate.endDate || "",
+                                      baseRate: rate.baseRate,
+                                      increase: rate.increase,
+                                    });
+                                  }}
+                                  data-testid={`button-edit-tax-rate-${rate.id}`}
+                                >
+                                  <Pencil className="w-3 h-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleDeleteTaxRate(rate)}
+                                  disabled={deleteTaxRateMutation.isPending}
+                                  data-testid={`button-delete-tax-rate-${rate.id}`}
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Users Tab - Three Column Drill-Down Layout */}
           <TabsContent value="users" className="space-y-4">
             {/* Breadcrumb Navigation */}
@@ -10,6 +10,8 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import { Footer } from "@/components/footer";
 import { Receipt, Users, Building2, ArrowRight, DollarSign, FileText, Calendar, Fuel } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
+import { useFilingCalendar } from "@/hooks/use-filing-calendar";
+import { formatCalendarDate, getPreviousFiscalYear } from "@shared/filingCalendar";
 
 export default function Auth() {
   const [, setLocation] = useLocation();
@@ -21,6 +23,8 @@ export default function Auth() {
   const [loading, setLoading] = useState(false);
   const [signupToken, setSignupToken] = useState("");
   const { toast } = useToast();
+  const { getCalendar, currentFiscalYear } = useFilingCalendar();
+  const exampleCalendar = getCalendar(getPreviousFiscalYear(currentFiscalYear));
 
   useEffect(() => {
     const checkSession = async () => {
@@ -269,12 +273,12 @@ export default function Auth() {
                 </CardHeader>
                 <CardContent className="text-sm text-muted-foreground space-y-3">
                   <p>
-                    The Missouri fiscal year runs from July 1 to June 30. Claims must be filed 
-                    between July 1 and September 30 following the end of the fiscal year.
+                    The Missouri fiscal year runs from July 1 to June 30. Claims are filed in a 
+                    window after the end of the fiscal year, normally July 1 through September 30.
                   </p>
                   <p>
-                    For example, for fuel purchased between July 1, 2024 and June 30, 2025, 
-                    you can file your refund claim starting July 1, 2025 through September 30, 2025.
+                    For example, for fuel purchased between {formatCalendarDate(exampleCalendar.startDate)} and {formatCalendarDate(exampleCalendar.endDate)}, 
+                    you can file your refund claim starting {formatCalendarDate(exampleCalendar.filingOpensOn)} through {formatCalendarDate(exampleCalendar.filingDeadline)}.
                   </p>
                 </CardContent>
               </Card>
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useParams, useLocation, Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -5,16 +6,37 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { Loader2, Download, FileText, Calendar, AlertTriangle } from "lucide-react";
-import type { Account, Receipt, FiscalYearPlan } from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Loader2, Download, FileText, Calendar, AlertTriangle, Columns3, Archive } from "lucide-react";
+import type { Account, FiscalYearPlan, ExportJob } from "@shared/schema";
 import { Helmet } from "react-helmet";
 import { useFiscalYearSelection } from "@/hooks/use-fiscal-year-selection";
 import { useToast } from "@/hooks/use-toast";
+import { useFilingCalendar } from "@/hooks/use-filing-calendar";
+import { useReceiptSummary } from "@/hooks/use-receipts";
+import { formatCalendarDate } from "@shared/filingCalendar";
+import {
+  EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMNS,
+  AUDIT_PACKET_BACKGROUND_THRESHOLD,
+  type ExportColumnKey,
+  type ExportFormat,
+} from "@shared/exports";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 
-interface ReceiptsResponse {
-  receipts: Receipt[];
-  refundTotals: Record<string, number>;
-}
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel",
+  json: "JSON",
+};
+import { ClaimStatusCard } from "@/components/claim-status-card";
 
 type SubscriptionStatus = {
   status: "trial" | "active" | "expired" | "cancelled";
@@ -30,19 +52,18 @@ export default function Export() {
   const { accountId } = useParams<{ accountId: string }>();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const [isDownloadingForm, setIsDownloadingForm] = useState(false);
+  const [isDownloadingPacket, setIsDownloadingPacket] = useState(false);
+  const [packetJobId, setPacketJobId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exportColumns, setExportColumns] = useState<ExportColumnKey[]>(DEFAULT_EXPORT_COLUMNS);
 
   const { data: account, isLoading: accountLoading, error: accountError } = useQuery<Account>({
     queryKey: ["/api/accounts", accountId],
     enabled: !!accountId,
   });
 
-  const { data: receiptsData, isLoading: receiptsLoading } = useQuery<ReceiptsResponse>({
-    queryKey: ["/api/accounts", accountId, "receipts"],
-    enabled: !!accountId,
-  });
-
-  const receipts = receiptsData?.receipts || [];
-
   const { data: roleData, isLoading: roleLoading } = useQuery<{ role: string }>({
     queryKey: ["/api/accounts", accountId, "my-role"],
     enabled: !!accountId,
@@ -54,6 +75,7 @@ export default function Export() {
 
   const { selectedFiscalYear: rawSelectedFiscalYear, setSelectedFiscalYear, currentFiscalYear } = useFiscalYearSelection(accountId || "");
   
+  const { getCalendar } = useFilingCalendar();
   const activePlans = plans.filter(p => p.active);
   
   // Export page requires a specific fiscal year, not "all"
@@ -72,12 +94,46 @@ export default function Export() {
     enabled: !!accountId && !!selectedFiscalYear,
   });
 
+  // Poll a background audit packet until it finishes
+  const { data: packetJob } = useQuery<ExportJob>({
+    queryKey: ["/api/accounts", accountId, "export-jobs", packetJobId],
+    enabled: !!accountId && !!packetJobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 3000;
+    },
+  });
+
   const isAdminOrOwner = roleData?.role === "owner" || roleData?.role === "admin";
 
   const canExport = subscriptionStatus?.status === "trial" || subscriptionStatus?.status === "active";
-  const yearReceipts = receipts.filter(r => r.fiscalYear === selectedFiscalYear);
+  const { data: yearSummary, isLoading: receiptsLoading } = useReceiptSummary(accountId || "", { fiscalYear: selectedFiscalYear });
+  const yearReceiptCount = yearSummary?.receiptCount ?? 0;
+  // Unvalidated receipts are left out of the claim and Form 4923-H
+  const { data: unvalidatedSummary } = useReceiptSummary(accountId || "", { fiscalYear: selectedFiscalYear, validated: false });
+  const unvalidatedCount = unvalidatedSummary?.receiptCount ?? 0;
+  const calendar = getCalendar(selectedFiscalYear);
+
+  // Fetch a generated file from the server and hand it to the browser as a download
+  const downloadFile = async (url: string, filename: string) => {
+    const response = await fetch(url, { credentials: "include" });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || error.error || "Download failed");
+    }
+
+    const blob = await response.blob();
+    const objectUrl = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = objectUrl;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(objectUrl);
+  };
 
-  const handleExport = () => {
+  const handleExport = async () => {
     if (!canExport) {
       toast({
         title: "Export not available",
@@ -87,7 +143,7 @@ export default function Export() {
       return;
     }
 
-    if (yearReceipts.length === 0) {
+    if (yearReceiptCount === 0) {
       toast({
         title: "No receipts to export",
         description: `No receipts found for fiscal year ${selectedFiscalYear}`,
@@ -96,21 +152,117 @@ export default function Export() {
       return;
     }
 
-    const csv = generateCSV(yearReceipts);
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `gas-receipts-fy-${selectedFiscalYear}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    // Keep the chosen columns in the canonical order
+    const columns = (Object.keys(EXPORT_COLUMNS) as ExportColumnKey[]).filter(key => exportColumns.includes(key));
+    const params = new URLSearchParams({ fy: selectedFiscalYear, format: exportFormat, columns: columns.join(",") });
+
+    setIsExporting(true);
+    try {
+      await downloadFile(`/api/accounts/${accountId}/exports?${params}`, `gas-receipts-fy-${selectedFiscalYear}.${exportFormat}`);
+      toast({
+        title: "Export successful",
+        description: `Downloaded ${yearReceiptCount} receipts for FY ${selectedFiscalYear}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export receipts",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const toggleExportColumn = (column: ExportColumnKey, checked: boolean) => {
+    setExportColumns(current => checked ? [...current, column] : current.filter(key => key !== column));
+  };
+
+  const handleDownloadAuditPacket = async () => {
+    if (!canExport) {
+      toast({
+        title: "Export not available",
+        description: "You need an active subscription or trial to export receipts for this fiscal year.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsDownloadingPacket(true);
+    try {
+      if (yearReceiptCount > AUDIT_PACKET_BACKGROUND_THRESHOLD) {
+        const job = await apiRequest<ExportJob>(`/api/accounts/${accountId}/fiscal-years/${selectedFiscalYear}/audit-packet`, {
+          method: "POST",
+        });
+        setPacketJobId(job.id);
+        toast({
+          title: "Preparing audit packet",
+          description: `FY ${selectedFiscalYear} has ${yearReceiptCount} receipts, so the packet is being built in the background`,
+        });
+      } else {
+        await downloadFile(
+          `/api/accounts/${accountId}/fiscal-years/${selectedFiscalYear}/audit-packet.zip`,
+          `audit-packet-fy-${selectedFiscalYear}.zip`
+        );
+        toast({
+          title: "Audit packet downloaded",
+          description: `Downloaded receipt images and index for FY ${selectedFiscalYear}`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Audit packet failed",
+        description: getApiErrorMessage(error, "Failed to generate the audit packet"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingPacket(false);
+    }
+  };
+
+  const handleDownloadPacketJob = async (job: ExportJob) => {
+    try {
+      await downloadFile(`/api/accounts/${accountId}/export-jobs/${job.id}/download`, job.fileName || "audit-packet.zip");
+      setPacketJobId(null);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Failed to download the audit packet",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadForm = async () => {
+    if (!canExport) {
+      toast({
+        title: "Export not available",
+        description: "You need an active subscription or trial to export receipts for this fiscal year.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsDownloadingForm(true);
+    try {
+      await downloadFile(
+        `/api/accounts/${accountId}/fiscal-years/${selectedFiscalYear}/form-4923h.pdf`,
+        `form-4923h-fy-${selectedFiscalYear}.pdf`
+      );
 
-    toast({
-      title: "Export successful",
-      description: `Downloaded ${yearReceipts.length} receipts for FY ${selectedFiscalYear}`,
-    });
+      toast({
+        title: "Form 4923-H generated",
+        description: `Downloaded Form 4923-H for FY ${selectedFiscalYear}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Failed to generate Form 4923-H",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingForm(false);
+    }
   };
 
   if (!accountId) {
@@ -160,6 +312,10 @@ export default function Export() {
             </Button>
           </CardContent>
         </Card>
+
+        {activePlans.length > 0 && (
+          <ClaimStatusCard accountId={accountId} fiscalYear={selectedFiscalYear} />
+        )}
       </main>
     );
   }
@@ -193,10 +349,12 @@ export default function Export() {
                 Submission Guidelines
               </p>
               <ul className="text-sm text-muted-foreground space-y-1">
-                <li>• Fiscal year runs from July 1 to June 30</li>
-                <li>• Submit between July 1 and September 30 of the following year</li>
+                <li>• FY {selectedFiscalYear} runs from {formatCalendarDate(calendar.startDate)} to {formatCalendarDate(calendar.endDate)}</li>
+                <li>• Submit between {formatCalendarDate(calendar.filingOpensOn)} and {formatCalendarDate(calendar.filingDeadline)}</li>
                 <li>• Keep original receipts for your records</li>
-                <li>• CSV format is compatible with Form 4923-H</li>
+                <li>• Exports include seller address, vehicle, VIN, tax rate, eligibility and refund per receipt, with totals</li>
+                <li>• The Form 4923-H PDF is pre-filled from your account settings and eligible Missouri receipts</li>
+                <li>• The audit packet ZIP bundles every receipt image with an index and summary for auditors</li>
               </ul>
             </div>
 
@@ -227,21 +385,119 @@ export default function Export() {
                     </Select>
                   </div>
 
+                  <div className="w-full sm:w-32 space-y-2">
+                    <Label htmlFor="export-format" className="text-sm font-medium text-foreground">
+                      Format
+                    </Label>
+                    <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                      <SelectTrigger id="export-format" className="w-full" data-testid="select-export-format">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+                          <SelectItem key={format} value={format} data-testid={`option-format-${format}`}>
+                            {FORMAT_LABELS[format]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="gap-2 w-full sm:w-auto" data-testid="button-export-columns">
+                        <Columns3 className="w-4 h-4" />
+                        Columns ({exportColumns.length})
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+                      <DropdownMenuLabel>Columns to export</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {(Object.keys(EXPORT_COLUMNS) as ExportColumnKey[]).map((column) => (
+                        <DropdownMenuCheckboxItem
+                          key={column}
+                          checked={exportColumns.includes(column)}
+                          onCheckedChange={(checked) => toggleExportColumn(column, checked)}
+                          onSelect={(e) => e.preventDefault()}
+                          data-testid={`checkbox-export-column-${column}`}
+                        >
+                          {EXPORT_COLUMNS[column].header}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+
                   <Button
                     onClick={handleExport}
-                    disabled={!canExport || yearReceipts.length === 0 || subscriptionLoading}
+                    disabled={!canExport || yearReceiptCount === 0 || subscriptionLoading || isExporting || exportColumns.length === 0}
                     className="gap-2 w-full sm:w-auto"
                     data-testid="button-export"
                   >
-                    {subscriptionLoading ? (
+                    {subscriptionLoading || isExporting ? (
                       <Loader2 className="w-4 h-4 animate-spin" />
                     ) : (
                       <Download className="w-4 h-4" />
                     )}
-                    Export to CSV
+                    Export
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    onClick={handleDownloadForm}
+                    disabled={!canExport || yearReceiptCount === 0 || subscriptionLoading || isDownloadingForm}
+                    className="gap-2 w-full sm:w-auto"
+                    data-testid="button-download-form-4923h"
+                  >
+                    {isDownloadingForm ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <FileText className="w-4 h-4" />
+                    )}
+                    Form 4923-H (PDF)
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    onClick={handleDownloadAuditPacket}
+                    disabled={!canExport || yearReceiptCount === 0 || subscriptionLoading || isDownloadingPacket || (!!packetJob && packetJob.status !== "completed" && packetJob.status !== "failed")}
+                    className="gap-2 w-full sm:w-auto"
+                    data-testid="button-download-audit-packet"
+                  >
+                    {isDownloadingPacket ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Archive className="w-4 h-4" />
+                    )}
+                    Audit Packet (ZIP)
                   </Button>
                 </div>
 
+                {packetJob && (
+                  <div className="flex items-center justify-between gap-3 p-3 bg-muted/50 rounded-md" data-testid="status-audit-packet-job">
+                    {packetJob.status === "completed" ? (
+                      <>
+                        <span className="text-sm text-foreground">
+                          Audit packet for FY {packetJob.fiscalYear} is ready
+                          {packetJob.error && <span className="text-muted-foreground"> ({packetJob.error})</span>}
+                        </span>
+                        <Button size="sm" onClick={() => handleDownloadPacketJob(packetJob)} data-testid="button-download-audit-packet-job">
+                          <Download className="w-4 h-4 mr-2" />
+                          Download
+                        </Button>
+                      </>
+                    ) : packetJob.status === "failed" ? (
+                      <span className="text-sm text-destructive">
+                        Audit packet failed: {packetJob.error || "Unknown error"}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Preparing audit packet for FY {packetJob.fiscalYear}...
+                      </span>
+                    )}
+                  </div>
+                )}
+
                 {subscriptionLoading ? (
                   <div className="flex items-center justify-center py-4">
                     <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
@@ -263,7 +519,7 @@ export default function Export() {
                       </Link>
                     </Button>
                   </div>
-                ) : yearReceipts.length > 0 ? (
+                ) : yearReceiptCount > 0 ? (
                   <div className="flex items-center justify-between p-3 bg-accent/50 rounded-md">
                     <div className="flex items-center gap-2">
                       <span className="text-sm text-muted-foreground">Ready to export</span>
@@ -272,7 +528,7 @@ export default function Export() {
                       </Badge>
                     </div>
                     <span className="text-sm font-semibold text-foreground" data-testid="text-export-count">
-                      {yearReceipts.length} receipt{yearReceipts.length !== 1 ? 's' : ''}
+                      {yearReceiptCount} receipt{yearReceiptCount !== 1 ? 's' : ''}
                     </span>
                   </div>
                 ) : (
@@ -287,6 +543,26 @@ export default function Export() {
                     </Button>
                   </div>
                 )}
+                {canExport && unvalidatedCount > 0 && (
+                  <div className="flex items-center gap-3 p-4 border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 rounded-md" data-testid="warning-unvalidated-receipts">
+                    <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                        {unvalidatedCount} receipt{unvalidatedCount !== 1 ? "s" : ""} not validated
+                      </p>
+                      <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
+                        Only validated receipts count toward the FY {selectedFiscalYear} claim. Review the rest before filing.
+                      </p>
+                    </div>
+                    {isAdminOrOwner && (
+                      <Button asChild variant="outline" size="sm" data-testid="button-go-to-review">
+                        <Link href={`/review/${accountId}`}>
+                          Review
+                        </Link>
+                      </Button>
+                    )}
+                  </div>
+                )}
               </>
             )}
           </CardContent>
@@ -295,20 +571,3 @@ export default function Export() {
     </>
   );
 }
-
-function generateCSV(receipts: Receipt[]): string {
-  const headers = ["Date", "Station Name", "Gallons", "Price per Gallon", "Total Amount", "Fiscal Year"];
-  const rows = receipts.map(r => [
-    r.date,
-    `"${(r.stationName || "").replace(/"/g, '""')}"`,
-    parseFloat(r.gallons || "0").toFixed(3),
-    parseFloat(r.pricePerGallon || "0").toFixed(3),
-    parseFloat(r.totalAmount || "0").toFixed(2),
-    r.fiscalYear,
-  ]);
-
-  return [
-    headers.join(","),
-    ...rows.map(row => row.join(","))
-  ].join("\n");
-}
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Receipt } from "@shared/schema";
+import { getCurrentFiscalYear } from "@shared/filingCalendar";
 import { UploadZone } from "@/components/upload-zone";
 import { FiscalYearSummary } from "@/components/fiscal-year-summary";
 import { ReceiptTable } from "@/components/receipt-table";
@@ -49,7 +50,14 @@ export default function Home() {
       <main className="max-w-7xl mx-auto px-4 md:px-8 py-6 md:py-8 space-y-8">
         <UploadZone />
 
-        <FiscalYearSummary receipts={fiscalYearReceipts} fiscalYear={currentFiscalYear} />
+        <FiscalYearSummary
+          totals={{
+            receiptCount: fiscalYearReceipts.length,
+            gallons: fiscalYearReceipts.reduce((sum, r) => sum + parseFloat(r.gallons || "0"), 0),
+            totalAmount: fiscalYearReceipts.reduce((sum, r) => sum + parseFloat(r.totalAmount || "0"), 0),
+          }}
+          fiscalYear={currentFiscalYear}
+        />
 
         {isLoading ? (
           <div className="space-y-4">
@@ -98,15 +106,3 @@ function EmptyState() {
     </div>
   );
 }
-
-function getCurrentFiscalYear(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.getMonth() + 1;
-  
-  if (month >= 7) {
-    return `${year}-${year + 1}`;
-  } else {
-    return `${year - 1}-${year}`;
-  }
-}
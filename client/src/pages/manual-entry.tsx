@@ -0,0 +1,244 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useParams, useLocation, Link } from "wouter";
+import { useState } from "react";
+import type { Receipt, Vehicle } from "@shared/schema";
+import { EVIDENCE_TYPES, MANUAL_EVIDENCE_TYPES, type ManualEvidenceType } from "@shared/receiptEvidence";
+import { RECEIPT_FILE_ACCEPT } from "@shared/receiptFiles";
+import { toDateString } from "@shared/filingCalendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Helmet } from "react-helmet";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ManualEntryFields = Record<
+  "date" | "stationName" | "sellerStreet" | "sellerCity" | "sellerState" | "sellerZip" | "gallons" | "pricePerGallon" | "totalAmount",
+  string
+>;
+
+const EMPTY_FIELDS: ManualEntryFields = {
+  date: "",
+  stationName: "",
+  sellerStreet: "",
+  sellerCity: "",
+  sellerState: "",
+  sellerZip: "",
+  gallons: "",
+  pricePerGallon: "",
+  totalAmount: "",
+};
+
+/**
+ * Record a purchase whose receipt was lost, from a card statement or the
+ * purchaser's own records. The entry is marked with its evidence type and
+ * still has to be validated before it counts toward a claim.
+ */
+export default function ManualEntry() {
+  const params = useParams<{ accountId: string }>();
+  const { accountId } = params;
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fields, setFields] = useState<ManualEntryFields>({ ...EMPTY_FIELDS, date: toDateString() });
+  const [vehicleId, setVehicleId] = useState(() => localStorage.getItem(`lastVehicle_${accountId}`) || "");
+  const [evidenceType, setEvidenceType] = useState<ManualEvidenceType>("statement");
+  const [supportingDocument, setSupportingDocument] = useState<File | null>(null);
+
+  const { data: vehicles = [], isLoading } = useQuery<Vehicle[]>({
+    queryKey: ["/api/accounts", accountId, "vehicles"],
+    enabled: !!accountId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+      formData.append("vehicleId", vehicleId);
+      formData.append("evidenceType", evidenceType);
+      if (supportingDocument) {
+        formData.append("document", supportingDocument);
+      }
+      return apiRequest<Receipt>(`/api/accounts/${accountId}/receipts/manual`, {
+        method: "POST",
+        body: formData,
+      });
+    },
+    onSuccess: (receipt) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+      toast({
+        title: "Purchase recorded",
+        description: receipt.duplicateOfId
+          ? "It looks like a purchase already in the account - check it before claiming."
+          : "Validate it from the receipts list or review queue to include it in a claim.",
+      });
+      setLocation(`/receipts/${accountId}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not record purchase",
+        description: getApiErrorMessage(error, "Failed to create receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setField = (key: keyof ManualEntryFields) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFields({ ...fields, [key]: e.target.value });
+
+  const canSubmit = !!fields.date && !!fields.stationName.trim() && parseFloat(fields.gallons) > 0 && !!vehicleId;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>Enter Purchase Manually - Gas Receipt Tax Refund</title>
+        <meta name="description" content="Record a fuel purchase whose receipt was lost." />
+      </Helmet>
+      <main className="flex-1 px-4 py-6 pb-16 sm:px-6 lg:px-8 max-w-3xl mx-auto w-full space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <h2 className="text-2xl font-semibold">Enter Purchase Manually</h2>
+          <Button asChild variant="outline" data-testid="button-back-to-upload">
+            <Link href={`/upload/${accountId}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Upload
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Lost Receipt</CardTitle>
+            <CardDescription>
+              For purchases with no receipt. Enter the details from your card statement or records and
+              attach a supporting document if you have one. Form 4923-H marks these purchases by their evidence.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (canSubmit) createMutation.mutate();
+              }}
+            >
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="manual-vehicle">Vehicle</Label>
+                  <Select value={vehicleId} onValueChange={setVehicleId}>
+                    <SelectTrigger id="manual-vehicle" data-testid="select-manual-vehicle">
+                      <SelectValue placeholder="Choose a vehicle" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vehicles.map(vehicle => (
+                        <SelectItem key={vehicle.id} value={vehicle.id}>
+                          {vehicle.nickname || `${vehicle.year} ${vehicle.make} ${vehicle.model}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manual-date">Purchase Date</Label>
+                  <Input id="manual-date" type="date" value={fields.date} onChange={setField("date")} data-testid="input-manual-date" />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="manual-station">Station Name</Label>
+                <Input id="manual-station" value={fields.stationName} onChange={setField("stationName")} data-testid="input-manual-station" />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="manual-street">Station Address</Label>
+                <Input id="manual-street" value={fields.sellerStreet} onChange={setField("sellerStreet")} data-testid="input-manual-street" />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="manual-city">City</Label>
+                  <Input id="manual-city" value={fields.sellerCity} onChange={setField("sellerCity")} data-testid="input-manual-city" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manual-state">State</Label>
+                  <Input
+                    id="manual-state"
+                    value={fields.sellerState}
+                    onChange={(e) => setFields({ ...fields, sellerState: e.target.value.toUpperCase().slice(0, 2) })}
+                    data-testid="input-manual-state"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manual-zip">ZIP</Label>
+                  <Input id="manual-zip" value={fields.sellerZip} onChange={setField("sellerZip")} data-testid="input-manual-zip" />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="manual-gallons">Gallons</Label>
+                  <Input id="manual-gallons" type="number" step="0.001" min="0" value={fields.gallons} onChange={setField("gallons")} data-testid="input-manual-gallons" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manual-price">Price per Gallon</Label>
+                  <Input id="manual-price" type="number" step="0.001" min="0" value={fields.pricePerGallon} onChange={setField("pricePerGallon")} data-testid="input-manual-price" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manual-total">Total Amount</Label>
+                  <Input id="manual-total" type="number" step="0.01" min="0" value={fields.totalAmount} onChange={setField("totalAmount")} data-testid="input-manual-total" />
+                </div>
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="manual-evidence">Evidence</Label>
+                  <Select value={evidenceType} onValueChange={(value) => setEvidenceType(value as ManualEvidenceType)}>
+                    <SelectTrigger id="manual-evidence" data-testid="select-manual-evidence">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MANUAL_EVIDENCE_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>
+                          {EVIDENCE_TYPES[type].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{EVIDENCE_TYPES[evidenceType].description}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="manual-document">Supporting Document (optional)</Label>
+                  <Input
+                    id="manual-document"
+                    type="file"
+                    accept={RECEIPT_FILE_ACCEPT}
+                    onChange={(e) => setSupportingDocument(e.target.files?.[0] ?? null)}
+                    data-testid="input-manual-document"
+                  />
+                  <p className="text-xs text-muted-foreground">A statement page or signed affidavit, as a photo or PDF.</p>
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={!canSubmit || createMutation.isPending} data-testid="button-manual-submit">
+                  {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Record Purchase
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </>
+  );
+}
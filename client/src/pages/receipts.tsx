@@ -1,7 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
 import { useParams, useLocation, Link } from "wouter";
-import { useMemo } from "react";
+import { useCallback, useState } from "react";
 import { ReceiptTable } from "@/components/receipt-table";
+import { ReceiptFilterBar, type ReceiptFilterValues } from "@/components/receipt-filters";
+import { RetryFailedBanner } from "@/components/retry-failed-banner";
 import { FiscalYearSummary } from "@/components/fiscal-year-summary";
 import { DeadlineBanner } from "@/components/deadline-banner";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,15 +12,11 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Helmet } from "react-helmet";
 import { useFiscalYearSelection } from "@/hooks/use-fiscal-year-selection";
+import { useReceiptSummary } from "@/hooks/use-receipts";
+import { Trash2 } from "lucide-react";
 
-type Receipt = any;
 type Account = any;
 
-interface ReceiptsResponse {
-  receipts: Receipt[];
-  refundTotals: Record<string, number>;
-}
-
 export default function Receipts() {
   const params = useParams();
   const accountId = params.accountId || "";
@@ -29,55 +27,46 @@ export default function Receipts() {
     enabled: !!accountId,
   });
 
-  const { data: receiptsData, isLoading: receiptsLoading } = useQuery<ReceiptsResponse>({
-    queryKey: ["/api/accounts", accountId, "receipts"],
+  const { data: roleData } = useQuery<{ role: string }>({
+    queryKey: ["/api/accounts", accountId, "my-role"],
     enabled: !!accountId,
-    refetchInterval: (query) => {
-      const data = query.state.data as ReceiptsResponse | undefined;
-      if (!data?.receipts) return false;
-      const hasProcessing = data.receipts.some(
-        (r: Receipt) => r.processingStatus === "pending" || r.processingStatus === "processing"
-      );
-      return hasProcessing ? 2000 : false;
-    },
   });
+  const isAdminOrOwner = roleData?.role === "owner" || roleData?.role === "admin";
 
-  const receipts = receiptsData?.receipts || [];
-  const refundTotals = receiptsData?.refundTotals || {};
+  const [filters, setFilters] = useState<ReceiptFilterValues>({});
+  const handleFiltersChange = useCallback((next: ReceiptFilterValues) => setFilters(next), []);
 
-  // Get all unique fiscal years from receipts (memoized)
-  const allFiscalYears = useMemo(() => {
-    return Array.from(new Set(receipts.map((r: Receipt) => r.fiscalYear))).sort().reverse();
-  }, [receipts]);
-  
   // Use shared fiscal year selection hook - remembers selection per account
   const { selectedFiscalYear, setSelectedFiscalYear, currentFiscalYear } = useFiscalYearSelection(accountId);
-  
+
   // Determine effective filter - "all" shows everything, otherwise filter by year
   const effectiveFiscalYear = selectedFiscalYear === "all" ? null : selectedFiscalYear;
+  const listFilters = { ...filters, fiscalYear: effectiveFiscalYear ?? undefined };
+  const { eligibility, ...summaryFilters } = listFilters;
 
-  // Filter receipts by selected fiscal year (null = show all)
-  const filteredReceipts = effectiveFiscalYear 
-    ? receipts.filter((r: Receipt) => r.fiscalYear === effectiveFiscalYear)
-    : receipts;
+  // Which sections have receipts under the current filters (eligibility is applied per table)
+  const { data: summary, isLoading: summaryLoading } = useReceiptSummary(accountId, summaryFilters);
 
-  // Separate eligible (Missouri) and ineligible (other states) receipts
-  const eligibleReceipts = filteredReceipts.filter((r: Receipt) => 
-    r.sellerState?.toUpperCase() === "MO"
-  );
-  const ineligibleReceipts = filteredReceipts.filter((r: Receipt) => 
-    r.sellerState && r.sellerState.toUpperCase() !== "MO"
-  );
-  const unclassifiedReceipts = filteredReceipts.filter((r: Receipt) => 
-    !r.sellerState
+  // Refund and totals cards cover the fiscal year's Missouri purchases, whatever the filters
+  const { data: missouriSummary } = useReceiptSummary(
+    accountId,
+    { fiscalYear: effectiveFiscalYear ?? undefined, sellerState: "missouri" },
+    { enabled: !!effectiveFiscalYear }
   );
 
+  const allFiscalYears = summary?.fiscalYears ?? [];
+  const stateCounts = summary?.sellerStateCounts;
+  const failedCount = summary?.statusCounts.failed ?? 0;
+  const refundAmount = effectiveFiscalYear ? missouriSummary?.refundTotals[effectiveFiscalYear] : undefined;
+  // Missouri receipts that also pass the other eligibility rules (vehicle, claim period, ...)
+  const refundableCount = missouriSummary?.refunds.eligibleCount ?? 0;
+
   if (!accountId) {
     setLocation("/accounts");
     return null;
   }
 
-  if (accountLoading || receiptsLoading) {
+  if (accountLoading || summaryLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -123,6 +112,12 @@ export default function Receipts() {
         <div className="flex items-center justify-between gap-4 flex-wrap">
           <h2 className="text-2xl font-semibold">Receipts</h2>
           <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm" data-testid="button-trash">
+              <Link href={`/trash/${accountId}`}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Trash
+              </Link>
+            </Button>
             <Label htmlFor="fiscal-year-select" className="text-sm text-muted-foreground">
               Fiscal Year:
             </Label>
@@ -135,8 +130,8 @@ export default function Receipts() {
                   FY {currentFiscalYear} (Current)
                 </SelectItem>
                 {allFiscalYears
-                  .filter((year: string) => year !== currentFiscalYear)
-                  .map((year: string) => (
+                  .filter(year => year !== currentFiscalYear)
+                  .map(year => (
                     <SelectItem key={year} value={year}>
                       FY {year}
                     </SelectItem>
@@ -148,7 +143,7 @@ export default function Receipts() {
         </div>
 
         {/* Tax Refund Summary - Only for eligible MO receipts when viewing a specific year */}
-        {effectiveFiscalYear && refundTotals[effectiveFiscalYear] !== undefined && eligibleReceipts.length > 0 && (
+        {effectiveFiscalYear && refundAmount !== undefined && missouriSummary && missouriSummary.receiptCount > 0 && (
           <Card data-testid="card-tax-refund-summary">
             <CardHeader>
               <CardTitle>Tax Refund Summary</CardTitle>
@@ -156,18 +151,29 @@ export default function Receipts() {
             </CardHeader>
             <CardContent>
               <div className="text-4xl font-bold text-primary" data-testid="text-refund-amount">
-                ${parseFloat(refundTotals[effectiveFiscalYear].toString()).toFixed(2)}
+                ${refundAmount.toFixed(2)}
               </div>
               <p className="text-sm text-muted-foreground mt-2">
-                Based on {eligibleReceipts.length} eligible receipt{eligibleReceipts.length !== 1 ? 's' : ''}
+                Based on {refundableCount} eligible receipt{refundableCount !== 1 ? 's' : ''}
               </p>
             </CardContent>
           </Card>
         )}
 
         {/* Summary Cards - Only for eligible receipts when viewing a specific year */}
-        {effectiveFiscalYear && (
-          <FiscalYearSummary receipts={eligibleReceipts} fiscalYear={effectiveFiscalYear} />
+        {effectiveFiscalYear && missouriSummary && (
+          <FiscalYearSummary totals={missouriSummary} fiscalYear={effectiveFiscalYear} />
+        )}
+
+        <ReceiptFilterBar
+          accountId={accountId}
+          filters={filters}
+          onChange={handleFiltersChange}
+          canFilterByUploader={isAdminOrOwner}
+        />
+
+        {isAdminOrOwner && failedCount > 1 && (
+          <RetryFailedBanner accountId={accountId} failedCount={failedCount} />
         )}
 
         {/* Eligible Receipts (Missouri) */}
@@ -176,30 +182,28 @@ export default function Receipts() {
             <h3 className="text-xl font-semibold">Eligible Receipts</h3>
             <span className="text-sm text-muted-foreground">(Missouri purchases)</span>
           </div>
-          {receiptsLoading ? (
-            <div className="text-center py-12">
-              <div className="inline-block w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
-            </div>
-          ) : eligibleReceipts.length === 0 ? (
-            <Card>
-              <CardContent className="py-8 text-center">
-                <p className="text-muted-foreground">
-                  No eligible Missouri receipts found{effectiveFiscalYear ? ` for fiscal year ${effectiveFiscalYear}` : ""}.
-                </p>
-                <Button asChild className="mt-4" data-testid="button-upload-receipt">
-                  <Link href={`/upload/${accountId}`}>
-                    Upload Receipt
-                  </Link>
-                </Button>
-              </CardContent>
-            </Card>
-          ) : (
-            <ReceiptTable receipts={eligibleReceipts} accountId={accountId} />
-          )}
+          <ReceiptTable
+            accountId={accountId}
+            filters={{ ...listFilters, sellerState: "missouri" }}
+            emptyState={
+              <Card>
+                <CardContent className="py-8 text-center">
+                  <p className="text-muted-foreground">
+                    No eligible Missouri receipts found{effectiveFiscalYear ? ` for fiscal year ${effectiveFiscalYear}` : ""}.
+                  </p>
+                  <Button asChild className="mt-4" data-testid="button-upload-receipt">
+                    <Link href={`/upload/${accountId}`}>
+                      Upload Receipt
+                    </Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            }
+          />
         </div>
 
         {/* Unclassified Receipts (missing state) */}
-        {unclassifiedReceipts.length > 0 && (
+        {!!stateCounts?.unknown && (
           <div className="space-y-4">
             <div className="flex items-center gap-2">
               <h3 className="text-xl font-semibold text-amber-600 dark:text-amber-400">Needs Review</h3>
@@ -210,14 +214,18 @@ export default function Receipts() {
                 <p className="text-sm text-muted-foreground mb-4">
                   These receipts need the seller state to be added to determine refund eligibility.
                 </p>
-                <ReceiptTable receipts={unclassifiedReceipts} accountId={accountId} />
+                <ReceiptTable
+                  accountId={accountId}
+                  filters={{ ...listFilters, sellerState: "unknown" }}
+                  emptyState={<p className="text-sm text-muted-foreground">No receipts match these filters.</p>}
+                />
               </CardContent>
             </Card>
           </div>
         )}
 
         {/* Ineligible Receipts (other states) */}
-        {ineligibleReceipts.length > 0 && (
+        {!!stateCounts?.other && (
           <div className="space-y-4">
             <div className="flex items-center gap-2">
               <h3 className="text-xl font-semibold text-muted-foreground">Ineligible Receipts</h3>
@@ -228,7 +236,11 @@ export default function Receipts() {
                 <p className="text-sm text-muted-foreground mb-4">
                   Only fuel purchased in Missouri qualifies for Form 4923-H tax refunds.
                 </p>
-                <ReceiptTable receipts={ineligibleReceipts} accountId={accountId} />
+                <ReceiptTable
+                  accountId={accountId}
+                  filters={{ ...listFilters, sellerState: "other" }}
+                  emptyState={<p className="text-sm text-muted-foreground">No receipts match these filters.</p>}
+                />
               </CardContent>
             </Card>
           </div>
@@ -0,0 +1,120 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation, Link } from "wouter";
+import { useEffect, useState } from "react";
+import { ReceiptReviewPanel } from "@/components/receipt-review-panel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, CheckCircle } from "lucide-react";
+import { Helmet } from "react-helmet";
+import { useReceiptPage } from "@/hooks/use-receipts";
+
+// Large enough that the queue rarely needs a second page; the rest load as it empties
+const QUEUE_PAGE_SIZE = 100;
+
+export default function Review() {
+  const params = useParams<{ accountId: string }>();
+  const { accountId } = params;
+  const [, setLocation] = useLocation();
+
+  const { data: roleData, isLoading: roleLoading } = useQuery<{ role: string }>({
+    queryKey: ["/api/accounts", accountId, "my-role"],
+    enabled: !!accountId,
+  });
+
+  const isAdminOrOwner = roleData?.role === "owner" || roleData?.role === "admin";
+
+  useEffect(() => {
+    if (!roleLoading && roleData && !isAdminOrOwner) {
+      setLocation(`/receipts/${accountId}`);
+    }
+  }, [roleLoading, roleData, isAdminOrOwner, accountId, setLocation]);
+
+  // Transcribed receipts nobody has checked yet, oldest purchase first
+  const { data: queue, isLoading: queueLoading } = useReceiptPage(accountId, {
+    processingStatus: "completed",
+    validated: false,
+    sort: "date",
+    direction: "asc",
+    page: 1,
+    pageSize: QUEUE_PAGE_SIZE,
+  }, { enabled: isAdminOrOwner });
+
+  const [index, setIndex] = useState(0);
+  // Hidden straight away rather than when the queue refetches
+  const [reviewedIds, setReviewedIds] = useState<Set<string>>(new Set());
+
+  const receipts = (queue?.receipts ?? []).filter(receipt => !reviewedIds.has(receipt.id));
+  const remaining = (queue?.total ?? 0) - ((queue?.receipts.length ?? 0) - receipts.length);
+  const currentIndex = Math.min(index, Math.max(receipts.length - 1, 0));
+  const current = receipts[currentIndex];
+
+  const handleReviewed = (receiptId: string) => {
+    setReviewedIds(ids => new Set(ids).add(receiptId));
+  };
+
+  if (roleLoading || (isAdminOrOwner && queueLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdminOrOwner) {
+    return null;
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>Review Receipts - Gas Receipt Tax Refund</title>
+        <meta name="description" content="Check transcribed receipts against their images before they are claimed." />
+      </Helmet>
+      <main className="flex-1 px-4 py-6 pb-16 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h2 className="text-2xl font-semibold">Review Queue</h2>
+            <p className="text-sm text-muted-foreground">
+              Only validated receipts are included in a Form 4923-H claim.
+            </p>
+          </div>
+          {current && (
+            <Badge variant="secondary" data-testid="text-review-remaining">
+              {currentIndex + 1} of {remaining} to review
+            </Badge>
+          )}
+        </div>
+
+        {current ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{current.stationName}</CardTitle>
+              <CardDescription>{current.date} &middot; FY {current.fiscalYear}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReceiptReviewPanel
+                key={current.id}
+                receipt={current}
+                accountId={accountId}
+                onReviewed={handleReviewed}
+                onNext={() => setIndex(Math.min(currentIndex + 1, receipts.length - 1))}
+                onPrevious={() => setIndex(Math.max(currentIndex - 1, 0))}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <Card data-testid="card-review-empty">
+            <CardContent className="py-12 text-center space-y-4">
+              <CheckCircle className="w-10 h-10 mx-auto text-primary" />
+              <p className="text-muted-foreground">Every transcribed receipt has been reviewed.</p>
+              <Button asChild variant="outline" data-testid="button-review-back">
+                <Link href={`/receipts/${accountId}`}>Back to Receipts</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,203 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { useState } from "react";
+import type { Receipt, User, Vehicle } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { Helmet } from "react-helmet";
+import { format } from "date-fns";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type TrashedReceipt = Receipt & {
+  uploadedByUser: User;
+  vehicle: Vehicle | null;
+  purgeAt: string | null;
+};
+
+type TrashResponse = {
+  retentionDays: number;
+  receipts: TrashedReceipt[];
+};
+
+export default function Trash() {
+  const params = useParams<{ accountId: string }>();
+  const { accountId } = params;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [purgeId, setPurgeId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<TrashResponse>({
+    queryKey: ["/api/accounts", accountId, "trash"],
+    enabled: !!accountId,
+  });
+
+  const receipts = data?.receipts ?? [];
+
+  const onSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/accounts", accountId, "receipts"] });
+    toast({ title });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/accounts/${accountId}/trash/${id}/restore`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => onSuccess("Receipt restored"),
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: getApiErrorMessage(error, "Failed to restore the receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/accounts/${accountId}/trash/${id}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => {
+      onSuccess("Receipt permanently deleted");
+      setPurgeId(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: getApiErrorMessage(error, "Failed to delete the receipt"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Helmet>
+        <title>Trash - Gas Receipt Tax Refund</title>
+        <meta name="description" content="Restore deleted receipts before they are permanently removed." />
+      </Helmet>
+      <main className="flex-1 px-4 py-6 pb-16 sm:px-6 lg:px-8 max-w-7xl mx-auto w-full space-y-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <h2 className="text-2xl font-semibold">Trash</h2>
+          <Button asChild variant="outline" data-testid="button-back-to-receipts">
+            <Link href={`/receipts/${accountId}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Receipts
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Deleted Receipts</CardTitle>
+            <CardDescription>
+              Deleted receipts are left out of totals and exports.
+              {data && ` They are permanently deleted, with their images, ${data.retentionDays} days after being moved here.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : receipts.length === 0 ? (
+              <p className="py-8 text-center text-muted-foreground" data-testid="text-trash-empty">
+                The trash is empty.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Station</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Uploaded By</TableHead>
+                    <TableHead>Deleted</TableHead>
+                    <TableHead>Purged On</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipts.map(receipt => (
+                    <TableRow key={receipt.id} data-testid={`row-trash-${receipt.id}`}>
+                      <TableCell>{receipt.date}</TableCell>
+                      <TableCell>{receipt.stationName}</TableCell>
+                      <TableCell className="text-right">
+                        {receipt.totalAmount ? `$${parseFloat(receipt.totalAmount).toFixed(2)}` : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {`${receipt.uploadedByUser.firstName} ${receipt.uploadedByUser.lastName}`.trim() || receipt.uploadedByUser.email}
+                      </TableCell>
+                      <TableCell>{receipt.deletedAt ? format(new Date(receipt.deletedAt), "MMM d, yyyy") : "—"}</TableCell>
+                      <TableCell>{receipt.purgeAt ? format(new Date(receipt.purgeAt), "MMM d, yyyy") : "—"}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => restoreMutation.mutate(receipt.id)}
+                            disabled={restoreMutation.isPending}
+                            data-testid={`button-restore-${receipt.id}`}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Restore
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setPurgeId(receipt.id)}
+                            title="Delete permanently"
+                            data-testid={`button-purge-${receipt.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <AlertDialog open={!!purgeId} onOpenChange={() => setPurgeId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              The receipt and its image will be deleted now. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-purge">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeId && purgeMutation.mutate(purgeId)}
+              data-testid="button-confirm-purge"
+            >
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Progress } from "@/components/ui/progress";
 import { Car, Check, Loader2, AlertTriangle, CreditCard } from "lucide-react";
 import { Receipt } from "@shared/schema";
+import { getCurrentFiscalYear } from "@shared/filingCalendar";
 import { Helmet } from "react-helmet";
 
 type SubscriptionStatus = {
@@ -25,16 +26,6 @@ type SubscriptionStatus = {
 type Account = any;
 type Vehicle = any;
 
-function getCurrentFiscalYear(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.getMonth();
-  if (month >= 6) {
-    return `${year}-${year + 1}`;
-  }
-  return `${year - 1}-${year}`;
-}
-
 export default function Upload() {
   const params = useParams();
   const accountId = params.accountId || "";
@@ -364,6 +355,13 @@ export default function Upload() {
                   </CardHeader>
                 </Card>
               )}
+
+              <p className="text-sm text-muted-foreground">
+                Lost a receipt?{" "}
+                <Link href={`/upload/${accountId}/manual`} className="text-primary underline" data-testid="link-manual-entry">
+                  Enter the purchase manually
+                </Link>
+              </p>
             </>
           )}
         </div>
@@ -395,10 +393,12 @@ export default function Upload() {
       {/* Receipt Review Modal - only show when processing is complete */}
       {viewingReceipt && !isProcessing && (
         <ReceiptModal
+          key={viewingReceipt.id}
           receipt={viewingReceipt}
           accountId={accountId}
           open={!!viewingReceipt && !isProcessing}
           onClose={handleCloseModal}
+          onViewReceipt={handleViewReceipt}
         />
       )}
     </>
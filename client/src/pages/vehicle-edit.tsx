@@ -24,6 +24,7 @@ export default function VehicleEdit() {
   const [model, setModel] = useState("");
   const [fuelType, setFuelType] = useState("");
   const [weightUnder26000, setWeightUnder26000] = useState(true);
+  const [tankCapacity, setTankCapacity] = useState("");
   const [lookingUpVin, setLookingUpVin] = useState(false);
 
   const { data: account, isLoading: accountLoading, error: accountError } = useQuery<Account>({
@@ -45,6 +46,7 @@ export default function VehicleEdit() {
       setModel(vehicle.model || "");
       setFuelType(vehicle.fuelType || "");
       setWeightUnder26000(vehicle.weightUnder26000 ?? true);
+      setTankCapacity(vehicle.tankCapacityGallons || "");
     }
   }, [vehicle]);
 
@@ -92,6 +94,7 @@ export default function VehicleEdit() {
           model,
           fuelType,
           weightUnder26000,
+          tankCapacityGallons: tankCapacity || null,
         }),
       });
     },
@@ -240,6 +243,22 @@ export default function VehicleEdit() {
                 data-testid="input-model"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="tank-capacity">Fuel Tank Capacity (gallons)</Label>
+              <Input
+                id="tank-capacity"
+                type="number"
+                step="0.1"
+                min="0"
+                value={tankCapacity}
+                onChange={(e) => setTankCapacity(e.target.value)}
+                placeholder="Optional"
+                data-testid="input-tank-capacity"
+              />
+              <p className="text-xs text-muted-foreground">
+                Receipts with more gallons than this are flagged for review
+              </p>
+            </div>
             <div className="flex items-center gap-2">
               <input
                 type="checkbox"
@@ -0,0 +1,246 @@
+import archiver from "archiver";
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { Writable } from "stream";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { storage } from "./storage";
+import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { getObjectMetadata } from "./objectAcl";
+import { readOriginalUpload } from "./originalUploads";
+import { buildExportData, toCSV, toJSON, type ExportData, type ExportRow } from "./exports";
+import { EXPORT_COLUMNS, type ExportColumnKey } from "@shared/exports";
+import { formatCalendarDate, getFiscalYearCalendar } from "@shared/filingCalendar";
+import type { Account } from "@shared/schema";
+
+// Index columns: every export column, so the index stands on its own
+const INDEX_COLUMNS = Object.keys(EXPORT_COLUMNS) as ExportColumnKey[];
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/tiff": "tiff",
+  "image/heic": "heic",
+  "image/heif": "heif",
+  "application/pdf": "pdf",
+};
+
+export interface AuditPacketResult {
+  receiptCount: number;
+  imageCount: number;
+  // Receipts whose image could not be read from object storage
+  missingImages: string[];
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40) || "unknown";
+}
+
+/**
+ * File name for a receipt image inside the packet: date, station and amount,
+ * e.g. "2024-08-01_quiktrip-123_45.10.jpg". Duplicates get a numeric suffix.
+ */
+function imageFileName(row: ExportRow, extension: string, used: Set<string>): string {
+  const { receipt } = row;
+  const amount = parseFloat(receipt.totalAmount ?? "");
+  const base = [
+    receipt.date,
+    slugify(receipt.stationName),
+    isNaN(amount) ? "no-amount" : amount.toFixed(2),
+  ].join("_");
+
+  let name = `${base}.${extension}`;
+  for (let n = 2; used.has(name); n++) {
+    name = `${base}_${n}.${extension}`;
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * The clearest copy of a receipt's image: the original upload where one was
+ * kept, otherwise the processed image. For a manual entry this is its
+ * supporting document.
+ */
+async function readReceiptImage(
+  objectStorageService: ObjectStorageService,
+  receipt: ExportRow["receipt"]
+): Promise<{ image: Buffer; contentType: string }> {
+  if (receipt.originalImagePath) {
+    try {
+      const { buffer, contentType } = await readOriginalUpload(receipt);
+      return { image: buffer, contentType };
+    } catch (error) {
+      console.error(`Audit packet: original image missing for receipt ${receipt.id}, using processed image:`, error);
+    }
+  }
+
+  if (!receipt.imageUrl) {
+    throw new ObjectNotFoundError();
+  }
+
+  const objectPath = await objectStorageService.getObjectPathFromUrl(receipt.imageUrl);
+  const image = await objectStorageService.downloadObjectAsBytes(objectPath);
+  const metadata = await getObjectMetadata(objectPath);
+  return { image, contentType: metadata?.contentType || "image/jpeg" };
+}
+
+async function generateSummaryPage(account: Account, data: ExportData, result: AuditPacketResult): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Audit packet - FY ${data.fiscalYear}`);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const page = pdf.addPage([612, 792]);
+  const calendar = getFiscalYearCalendar(data.fiscalYear);
+
+  let y = 740;
+  const line = (text: string, size = 10, useBold = false) => {
+    page.drawText(text, { x: 50, y, size, font: useBold ? bold : font });
+    y -= size + 8;
+  };
+
+  line("Fuel Tax Refund Audit Packet", 16, true);
+  line(account.businessName || account.name, 12);
+  line(`Fiscal year ${data.fiscalYear} (${formatCalendarDate(calendar.startDate)} - ${formatCalendarDate(calendar.endDate)})`);
+  line(`Generated ${new Date().toLocaleString("en-US")}`);
+  y -= 10;
+
+  line("Contents", 12, true);
+  line(`${result.receiptCount} receipts, ${result.imageCount} receipt images in receipts/ (original uploads where kept)`);
+  line("index.csv and index.json list every receipt with its image file, evidence, eligibility and refund");
+  const manualCount = data.rows.filter(row => row.receipt.evidenceType !== "receipt").length;
+  if (manualCount > 0) {
+    line(`${manualCount} manual entries record purchases whose receipt was lost; their supporting documents are in receipts/`);
+  }
+  y -= 10;
+
+  line("Totals", 12, true);
+  line(`All receipts: ${data.totals.receiptCount} receipts, ${data.totals.gallons.toFixed(3)} gallons, $${data.totals.totalAmount.toFixed(2)} purchased`);
+  line(`Eligible receipts: ${data.eligibleTotals.receiptCount} receipts, ${data.eligibleTotals.gallons.toFixed(3)} gallons`);
+  line(`Refund claimed: $${data.eligibleTotals.refundAmount.toFixed(2)}`, 10, true);
+
+  if (result.missingImages.length > 0) {
+    y -= 10;
+    line("Missing images", 12, true);
+    line(`${result.missingImages.length} receipt image(s) could not be retrieved from storage:`);
+    for (const receiptId of result.missingImages.slice(0, 30)) {
+      line(`- ${receiptId}`, 8);
+    }
+    if (result.missingImages.length > 30) {
+      line(`... and ${result.missingImages.length - 30} more (see index.json)`, 8);
+    }
+  }
+
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * Write a ZIP audit packet for a fiscal year to `output`: every receipt image
+ * (named by date, station and amount), an index in CSV and JSON, and a
+ * summary page. Images are fetched one at a time so memory use stays flat
+ * however many receipts the year has.
+ */
+export async function writeAuditPacket(accountId: string, fiscalYear: string, output: Writable): Promise<AuditPacketResult> {
+  const account = await storage.getAccountById(accountId);
+  if (!account) {
+    throw new Error("Account not found");
+  }
+
+  const objectStorageService = new ObjectStorageService();
+  const data = await buildExportData(accountId, fiscalYear, INDEX_COLUMNS);
+  const result: AuditPacketResult = { receiptCount: data.rows.length, imageCount: 0, missingImages: [] };
+
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on("finish", resolve);
+    output.on("close", resolve);
+    output.on("error", reject);
+    archive.on("error", reject);
+  });
+  archive.pipe(output);
+
+  const usedNames = new Set<string>();
+  for (const row of data.rows) {
+    // Manual entries without a supporting document have no file; the index records their evidence type
+    if (!row.receipt.imageUrl && !row.receipt.originalImagePath) {
+      continue;
+    }
+    try {
+      const { image, contentType } = await readReceiptImage(objectStorageService, row.receipt);
+      const extension = IMAGE_EXTENSIONS[contentType] || "jpg";
+
+      row.imageFile = `receipts/${imageFileName(row, extension, usedNames)}`;
+      // Wait for each entry to be written before fetching the next image
+      const written = new Promise(resolve => archive.once("entry", resolve));
+      archive.append(image, { name: row.imageFile, date: new Date(`${row.receipt.date}T12:00:00`) });
+      await written;
+      result.imageCount++;
+    } catch (error) {
+      console.error(`Audit packet: could not add image for receipt ${row.receipt.id}:`, error);
+      result.missingImages.push(row.receipt.id);
+    }
+  }
+
+  archive.append(toCSV(data), { name: "index.csv" });
+  archive.append(JSON.stringify({ ...toJSON(data), missingImages: result.missingImages }, null, 2), { name: "index.json" });
+  archive.append(await generateSummaryPage(account, data, result), { name: "summary.pdf" });
+
+  await archive.finalize();
+  await finished;
+  return result;
+}
+
+export function auditPacketFileName(fiscalYear: string): string {
+  return `audit-packet-fy-${fiscalYear}.zip`;
+}
+
+/**
+ * Build an audit packet for an export job and store the ZIP in object
+ * storage for later download. Runs as an `audit_packet` job; errors are
+ * thrown so the job can be retried.
+ */
+export async function runAuditPacketJob(exportJobId: string): Promise<void> {
+  const job = await storage.getExportJob(exportJobId);
+  if (!job || job.status === "completed") return;
+
+  await storage.updateExportJob(exportJobId, { status: "running" });
+
+  // The ZIP holds every receipt image of the year, so it goes to a temporary
+  // file rather than memory on its way to object storage
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "audit-packet-"));
+  const tempFile = path.join(tempDir, auditPacketFileName(job.fiscalYear));
+  let result: AuditPacketResult;
+  let objectPath: string;
+  try {
+    result = await writeAuditPacket(job.accountId, job.fiscalYear, createWriteStream(tempFile));
+    const objectStorageService = new ObjectStorageService();
+    objectPath = await objectStorageService.uploadObjectFromFile(tempFile, "application/zip", job.accountId, "exports");
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+
+  await storage.updateExportJob(exportJobId, {
+    status: "completed",
+    objectPath,
+    fileName: auditPacketFileName(job.fiscalYear),
+    error: result.missingImages.length > 0 ? `${result.missingImages.length} receipt image(s) were missing` : null,
+    completedAt: new Date(),
+  });
+  console.log(`Audit packet ${exportJobId} completed: ${result.imageCount}/${result.receiptCount} images`);
+}
+
+// Called once the job has used up its retries
+export async function failAuditPacketJob(exportJobId: string, error: string): Promise<void> {
+  await storage.updateExportJob(exportJobId, {
+    status: "failed",
+    error,
+    completedAt: new Date(),
+  });
+}
@@ -108,6 +108,8 @@ export async function sendInvitationEmail(
     console.log(`Invitation email sent to ${toEmail} for account ${accountName}`);
   } catch (error) {
     console.error("Failed to send invitation email:", error);
+    // Rethrow so the email job is retried
+    throw error;
   }
 }
 
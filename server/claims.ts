@@ -0,0 +1,229 @@
+import { storage } from "./storage";
+import { calculateRefunds, summarizeRefunds, type ReceiptWithVehicle, type RefundLine, type RefundSummary, type RefundTotals } from "./refundEngine";
+import { isClaimLocked } from "@shared/claims";
+import { toDateString } from "@shared/filingCalendar";
+import type { Claim, ClaimReceipt, InsertClaim, InsertClaimReceipt } from "@shared/schema";
+import type { EligibilityReason } from "@shared/eligibility";
+
+export type ClaimDiffStatus = "changed" | "added" | "removed";
+
+export interface ClaimDiffLine {
+  receiptId: string;
+  date: string;
+  stationName: string;
+  status: ClaimDiffStatus;
+  // Fields whose value differs between the snapshot and the recomputation
+  changedFields: string[];
+  filed: RefundLine | null;
+  current: RefundLine | null;
+}
+
+export interface ClaimSnapshotDiff {
+  claimId: string;
+  fiscalYear: string;
+  filedAt: Date | null;
+  filedTotals: RefundTotals;
+  currentTotals: RefundTotals;
+  // Current refund minus the filed refund
+  refundDifference: number;
+  unchangedCount: number;
+  lines: ClaimDiffLine[];
+}
+
+// Fields compared by the diff report, in the order they are reported
+const DIFF_FIELDS = ["eligible", "gallons", "baseRate", "increase", "refundAmount", "ratePeriod", "fuelType"] as const;
+
+/**
+ * Return the account's claim for a fiscal year if it locks that year's
+ * receipts (filed and not reopened as an amendment), otherwise null.
+ */
+export async function getLockingClaim(accountId: string, fiscalYear: string): Promise<Claim | null> {
+  const claim = await storage.getClaim(accountId, fiscalYear);
+  return claim && isClaimLocked(claim.status) ? claim : null;
+}
+
+/**
+ * Get the claim for a fiscal year, creating a draft the first time the
+ * fiscal year is worked on.
+ */
+export async function getOrCreateClaim(accountId: string, fiscalYear: string): Promise<Claim> {
+  const existing = await storage.getClaim(accountId, fiscalYear);
+  if (existing) {
+    return existing;
+  }
+  return storage.createClaim({ accountId, fiscalYear, status: "draft" });
+}
+
+/**
+ * Run the refund engine over the fiscal year's validated receipts, the ones
+ * a claim is filed with. Unvalidated receipts are left out entirely rather
+ * than reported ineligible, so they stay out of the filed snapshot. The
+ * totals only include eligible receipts, matching what is filed on Form
+ * 4923-H. Pass the filing date (YYYY-MM-DD) when computing the figures of a
+ * filing.
+ */
+export async function calculateClaimRefunds(accountId: string, fiscalYear: string, filedOn: string | null = null): Promise<RefundSummary> {
+  const receipts = await storage.getFiscalYearReceipts(accountId, fiscalYear);
+  return calculateRefunds(receipts.filter(receipt => receipt.validated), filedOn);
+}
+
+function toClaimReceipt(claimId: string, line: RefundLine): InsertClaimReceipt {
+  return {
+    claimId,
+    receiptId: line.receiptId,
+    vehicleId: line.vehicleId,
+    uploadedBy: line.uploadedBy,
+    date: line.date,
+    stationName: line.stationName,
+    fuelType: line.fuelType,
+    taxRateId: line.ratePeriod?.id ?? null,
+    rateFuelType: line.ratePeriod?.fuelType ?? null,
+    rateStartDate: line.ratePeriod?.startDate ?? null,
+    rateEndDate: line.ratePeriod?.endDate ?? null,
+    rateFallback: line.rateFallback,
+    baseRate: line.baseRate.toFixed(3),
+    increase: line.increase.toFixed(3),
+    gallons: line.gallons.toFixed(3),
+    refundAmount: line.refundAmount.toFixed(2),
+    eligible: line.eligible,
+    eligibilityReasons: line.reasons,
+    eligibilityOverridden: line.overridden,
+  };
+}
+
+function fromClaimReceipt(row: ClaimReceipt, fiscalYear: string): RefundLine {
+  return {
+    receiptId: row.receiptId,
+    fiscalYear,
+    vehicleId: row.vehicleId,
+    uploadedBy: row.uploadedBy,
+    date: row.date,
+    stationName: row.stationName,
+    fuelType: row.fuelType,
+    ratePeriod: row.taxRateId && row.rateFuelType && row.rateStartDate
+      ? { id: row.taxRateId, fuelType: row.rateFuelType, startDate: row.rateStartDate, endDate: row.rateEndDate }
+      : null,
+    rateFallback: row.rateFallback,
+    baseRate: parseFloat(row.baseRate),
+    increase: parseFloat(row.increase),
+    gallons: parseFloat(row.gallons),
+    refundAmount: parseFloat(row.refundAmount),
+    eligible: row.eligible,
+    reasons: row.eligibilityReasons as EligibilityReason[],
+    overridden: row.eligibilityOverridden,
+    filed: true,
+  };
+}
+
+/**
+ * Mark a claim filed: persist the per-receipt refund figures it was filed
+ * with, replacing any snapshot from an earlier filing, together with the
+ * claim's own filed fields.
+ */
+export async function fileClaim(claimId: string, refunds: RefundSummary, updates: Partial<InsertClaim>): Promise<Claim | undefined> {
+  return storage.fileClaim(claimId, refunds.lines.map(line => toClaimReceipt(claimId, line)), updates);
+}
+
+/**
+ * Load the filed refund lines for a claim, keyed by receipt ID.
+ */
+export async function getClaimSnapshot(claim: Claim): Promise<Map<string, RefundLine>> {
+  const rows = await storage.getClaimReceipts(claim.id);
+  return new Map(rows.map(row => [row.receiptId, fromClaimReceipt(row, claim.fiscalYear)]));
+}
+
+// A receipt in a filed fiscal year that the claim was filed without, such as
+// one that had not been validated yet, reports no refund
+function toUnfiledLine(line: RefundLine): RefundLine {
+  return { ...line, eligible: false, refundAmount: 0, reasons: [...line.reasons, "NOT_FILED"], filed: true };
+}
+
+/**
+ * Calculate refunds for reporting. Receipts in a filed fiscal year report
+ * the figures frozen at filing, or no refund when they were not filed;
+ * everything else is recomputed from the current tax rates. Lines are
+ * returned in input order.
+ */
+export async function calculateReportRefunds(accountId: string, receipts: ReceiptWithVehicle[]): Promise<RefundSummary> {
+  const live = await calculateRefunds(receipts);
+
+  const fiscalYears = Array.from(new Set(receipts.map(r => r.fiscalYear)));
+  const snapshots = new Map<string, Map<string, RefundLine>>();
+  for (const fiscalYear of fiscalYears) {
+    const claim = await getLockingClaim(accountId, fiscalYear);
+    if (claim) {
+      snapshots.set(fiscalYear, await getClaimSnapshot(claim));
+    }
+  }
+
+  if (snapshots.size === 0) {
+    return live;
+  }
+  return summarizeRefunds(live.lines.map(line => {
+    const snapshot = snapshots.get(line.fiscalYear);
+    if (!snapshot) {
+      return line;
+    }
+    return snapshot.get(line.receiptId) ?? toUnfiledLine(line);
+  }));
+}
+
+function diffFields(filed: RefundLine, current: RefundLine): string[] {
+  return DIFF_FIELDS.filter(field => {
+    if (field === "ratePeriod") {
+      return (filed.ratePeriod?.id ?? null) !== (current.ratePeriod?.id ?? null);
+    }
+    return filed[field] !== current[field];
+  });
+}
+
+/**
+ * Compare a filed claim's snapshot against a fresh recomputation from the
+ * current receipts and tax rates. Receipts added to or removed from the
+ * fiscal year since filing are reported as added/removed. The recomputation
+ * is as of the filing date, so only rate and receipt changes show up, not
+ * the deadline passing since.
+ */
+export async function diffClaimSnapshot(claim: Claim): Promise<ClaimSnapshotDiff> {
+  const snapshot = await getClaimSnapshot(claim);
+  const filedOn = claim.filedAt ? toDateString(claim.filedAt) : null;
+  const current = await calculateClaimRefunds(claim.accountId, claim.fiscalYear, filedOn);
+  const currentById = new Map(current.lines.map(line => [line.receiptId, line]));
+
+  const lines: ClaimDiffLine[] = [];
+  let unchangedCount = 0;
+
+  snapshot.forEach((filed, receiptId) => {
+    const recomputed = currentById.get(receiptId);
+    if (!recomputed) {
+      lines.push({ receiptId, date: filed.date, stationName: filed.stationName, status: "removed", changedFields: [], filed, current: null });
+      return;
+    }
+    const changedFields = diffFields(filed, recomputed);
+    if (changedFields.length === 0) {
+      unchangedCount++;
+    } else {
+      lines.push({ receiptId, date: filed.date, stationName: filed.stationName, status: "changed", changedFields, filed, current: recomputed });
+    }
+  });
+
+  for (const line of current.lines) {
+    if (!snapshot.has(line.receiptId)) {
+      lines.push({ receiptId: line.receiptId, date: line.date, stationName: line.stationName, status: "added", changedFields: [], filed: null, current: line });
+    }
+  }
+
+  lines.sort((a, b) => a.date.localeCompare(b.date));
+
+  const filedTotals = summarizeRefunds(Array.from(snapshot.values())).totals;
+  return {
+    claimId: claim.id,
+    fiscalYear: claim.fiscalYear,
+    filedAt: claim.filedAt,
+    filedTotals,
+    currentTotals: current.totals,
+    refundDifference: Math.round((current.totals.refundAmount - filedTotals.refundAmount) * 100) / 100,
+    unchangedCount,
+    lines,
+  };
+}
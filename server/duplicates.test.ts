@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Receipt } from "@shared/schema";
+
+const storage = vi.hoisted(() => ({
+  getReceipt: vi.fn(),
+  getDuplicateCandidates: vi.fn(),
+}));
+vi.mock("./storage", () => ({ storage }));
+
+import { findTranscribedDuplicate, isDifferentPurchase, isSamePurchase } from "./duplicates";
+
+function makeReceipt(receipt: Partial<Receipt> = {}): Receipt {
+  return {
+    id: "receipt-1",
+    accountId: "account-1",
+    date: "2024-03-15",
+    stationName: "QuikTrip #123",
+    gallons: "12.345",
+    totalAmount: "40.12",
+    processingStatus: "completed",
+    duplicateOfId: null,
+    duplicateDismissed: false,
+    ...receipt,
+  } as Receipt;
+}
+
+const purchase = {
+  date: "2024-03-15",
+  readDate: "2024-03-15",
+  stationName: "QUIKTRIP 123",
+  gallons: "12.345",
+  totalAmount: "40.12",
+};
+
+describe("isSamePurchase", () => {
+  it("matches the same purchase read slightly differently", () => {
+    expect(isSamePurchase(makeReceipt(), { ...purchase, gallons: "12.35" })).toBe(true);
+  });
+
+  it("never matches on date and station alone", () => {
+    expect(isSamePurchase(makeReceipt(), { ...purchase, gallons: null, totalAmount: null })).toBe(false);
+  });
+});
+
+describe("isDifferentPurchase", () => {
+  it.each([
+    [{ date: "2024-03-16" }],
+    [{ gallons: "8.000" }],
+    [{ totalAmount: "25.00" }],
+  ])("treats %j as a different purchase", (reading) => {
+    expect(isDifferentPurchase(makeReceipt(), { ...purchase, ...reading })).toBe(true);
+  });
+
+  it("does not count values that could not be read as a disagreement", () => {
+    expect(isDifferentPurchase(makeReceipt(), { date: null, gallons: null, totalAmount: null })).toBe(false);
+  });
+});
+
+describe("findTranscribedDuplicate", () => {
+  beforeEach(() => {
+    storage.getReceipt.mockReset();
+    storage.getDuplicateCandidates.mockReset().mockResolvedValue([]);
+  });
+
+  it("keeps an image match the transcription agrees with", async () => {
+    storage.getReceipt.mockResolvedValue(makeReceipt({ id: "original" }));
+    const receipt = makeReceipt({ id: "receipt-2", duplicateOfId: "original" });
+    expect(await findTranscribedDuplicate(receipt, purchase)).toBe("original");
+  });
+
+  it("clears an image match when the purchases clearly differ", async () => {
+    storage.getReceipt.mockResolvedValue(makeReceipt({ id: "original" }));
+    const receipt = makeReceipt({ id: "receipt-2", duplicateOfId: "original" });
+    expect(await findTranscribedDuplicate(receipt, { ...purchase, date: "2024-04-02", readDate: "2024-04-02" })).toBeNull();
+  });
+
+  it("keeps an image match while the original is still being transcribed", async () => {
+    storage.getReceipt.mockResolvedValue(makeReceipt({ id: "original", processingStatus: "pending", gallons: null, totalAmount: null }));
+    const receipt = makeReceipt({ id: "receipt-2", duplicateOfId: "original" });
+    expect(await findTranscribedDuplicate(receipt, { ...purchase, gallons: "3.000" })).toBe("original");
+  });
+
+  it("matches an unflagged receipt on its purchase fields", async () => {
+    storage.getDuplicateCandidates.mockResolvedValue([makeReceipt({ id: "original" })]);
+    expect(await findTranscribedDuplicate(makeReceipt({ id: "receipt-2" }), purchase)).toBe("original");
+  });
+
+  it("leaves a receipt the user said is not a duplicate alone", async () => {
+    storage.getDuplicateCandidates.mockResolvedValue([makeReceipt({ id: "original" })]);
+    expect(await findTranscribedDuplicate(makeReceipt({ id: "receipt-2", duplicateDismissed: true }), purchase)).toBeNull();
+  });
+});
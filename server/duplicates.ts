@@ -0,0 +1,160 @@
+import { storage } from "./storage";
+import { getHashDistance } from "./imageProcessing";
+import { updateReceiptWithRevision } from "./receiptRevisions";
+import type { Receipt } from "@shared/schema";
+
+// Images whose hashes differ in this many bits or fewer are treated as the same photo
+const MAX_HASH_DISTANCE = 6;
+
+// Gallons and totals within these amounts are treated as the same reading
+const GALLONS_TOLERANCE = 0.01;
+const AMOUNT_TOLERANCE = 0.01;
+
+type PurchaseFields = Pick<Receipt, "date" | "stationName" | "gallons" | "totalAmount">;
+
+// "QuikTrip #123" and "QUIKTRIP 123" compare equal
+function normalizeStation(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function isSameStation(a: string, b: string): boolean {
+  const left = normalizeStation(a);
+  const right = normalizeStation(b);
+  if (!left || !right) return false;
+  return left === right || left.startsWith(right) || right.startsWith(left);
+}
+
+function isClose(a: string | null, b: string | null, tolerance: number): boolean {
+  const left = parseFloat(a ?? "");
+  const right = parseFloat(b ?? "");
+  return !isNaN(left) && !isNaN(right) && Math.abs(left - right) <= tolerance;
+}
+
+// Both values were read and they are further apart than a misreading explains
+function isApart(a: string | null, b: string | null, tolerance: number): boolean {
+  const left = parseFloat(a ?? "");
+  const right = parseFloat(b ?? "");
+  return !isNaN(left) && !isNaN(right) && Math.abs(left - right) > tolerance;
+}
+
+/**
+ * Whether two receipts record the same purchase: same date and station, with
+ * matching gallons and total. A missing gallons or total never matches, so
+ * partially read receipts are not flagged on the date and station alone.
+ */
+export function isSamePurchase(a: PurchaseFields, b: PurchaseFields): boolean {
+  return a.date === b.date
+    && isSameStation(a.stationName, b.stationName)
+    && isClose(a.gallons, b.gallons, GALLONS_TOLERANCE)
+    && isClose(a.totalAmount, b.totalAmount, AMOUNT_TOLERANCE);
+}
+
+/**
+ * Whether two receipts clearly record different purchases: a different date,
+ * gallons or total where both receipts have a value. The station is not
+ * compared, since receipts from one station share a template and look alike.
+ * A `date` of null means the date could not be read.
+ */
+export function isDifferentPurchase(
+  a: Pick<Receipt, "date" | "gallons" | "totalAmount">,
+  b: Pick<Receipt, "gallons" | "totalAmount"> & { date: string | null }
+): boolean {
+  return (b.date !== null && a.date !== b.date)
+    || isApart(a.gallons, b.gallons, GALLONS_TOLERANCE)
+    || isApart(a.totalAmount, b.totalAmount, AMOUNT_TOLERANCE);
+}
+
+/**
+ * Oldest receipt in the account whose image looks the same as `imageHash`.
+ * Checked at upload time, before the new receipt is transcribed.
+ */
+export async function findImageDuplicate(accountId: string, imageHash: string): Promise<Receipt | undefined> {
+  const candidates = await storage.getDuplicateCandidates(accountId);
+  return candidates.find(candidate =>
+    candidate.imageHash !== null && getHashDistance(candidate.imageHash, imageHash) <= MAX_HASH_DISTANCE
+  );
+}
+
+/**
+ * Oldest other receipt in the account recording the same purchase, e.g. a
+ * second photo of the same receipt. Checked once the receipt is transcribed.
+ */
+export async function findPurchaseDuplicate(receipt: PurchaseFields & Pick<Receipt, "id" | "accountId">): Promise<Receipt | undefined> {
+  const candidates = await storage.getDuplicateCandidates(receipt.accountId);
+  return candidates.find(candidate =>
+    candidate.id !== receipt.id
+    && candidate.processingStatus === "completed"
+    && isSamePurchase(candidate, receipt)
+  );
+}
+
+/**
+ * Decide a receipt's duplicate flag once it has been transcribed. A flag set
+ * at upload from the image hash alone is confirmed against the transcribed
+ * purchase and dropped when the two receipts clearly disagree, since
+ * receipts printed from the same template can hash alike. Unflagged
+ * receipts are then matched on their purchase fields. A receipt the user
+ * said is not a duplicate keeps that answer.
+ *
+ * @param purchase - Transcribed purchase fields; `readDate` is null when the date could not be read
+ * @returns The receipt it duplicates, or null
+ */
+export async function findTranscribedDuplicate(
+  receipt: Receipt,
+  purchase: PurchaseFields & { readDate: string | null }
+): Promise<string | null> {
+  if (receipt.duplicateDismissed) return receipt.duplicateOfId;
+
+  if (receipt.duplicateOfId) {
+    // An original still waiting for its own transcription can't be compared yet
+    const original = await storage.getReceipt(receipt.duplicateOfId);
+    const disagrees = original?.processingStatus === "completed"
+      && isDifferentPurchase(original, { ...purchase, date: purchase.readDate });
+    if (!disagrees) return receipt.duplicateOfId;
+  }
+
+  const duplicate = await findPurchaseDuplicate({ ...purchase, id: receipt.id, accountId: receipt.accountId });
+  return duplicate?.id ?? null;
+}
+
+/**
+ * Re-point the suspected duplicates of a receipt that was moved to the trash.
+ * The oldest becomes the original and the rest are flagged as duplicates of
+ * it, as if detection had never seen the trashed receipt, so the purchase
+ * still counts once.
+ */
+export async function reassignDuplicates(trashed: Receipt, actorId: string): Promise<void> {
+  const [successor, ...others] = await storage.getReceiptDuplicates(trashed.id);
+  if (!successor) return;
+
+  const context = { source: "duplicates", actorId } as const;
+  await updateReceiptWithRevision(successor, { duplicateOfId: null }, context);
+  for (const duplicate of others) {
+    await updateReceiptWithRevision(duplicate, { duplicateOfId: successor.id }, context);
+  }
+}
+
+/**
+ * Check a receipt taken back out of the trash against the rest of the
+ * account again. While it was trashed a duplicate of it may have become the
+ * original, so it is flagged as a duplicate of that receipt, unless the user
+ * already said it is not one. As after transcription, an image hash match
+ * between two transcribed receipts that clearly disagree doesn't count.
+ */
+export async function recheckRestoredDuplicate(restored: Receipt, actorId: string): Promise<Receipt> {
+  if (restored.duplicateDismissed) return restored;
+
+  const candidates = (await storage.getDuplicateCandidates(restored.accountId)).filter(candidate => candidate.id !== restored.id);
+  const duplicate = candidates.find(candidate =>
+    restored.imageHash !== null
+    && candidate.imageHash !== null
+    && getHashDistance(candidate.imageHash, restored.imageHash) <= MAX_HASH_DISTANCE
+    && !(restored.processingStatus === "completed" && candidate.processingStatus === "completed" && isDifferentPurchase(candidate, restored))
+  ) ?? (restored.processingStatus === "completed"
+    ? candidates.find(candidate => candidate.processingStatus === "completed" && isSamePurchase(candidate, restored))
+    : undefined);
+
+  const duplicateOfId = duplicate?.id ?? null;
+  if (duplicateOfId === restored.duplicateOfId) return restored;
+  return (await updateReceiptWithRevision(restored, { duplicateOfId }, { source: "duplicates", actorId })) ?? restored;
+}
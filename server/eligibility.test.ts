@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { Receipt, TaxRate } from "@shared/schema";
+import { evaluateEligibility, type EligibilityContext } from "./eligibility";
+
+const taxRate = { id: "rate-1", baseRate: "0.170", increase: "0.050" } as TaxRate;
+
+function makeContext(receipt: Partial<Receipt> = {}, context: Partial<EligibilityContext> = {}): EligibilityContext {
+  return {
+    receipt: {
+      date: "2024-03-15",
+      sellerState: "MO",
+      vehicleId: "vehicle-1",
+      processingStatus: "completed",
+      duplicateOfId: null,
+      gallons: "10.000",
+      eligibilityOverride: null,
+      ...receipt,
+    } as Receipt,
+    vehicle: { active: true, weightUnder26000: true },
+    taxRate,
+    filingDeadline: "2025-04-15",
+    filedOn: null,
+    today: "2024-09-01",
+    ...context,
+  };
+}
+
+describe("evaluateEligibility", () => {
+  it("accepts a complete Missouri receipt", () => {
+    expect(evaluateEligibility(makeContext())).toEqual({ eligible: true, reasons: [], overridden: false });
+  });
+
+  it("leaves validation to the claim filing", () => {
+    expect(evaluateEligibility(makeContext({ validated: false })).eligible).toBe(true);
+  });
+
+  it("reports every failing rule in order", () => {
+    const result = evaluateEligibility(makeContext(
+      { gallons: null, sellerState: "KS" },
+      { vehicle: { active: false, weightUnder26000: false } }
+    ));
+    expect(result.eligible).toBe(false);
+    expect(result.reasons).toEqual(["MISSING_GALLONS", "OUT_OF_STATE", "INACTIVE_VEHICLE", "VEHICLE_OVER_26000"]);
+  });
+
+  it("treats a blank seller state as unknown rather than out of state", () => {
+    expect(evaluateEligibility(makeContext({ sellerState: " " })).reasons).toEqual(["UNKNOWN_STATE"]);
+    expect(evaluateEligibility(makeContext({ sellerState: "mo" })).eligible).toBe(true);
+  });
+
+  it("requires a usable tax rate", () => {
+    expect(evaluateEligibility(makeContext({}, { taxRate: null })).reasons).toEqual(["NO_TAX_RATE"]);
+    expect(evaluateEligibility(makeContext({}, { taxRate: { ...taxRate, increase: "" } })).reasons).toEqual(["NO_TAX_RATE"]);
+  });
+
+  describe("admin overrides", () => {
+    it("waives overridable reasons", () => {
+      const result = evaluateEligibility(makeContext({ sellerState: "KS", vehicleId: null, eligibilityOverride: true }));
+      expect(result).toEqual({ eligible: true, reasons: ["OUT_OF_STATE", "NO_VEHICLE"], overridden: true });
+    });
+
+    it("does not count as an override when nothing needed waiving", () => {
+      expect(evaluateEligibility(makeContext({ eligibilityOverride: true }))).toEqual({ eligible: true, reasons: [], overridden: false });
+    });
+
+    it.each([
+      [{ gallons: null }, "MISSING_GALLONS"],
+      [{ duplicateOfId: "receipt-0" }, "SUSPECTED_DUPLICATE"],
+      [{ processingStatus: "failed" }, "NOT_PROCESSED"],
+    ] as const)("cannot waive %j", (receipt, reason) => {
+      const result = evaluateEligibility(makeContext({ ...receipt, eligibilityOverride: true }));
+      expect(result.eligible).toBe(false);
+      expect(result.reasons).toContain(reason);
+    });
+
+    it("marks an otherwise eligible receipt ineligible", () => {
+      expect(evaluateEligibility(makeContext({ eligibilityOverride: false }))).toEqual({ eligible: false, reasons: [], overridden: true });
+    });
+  });
+
+  describe("claim period", () => {
+    it("rejects purchases dated after today while unfiled", () => {
+      expect(evaluateEligibility(makeContext({ date: "2024-09-02" })).reasons).toEqual(["OUTSIDE_CLAIM_PERIOD"]);
+    });
+
+    it("ignores the deadline until the claim is filed", () => {
+      expect(evaluateEligibility(makeContext({}, { today: "2025-06-01" })).eligible).toBe(true);
+    });
+
+    it("judges the deadline against the filing date, not today", () => {
+      expect(evaluateEligibility(makeContext({}, { filedOn: "2025-04-15", today: "2026-01-01" })).eligible).toBe(true);
+      expect(evaluateEligibility(makeContext({}, { filedOn: "2025-04-16" })).reasons).toEqual(["OUTSIDE_CLAIM_PERIOD"]);
+    });
+
+    it("rejects purchases dated after the filing date", () => {
+      expect(evaluateEligibility(makeContext({ date: "2024-03-15" }, { filedOn: "2024-03-14" })).reasons).toEqual(["OUTSIDE_CLAIM_PERIOD"]);
+    });
+  });
+});
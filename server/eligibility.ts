@@ -0,0 +1,84 @@
+import type { Receipt, TaxRate, Vehicle } from "@shared/schema";
+import { isOverridableReason, type EligibilityReason } from "@shared/eligibility";
+
+export interface EligibilityContext {
+  receipt: Receipt;
+  vehicle: Pick<Vehicle, "active" | "weightUnder26000"> | null;
+  taxRate: TaxRate | null;
+  // Last day a claim can be filed for the receipt's fiscal year (YYYY-MM-DD)
+  filingDeadline: string;
+  // Date the claim was filed on (YYYY-MM-DD), or null while it is unfiled. The
+  // deadline is judged against this, never the current date, so a filed year
+  // keeps its eligibility after the deadline passes.
+  filedOn: string | null;
+  // Today's date (YYYY-MM-DD), injectable so evaluations are reproducible
+  today: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  // Every rule the receipt fails, including any waived by an override
+  reasons: EligibilityReason[];
+  overridden: boolean;
+}
+
+interface EligibilityRule {
+  reason: EligibilityReason;
+  fails: (context: EligibilityContext) => boolean;
+}
+
+function hasGallons(receipt: Receipt): boolean {
+  const gallons = parseFloat(receipt.gallons ?? "");
+  return !isNaN(gallons) && gallons > 0;
+}
+
+function sellerState(receipt: Receipt): string | undefined {
+  return receipt.sellerState?.trim().toUpperCase() || undefined;
+}
+
+// Evaluated in order; the order is the order reasons are reported in
+const RULES: EligibilityRule[] = [
+  { reason: "NOT_PROCESSED", fails: ({ receipt }) => receipt.processingStatus !== "completed" },
+  { reason: "SUSPECTED_DUPLICATE", fails: ({ receipt }) => !!receipt.duplicateOfId },
+  { reason: "MISSING_GALLONS", fails: ({ receipt }) => !hasGallons(receipt) },
+  {
+    reason: "NO_TAX_RATE",
+    fails: ({ taxRate }) => !taxRate || isNaN(parseFloat(taxRate.baseRate)) || isNaN(parseFloat(taxRate.increase)),
+  },
+  { reason: "UNKNOWN_STATE", fails: ({ receipt }) => !sellerState(receipt) },
+  { reason: "OUT_OF_STATE", fails: ({ receipt }) => !!sellerState(receipt) && sellerState(receipt) !== "MO" },
+  { reason: "NO_VEHICLE", fails: ({ receipt, vehicle }) => !receipt.vehicleId || !vehicle },
+  { reason: "INACTIVE_VEHICLE", fails: ({ vehicle }) => !!vehicle && !vehicle.active },
+  { reason: "VEHICLE_OVER_26000", fails: ({ vehicle }) => !!vehicle && !vehicle.weightUnder26000 },
+  {
+    reason: "OUTSIDE_CLAIM_PERIOD",
+    fails: ({ receipt, today, filedOn, filingDeadline }) =>
+      receipt.date > (filedOn ?? today) || (filedOn !== null && filedOn > filingDeadline),
+  },
+];
+
+/**
+ * Evaluate a receipt against every eligibility rule.
+ *
+ * An admin override marking the receipt eligible waives overridable reasons
+ * but never the ones that make a refund impossible to compute (missing
+ * gallons, no tax rate, unprocessed) or a suspected duplicate, which is
+ * resolved on the receipt itself. An override marking it ineligible always
+ * wins.
+ */
+export function evaluateEligibility(context: EligibilityContext): EligibilityResult {
+  const reasons = RULES.filter(rule => rule.fails(context)).map(rule => rule.reason);
+  const override = context.receipt.eligibilityOverride;
+
+  if (override === false) {
+    return { eligible: false, reasons, overridden: true };
+  }
+  if (override === true) {
+    return {
+      eligible: reasons.every(isOverridableReason),
+      reasons,
+      overridden: reasons.length > 0,
+    };
+  }
+  return { eligible: reasons.length === 0, reasons, overridden: false };
+}
@@ -72,6 +72,28 @@ export function decrypt(ciphertext: string): string {
   }
 }
 
+// Binary counterpart of encrypt() for files: IV, auth tag and ciphertext in one buffer
+export function encryptBuffer(plaintext: Buffer): Buffer {
+  const key = getKey();
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+// Unlike decrypt(), throws if the data was not encrypted with the current key
+export function decryptBuffer(data: Buffer): Buffer {
+  const key = getKey();
+  const iv = data.subarray(0, IV_LENGTH);
+  const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const encrypted = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+}
+
 export function createSearchHash(plaintext: string): string {
   if (!plaintext) return plaintext;
   
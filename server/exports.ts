@@ -0,0 +1,232 @@
+import ExcelJS from "exceljs";
+import { storage } from "./storage";
+import { calculateReportRefunds } from "./claims";
+import type { RefundLine, RefundTotals } from "./refundEngine";
+import { EXPORT_COLUMNS, DEFAULT_EXPORT_COLUMNS, isExportColumn, type ExportColumnKey } from "@shared/exports";
+import { ELIGIBILITY_REASONS } from "@shared/eligibility";
+import { EVIDENCE_TYPES } from "@shared/receiptEvidence";
+import type { Receipt, User, Vehicle } from "@shared/schema";
+
+export interface ExportRow {
+  receipt: Receipt & { uploadedByUser?: User };
+  vehicle: Vehicle | null;
+  refund: RefundLine;
+  // File name of the receipt image inside an audit packet
+  imageFile?: string;
+}
+
+export interface ExportData {
+  fiscalYear: string;
+  columns: ExportColumnKey[];
+  rows: ExportRow[];
+  totals: RefundTotals & { totalAmount: number };
+  eligibleTotals: RefundTotals & { totalAmount: number };
+}
+
+type ExportValue = string | number | boolean | null;
+
+function parseNumber(value: string | null | undefined): number | null {
+  const parsed = parseFloat(value ?? "");
+  return isNaN(parsed) ? null : parsed;
+}
+
+function describeVehicle(vehicle: Vehicle | null): string | null {
+  if (!vehicle) return null;
+  const description = `${vehicle.year} ${vehicle.make} ${vehicle.model}`;
+  return vehicle.nickname ? `${vehicle.nickname} (${description})` : description;
+}
+
+const COLUMN_VALUES: Record<ExportColumnKey, (row: ExportRow) => ExportValue> = {
+  date: ({ receipt }) => receipt.date,
+  stationName: ({ receipt }) => receipt.stationName,
+  sellerStreet: ({ receipt }) => receipt.sellerStreet,
+  sellerCity: ({ receipt }) => receipt.sellerCity,
+  sellerState: ({ receipt }) => receipt.sellerState,
+  sellerZip: ({ receipt }) => receipt.sellerZip,
+  gallons: ({ receipt }) => parseNumber(receipt.gallons),
+  pricePerGallon: ({ receipt }) => parseNumber(receipt.pricePerGallon),
+  totalAmount: ({ receipt }) => parseNumber(receipt.totalAmount),
+  fuelType: ({ refund }) => refund.fuelType,
+  vehicle: ({ vehicle }) => describeVehicle(vehicle),
+  vin: ({ vehicle }) => vehicle?.vin || null,
+  uploadedBy: ({ receipt }) => receipt.uploadedByUser
+    ? `${receipt.uploadedByUser.firstName} ${receipt.uploadedByUser.lastName}`
+    : null,
+  baseRate: ({ refund }) => refund.ratePeriod ? refund.baseRate : null,
+  taxIncrease: ({ refund }) => refund.ratePeriod ? refund.increase : null,
+  refundAmount: ({ refund }) => refund.refundAmount,
+  eligible: ({ refund }) => refund.eligible,
+  eligibilityReasons: ({ refund }) => refund.reasons.map(reason => ELIGIBILITY_REASONS[reason].label).join("; "),
+  evidence: ({ receipt }) => EVIDENCE_TYPES[receipt.evidenceType].label,
+  fiscalYear: ({ receipt }) => receipt.fiscalYear,
+  receiptId: ({ receipt }) => receipt.id,
+  image: ({ receipt, imageFile }) => imageFile ?? receipt.imageUrl,
+};
+
+// Decimal places for numeric columns, and whether they are dollar amounts
+const NUMBER_FORMATS: Partial<Record<ExportColumnKey, { decimals: number; currency: boolean }>> = {
+  gallons: { decimals: 3, currency: false },
+  pricePerGallon: { decimals: 3, currency: true },
+  totalAmount: { decimals: 2, currency: true },
+  baseRate: { decimals: 3, currency: true },
+  taxIncrease: { decimals: 3, currency: true },
+  refundAmount: { decimals: 2, currency: true },
+};
+
+function formatCell(column: ExportColumnKey, value: ExportValue): string | number | null {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  const format = NUMBER_FORMATS[column];
+  if (format && typeof value === "number") return value.toFixed(format.decimals);
+  return value;
+}
+
+/**
+ * Parse the `columns` query parameter (comma separated column keys).
+ * Returns the default columns when the parameter is missing.
+ */
+export function parseExportColumns(param: unknown): { columns: ExportColumnKey[]; invalid: string[] } {
+  if (typeof param !== "string" || param.trim() === "") {
+    return { columns: DEFAULT_EXPORT_COLUMNS, invalid: [] };
+  }
+
+  const keys = param.split(",").map(key => key.trim()).filter(Boolean);
+  const invalid = keys.filter(key => !isExportColumn(key));
+  const columns = Array.from(new Set(keys.filter(isExportColumn)));
+  return { columns, invalid };
+}
+
+function sumTotalAmount(rows: ExportRow[]): number {
+  const total = rows.reduce((sum, row) => sum + (parseNumber(row.receipt.totalAmount) ?? 0), 0);
+  return Math.round(total * 100) / 100;
+}
+
+function sumGallons(rows: ExportRow[]): number {
+  const total = rows.reduce((sum, row) => sum + (parseNumber(row.receipt.gallons) ?? 0), 0);
+  return Math.round(total * 1000) / 1000;
+}
+
+/**
+ * Gather a fiscal year's receipts with their vehicle and refund line.
+ * Refunds come from the refund engine (or the filing snapshot for filed
+ * years), so exported amounts always match the app and Form 4923-H.
+ */
+export async function buildExportData(accountId: string, fiscalYear: string, columns: ExportColumnKey[]): Promise<ExportData> {
+  const receipts = (await storage.getAccountReceipts(accountId))
+    .filter(r => r.fiscalYear === fiscalYear)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Joined vehicles carry the encrypted VIN, so use the decrypted vehicle list instead
+  const vehicles = await storage.getAccountVehicles(accountId);
+  const vehicleMap = new Map(vehicles.map(v => [v.id, v]));
+
+  const refunds = await calculateReportRefunds(accountId, receipts);
+  const rows = receipts.map((receipt, index) => ({
+    receipt,
+    vehicle: receipt.vehicleId ? vehicleMap.get(receipt.vehicleId) || null : null,
+    refund: refunds.lines[index],
+  }));
+
+  return {
+    fiscalYear,
+    columns,
+    rows,
+    totals: { ...refunds.totals, gallons: sumGallons(rows), totalAmount: sumTotalAmount(rows) },
+    eligibleTotals: {
+      ...refunds.totals,
+      receiptCount: refunds.totals.eligibleCount,
+      totalAmount: sumTotalAmount(rows.filter(row => row.refund.eligible)),
+    },
+  };
+}
+
+/**
+ * Totals rows appended after the receipts: every receipt, then only the
+ * eligible ones that make up the refund claim.
+ */
+function totalsRows(data: ExportData): ExportValue[][] {
+  const build = (label: string, totals: ExportData["totals"]) => data.columns.map((column, index) => {
+    if (index === 0) return label;
+    if (column === "gallons") return totals.gallons;
+    if (column === "totalAmount") return totals.totalAmount;
+    if (column === "refundAmount") return totals.refundAmount;
+    return null;
+  });
+
+  return [
+    build(`Total (${data.totals.receiptCount} receipts)`, data.totals),
+    build(`Total eligible (${data.eligibleTotals.receiptCount} receipts)`, data.eligibleTotals),
+  ];
+}
+
+// Spreadsheet apps run cells starting with these as formulas, so text that
+// starts with one (a station name like "=HYPERLINK(...)") is prefixed with a
+// quote. Plain numbers such as "-1.50" are left alone.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+function escapeCSV(value: string | number | null): string {
+  if (value === null || value === undefined) return "";
+  let text = value.toString();
+  if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(data: ExportData): string {
+  const header = data.columns.map(column => EXPORT_COLUMNS[column].header);
+  const rows = data.rows.map(row => data.columns.map(column => COLUMN_VALUES[column](row)));
+
+  return [header, ...rows, [], ...totalsRows(data)]
+    .map(row => row.map((value, index) => escapeCSV(formatCell(data.columns[index], value))).join(","))
+    .join("\r\n");
+}
+
+function numberFormatStyle(column: ExportColumnKey): Partial<ExcelJS.Style> {
+  const format = NUMBER_FORMATS[column];
+  if (!format) return {};
+  return { numFmt: `${format.currency ? "$" : ""}0.${"0".repeat(format.decimals)}` };
+}
+
+export async function toXLSX(data: ExportData): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(`FY ${data.fiscalYear}`);
+
+  sheet.columns = data.columns.map(column => ({
+    header: EXPORT_COLUMNS[column].header,
+    key: column,
+    width: Math.max(12, EXPORT_COLUMNS[column].header.length + 2),
+    style: numberFormatStyle(column),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  for (const row of data.rows) {
+    sheet.addRow(data.columns.map(column => {
+      const value = COLUMN_VALUES[column](row);
+      return typeof value === "boolean" ? (value ? "Yes" : "No") : value;
+    }));
+  }
+
+  sheet.addRow([]);
+  for (const totals of totalsRows(data)) {
+    sheet.addRow(totals).font = { bold: true };
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export function toJSON(data: ExportData) {
+  return {
+    fiscalYear: data.fiscalYear,
+    generatedAt: new Date().toISOString(),
+    columns: data.columns.map(key => ({ key, header: EXPORT_COLUMNS[key].header })),
+    receipts: data.rows.map(row =>
+      Object.fromEntries(data.columns.map(column => [column, COLUMN_VALUES[column](row)]))
+    ),
+    totals: {
+      all: data.totals,
+      eligible: data.eligibleTotals,
+    },
+  };
+}
@@ -0,0 +1,267 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import type { Account, Receipt, Vehicle } from "@shared/schema";
+import { getFiscalYearCalendar, formatCalendarDate } from "@shared/filingCalendar";
+import { EVIDENCE_TYPES, MANUAL_EVIDENCE_TYPES } from "@shared/receiptEvidence";
+import { summarizeRefunds, type RefundLine } from "./refundEngine";
+
+export interface Form4923HLine {
+  receipt: Receipt;
+  vehicle: Vehicle | null;
+  // The receipt's line from the refund engine, which every figure on the form comes from
+  refund: RefundLine;
+}
+
+export interface Form4923HData {
+  account: Account;
+  fiscalYear: string;
+  lines: Form4923HLine[];
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const ROW_HEIGHT = 12;
+const SCHEDULE_FONT_SIZE = 7;
+
+const SCHEDULE_COLUMNS: { header: string; width: number; align?: "right" }[] = [
+  { header: "Date", width: 50 },
+  // Evidence code for purchases without a receipt, explained below the schedule
+  { header: "Ev", width: 14 },
+  { header: "Seller Name", width: 93 },
+  { header: "Seller Address", width: 93 },
+  { header: "City", width: 60 },
+  { header: "St", width: 18 },
+  { header: "ZIP", width: 34 },
+  { header: "VIN", width: 72 },
+  { header: "Gallons", width: 36, align: "right" },
+  { header: "Rate", width: 28, align: "right" },
+  { header: "Refund", width: 34, align: "right" },
+];
+
+/**
+ * Generate a filled Missouri Form 4923-H (Highway Use Motor Fuel Refund Claim)
+ * from the account profile and the fiscal year's eligible receipts.
+ *
+ * Page 1 carries the claimant information and refund computation, followed by
+ * the per-receipt schedule which continues onto as many pages as needed.
+ * Manual entries (lost receipts) are marked with their evidence code.
+ *
+ * @param data - Decrypted account profile, fiscal year and eligible receipt lines
+ * @returns PDF document bytes
+ */
+export async function generateForm4923H(data: Form4923HData): Promise<Buffer> {
+  const { account, fiscalYear, lines } = data;
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Form 4923-H - FY ${fiscalYear}`);
+  pdf.setSubject("Missouri Highway Use Motor Fuel Refund Claim");
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  const { totals } = summarizeRefunds(lines.map(line => line.refund));
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Header
+  page.drawText("Form 4923-H", { x: MARGIN, y: y - 16, size: 16, font: bold });
+  page.drawText("Missouri Highway Use Motor Fuel Refund Claim", { x: MARGIN, y: y - 32, size: 11, font });
+  const calendar = getFiscalYearCalendar(fiscalYear);
+  page.drawText(`Claim period: FY ${fiscalYear} (${formatCalendarDate(calendar.startDate)} - ${formatCalendarDate(calendar.endDate)})`, {
+    x: MARGIN,
+    y: y - 46,
+    size: 9,
+    font,
+  });
+  y -= 60;
+
+  // Claimant information
+  y = drawSectionTitle(page, bold, "Claimant Information", y);
+
+  const claimantName = [account.firstName, account.middleInitial, account.lastName].filter(Boolean).join(" ");
+  const spouseName = [account.spouseFirstName, account.spouseMiddleInitial, account.spouseLastName].filter(Boolean).join(" ");
+  const cityStateZip = [account.city, [account.state, account.zipCode].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+
+  const fields: [string, string | null | undefined][] = [
+    ["Name", claimantName],
+    ["Social Security Number", account.ssn],
+    ["Spouse Name", spouseName],
+    ["Spouse Social Security Number", account.spouseSsn],
+    ["Business Name", account.businessName],
+    ["FEIN", account.fein],
+    ["Mailing Address", account.mailingAddress],
+    ["City, State, ZIP", cityStateZip],
+    ["Email Address", account.emailAddress],
+    ["Phone Number", account.phoneNumber],
+    ["Fax Number", account.faxNumber],
+  ];
+
+  const columnWidth = (PAGE_WIDTH - MARGIN * 2) / 2;
+  fields.forEach(([label, value], index) => {
+    const column = index % 2;
+    const x = MARGIN + column * columnWidth;
+    const rowY = y - Math.floor(index / 2) * 24;
+    page.drawText(label, { x, y: rowY - 8, size: 7, font, color: rgb(0.4, 0.4, 0.4) });
+    page.drawText(fitText(value || "-", font, 10, columnWidth - 10), { x, y: rowY - 19, size: 10, font });
+  });
+  y -= Math.ceil(fields.length / 2) * 24 + 8;
+
+  // Refund computation
+  y = drawSectionTitle(page, bold, "Refund Computation", y);
+  const computation: [string, string][] = [
+    ["Number of eligible receipts", totals.eligibleCount.toString()],
+    ["Total gallons purchased in Missouri", totals.gallons.toFixed(3)],
+    ["Total refund claimed", `$${totals.refundAmount.toFixed(2)}`],
+  ];
+  for (const [label, value] of computation) {
+    page.drawText(label, { x: MARGIN, y: y - 10, size: 10, font });
+    page.drawText(value, {
+      x: PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize(value, 10),
+      y: y - 10,
+      size: 10,
+      font: bold,
+    });
+    y -= 16;
+  }
+  y -= 8;
+
+  // Schedule of purchases
+  y = drawSectionTitle(page, bold, "Schedule of Motor Fuel Purchases", y);
+  y = drawScheduleHeader(page, bold, y);
+
+  for (const line of lines) {
+    if (y - ROW_HEIGHT < MARGIN + 20) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      y = drawSectionTitle(page, bold, `Schedule of Motor Fuel Purchases (continued) - FY ${fiscalYear}`, y);
+      y = drawScheduleHeader(page, bold, y);
+    }
+
+    const { receipt, vehicle, refund } = line;
+    const values = [
+      receipt.date,
+      EVIDENCE_TYPES[receipt.evidenceType].formCode,
+      receipt.stationName,
+      receipt.sellerStreet || "",
+      receipt.sellerCity || "",
+      receipt.sellerState || "",
+      receipt.sellerZip || "",
+      vehicle?.vin || "",
+      refund.gallons.toFixed(3),
+      `$${refund.increase.toFixed(3)}`,
+      `$${refund.refundAmount.toFixed(2)}`,
+    ];
+    drawRow(page, font, values, y);
+    y -= ROW_HEIGHT;
+  }
+
+  if (lines.length === 0) {
+    page.drawText("No eligible receipts for this fiscal year.", { x: MARGIN, y: y - 9, size: 8, font });
+    y -= ROW_HEIGHT;
+  }
+
+  // Schedule totals row
+  page.drawLine({
+    start: { x: MARGIN, y: y + 2 },
+    end: { x: PAGE_WIDTH - MARGIN, y: y + 2 },
+    thickness: 0.5,
+  });
+  const totalsRow = SCHEDULE_COLUMNS.map(() => "");
+  totalsRow[0] = "Totals";
+  totalsRow[8] = totals.gallons.toFixed(3);
+  totalsRow[10] = `$${totals.refundAmount.toFixed(2)}`;
+  drawRow(page, bold, totalsRow, y);
+  y -= ROW_HEIGHT;
+
+  if (lines.some(line => line.receipt.evidenceType !== "receipt")) {
+    const legend = MANUAL_EVIDENCE_TYPES
+      .map(type => `${EVIDENCE_TYPES[type].formCode} = ${EVIDENCE_TYPES[type].label.toLowerCase()}`)
+      .join(", ");
+    page.drawText(`Ev: receipt lost, purchase documented by ${legend}. Blank = receipt on file.`, {
+      x: MARGIN,
+      y: y - 9,
+      size: SCHEDULE_FONT_SIZE,
+      font,
+    });
+    y -= ROW_HEIGHT;
+  }
+  y -= 16;
+
+  // Signature block
+  if (y < MARGIN + 70) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  }
+  page.drawText(
+    "Under penalties of perjury, I declare that the information in this claim is true, correct and complete.",
+    { x: MARGIN, y: y - 9, size: 8, font },
+  );
+  y -= 40;
+  for (const label of ["Claimant Signature", "Spouse Signature"]) {
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + 300, y }, thickness: 0.5 });
+    page.drawLine({ start: { x: MARGIN + 340, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5 });
+    page.drawText(label, { x: MARGIN, y: y - 10, size: 7, font });
+    page.drawText("Date", { x: MARGIN + 340, y: y - 10, size: 7, font });
+    y -= 32;
+  }
+
+  // Page numbers
+  const pages = pdf.getPages();
+  pages.forEach((p, index) => {
+    const label = `Form 4923-H  |  FY ${fiscalYear}  |  Page ${index + 1} of ${pages.length}`;
+    p.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 7),
+      y: MARGIN / 2,
+      size: 7,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  });
+
+  return Buffer.from(await pdf.save());
+}
+
+function drawSectionTitle(page: PDFPage, bold: PDFFont, title: string, y: number): number {
+  page.drawText(title, { x: MARGIN, y: y - 11, size: 11, font: bold });
+  page.drawLine({
+    start: { x: MARGIN, y: y - 15 },
+    end: { x: PAGE_WIDTH - MARGIN, y: y - 15 },
+    thickness: 0.75,
+  });
+  return y - 24;
+}
+
+function drawScheduleHeader(page: PDFPage, bold: PDFFont, y: number): number {
+  drawRow(page, bold, SCHEDULE_COLUMNS.map(c => c.header), y);
+  page.drawLine({
+    start: { x: MARGIN, y: y - ROW_HEIGHT + 2 },
+    end: { x: PAGE_WIDTH - MARGIN, y: y - ROW_HEIGHT + 2 },
+    thickness: 0.5,
+  });
+  return y - ROW_HEIGHT;
+}
+
+function drawRow(page: PDFPage, font: PDFFont, values: string[], y: number): void {
+  let x = MARGIN;
+  SCHEDULE_COLUMNS.forEach((column, index) => {
+    const text = fitText(values[index] || "", font, SCHEDULE_FONT_SIZE, column.width - 3);
+    const textX = column.align === "right"
+      ? x + column.width - 3 - font.widthOfTextAtSize(text, SCHEDULE_FONT_SIZE)
+      : x;
+    page.drawText(text, { x: textX, y: y - 9, size: SCHEDULE_FONT_SIZE, font });
+    x += column.width;
+  });
+}
+
+// Truncate text with an ellipsis so it fits in the given width
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  const clean = text.replace(/[^\x20-\x7E]/g, "");
+  if (font.widthOfTextAtSize(clean, size) <= maxWidth) {
+    return clean;
+  }
+  let truncated = clean;
+  while (truncated.length > 0 && font.widthOfTextAtSize(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated}...`;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { processReceiptImage } from "./imageProcessing";
+
+// Fixtures are drawn as SVG and rasterized here, so they stay small and
+// their geometry is known exactly.
+
+// Dark bars standing in for lines of receipt text
+function textLines(x: number, y: number, width: number, height: number, fill = "#000"): string {
+  let bars = "";
+  for (let row = y + 30; row < y + height - 30; row += 24) {
+    bars += `<rect x="${x + 20}" y="${row}" width="${width - 40 - ((row * 7) % 60)}" height="8" fill="${fill}"/>`;
+  }
+  return bars;
+}
+
+function drawPng(width: number, height: number, background: string, body: string): Promise<Buffer> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="${background}"/>${body}</svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+async function dimensions(buffer: Buffer): Promise<[number | undefined, number | undefined]> {
+  const { width, height } = await sharp(buffer).metadata();
+  return [width, height];
+}
+
+describe("processReceiptImage", () => {
+  it("shrinks large photos to the maximum dimension as a smaller JPEG", async () => {
+    const photo = await sharp({
+      create: { width: 1600, height: 1200, channels: 3, background: "#808080", noise: { type: "gaussian", mean: 128, sigma: 30 } },
+    }).png().toBuffer();
+
+    const result = await processReceiptImage(photo);
+    expect(result.mimetype).toBe("image/jpeg");
+    expect(await dimensions(result.buffer)).toEqual([1280, 960]);
+    expect(result.originalSize).toBe(photo.length);
+    expect(result.processedSize).toBe(result.buffer.length);
+    expect(result.processedSize).toBeLessThan(result.originalSize / 2);
+    expect(result.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("does not upscale small images", async () => {
+    const receipt = await drawPng(400, 600, "#fff", textLines(0, 0, 400, 600));
+    expect(await dimensions((await processReceiptImage(receipt)).buffer)).toEqual([400, 600]);
+  });
+
+  describe("crop", () => {
+    it("crops to the receipt with a small margin", async () => {
+      // 300x600 receipt on a 600x800 dark table
+      const onTable = await drawPng(600, 800, "#303030",
+        `<rect x="150" y="100" width="300" height="600" fill="#fff"/>${textLines(150, 100, 300, 600)}`);
+
+      const plain = await processReceiptImage(onTable);
+      const cropped = await processReceiptImage(onTable, { crop: true });
+      // Margins are 2% of each side: 12px across, 16px down
+      expect(await dimensions(cropped.buffer)).toEqual([324, 632]);
+      expect(cropped.processedSize).toBeLessThan(plain.processedSize);
+    });
+
+    it("leaves an image with no background alone", async () => {
+      const receipt = await drawPng(400, 600, "#fff", textLines(0, 0, 400, 600));
+      expect(await dimensions((await processReceiptImage(receipt, { crop: true })).buffer)).toEqual([400, 600]);
+    });
+  });
+
+  describe("deskew", () => {
+    it("rotates tilted text back level", async () => {
+      const straight = await drawPng(400, 600, "#fff", textLines(0, 0, 400, 600));
+      const tilted = await sharp(straight).rotate(5, { background: "#fff" }).png().toBuffer();
+      expect(await dimensions(tilted)).toEqual([451, 633]);
+
+      // Turning the 451x633 canvas back 5 degrees grows it to 504x670
+      const result = await processReceiptImage(tilted, { deskew: true });
+      expect(await dimensions(result.buffer)).toEqual([504, 670]);
+    });
+
+    it("leaves level text alone", async () => {
+      const straight = await drawPng(400, 600, "#fff", textLines(0, 0, 400, 600));
+      expect(await dimensions((await processReceiptImage(straight, { deskew: true })).buffer)).toEqual([400, 600]);
+    });
+  });
+
+  describe("normalize", () => {
+    it("stretches a washed-out receipt to full contrast", async () => {
+      const faded = await drawPng(400, 600, "#8c8c8c", textLines(0, 0, 400, 600, "#646464"));
+
+      const before = (await sharp((await processReceiptImage(faded)).buffer).stats()).channels[0];
+      const result = await processReceiptImage(faded, { normalize: true });
+      const after = (await sharp(result.buffer).stats()).channels[0];
+      expect(before.max - before.min).toBeLessThan(80);
+      expect(after.min).toBeLessThan(10);
+      expect(after.max).toBeGreaterThan(245);
+      expect(await dimensions(result.buffer)).toEqual([400, 600]);
+    });
+  });
+
+  describe("threshold", () => {
+    it("turns a shadowed receipt into black text on white", async () => {
+      const shadowed = await drawPng(400, 600, "url(#shadow)",
+        `<defs><linearGradient id="shadow"><stop offset="0" stop-color="#555"/><stop offset="1" stop-color="#eee"/></linearGradient></defs>` +
+        textLines(0, 0, 400, 600, "#222"));
+
+      const gray = await processReceiptImage(shadowed);
+      const result = await processReceiptImage(shadowed, { threshold: true });
+      const pixels = await sharp(result.buffer).grayscale().raw().toBuffer();
+      const midtones = pixels.filter(value => value > 40 && value < 215).length;
+      expect(midtones / pixels.length).toBeLessThan(0.01);
+      expect(await dimensions(result.buffer)).toEqual([400, 600]);
+      expect(result.processedSize).toBeLessThan(gray.processedSize);
+    });
+  });
+});
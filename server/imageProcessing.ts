@@ -5,18 +5,64 @@ interface ProcessedImage {
   mimetype: string;
   originalSize: number;
   processedSize: number;
+  perceptualHash: string;
 }
 
-interface ProcessingOptions {
+export interface ProcessingOptions {
   maxDimension?: number;
   quality?: number;
   grayscale?: boolean;
+  // Enhancement stage for OCR (each step implies grayscale)
+  crop?: boolean;
+  deskew?: boolean;
+  normalize?: boolean;
+  threshold?: boolean;
 }
 
+// A single-channel image as raw pixel rows
+interface GrayImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// dHash grid: HASH_SIZE x HASH_SIZE comparisons, 64 bits for 8
+const HASH_SIZE = 8;
+
+// Largest skew corrected, in degrees; phone photos are rarely further off
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+
+// Receipt bounds: rows/columns at least this bright are part of the receipt
+const BOUNDS_MIN_BRIGHT_RATIO = 0.3;
+// Crops smaller than this share of the image are assumed to be wrong
+const BOUNDS_MIN_AREA_RATIO = 0.2;
+
+// Adaptive threshold: pixels this much darker than their neighbourhood become ink
+const THRESHOLD_OFFSET = 12;
+
 const DEFAULT_OPTIONS: Required<ProcessingOptions> = {
   maxDimension: 1280,
   quality: 85,
   grayscale: true,
+  crop: false,
+  deskew: false,
+  normalize: false,
+  threshold: false,
+};
+
+/**
+ * Options for the copy of a receipt sent to transcription: larger than the
+ * stored image, with every enhancement step on. The stored image stays a
+ * plain grayscale photo so it still looks like the receipt.
+ */
+export const TRANSCRIPTION_OPTIONS: ProcessingOptions = {
+  maxDimension: 1600,
+  quality: 90,
+  crop: true,
+  deskew: true,
+  normalize: true,
+  threshold: true,
 };
 
 /**
@@ -26,7 +72,12 @@ const DEFAULT_OPTIONS: Required<ProcessingOptions> = {
  * 1. Auto-rotate based on EXIF orientation (then strip EXIF)
  * 2. Resize so longest side is maxDimension pixels (no upscaling)
  * 3. Convert to grayscale (optional, default true)
- * 4. Convert to JPEG at specified quality
+ * 4. Enhance for OCR (optional, default off): crop to the receipt, deskew,
+ *    normalize contrast and apply an adaptive threshold
+ * 5. Convert to JPEG at specified quality
+ *
+ * The perceptual hash is taken from the processed image, so the same receipt
+ * uploaded twice hashes alike whatever its original size or format.
  * 
  * @param inputBuffer - The original image buffer
  * @param options - Processing options
@@ -64,8 +115,11 @@ export async function processReceiptImage(
     });
   }
 
-  // Apply grayscale if enabled
-  if (opts.grayscale) {
+  const enhance = opts.crop || opts.deskew || opts.normalize || opts.threshold;
+  if (enhance) {
+    pipeline = fromGray(await enhanceReceiptImage(await toGray(pipeline), opts));
+  } else if (opts.grayscale) {
+    // Apply grayscale if enabled
     pipeline = pipeline.grayscale();
   }
 
@@ -82,7 +136,243 @@ export async function processReceiptImage(
     mimetype: "image/jpeg",
     originalSize,
     processedSize: processedBuffer.length,
+    perceptualHash: await computePerceptualHash(processedBuffer),
+  };
+}
+
+async function toGray(pipeline: sharp.Sharp): Promise<GrayImage> {
+  const { data, info } = await pipeline
+    .removeAlpha()
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+function fromGray(image: GrayImage): sharp.Sharp {
+  return sharp(image.data, { raw: { width: image.width, height: image.height, channels: 1 } });
+}
+
+/**
+ * Run the enhancement steps enabled in `options`. Each step works on the
+ * output of the one before, so cropping first keeps the table or car seat
+ * around the receipt out of the skew and threshold estimates.
+ */
+async function enhanceReceiptImage(image: GrayImage, options: Required<ProcessingOptions>): Promise<GrayImage> {
+  let current = image;
+
+  if (options.crop) {
+    const bounds = findReceiptBounds(current);
+    if (bounds) {
+      current = await toGray(fromGray(current).extract(bounds));
+    }
+  }
+
+  if (options.deskew) {
+    const angle = estimateSkewAngle(current);
+    if (angle !== 0) {
+      // Rotate against the skew; corners filled with white paper
+      current = await toGray(fromGray(current).rotate(-angle, { background: "#ffffff" }));
+    }
+  }
+
+  if (options.normalize) {
+    // Stretch the darkest 1% to black and the brightest 1% to white
+    current = await toGray(fromGray(current).normalize({ lower: 1, upper: 99 }));
+  }
+
+  if (options.threshold) {
+    current = await adaptiveThreshold(current);
+  }
+
+  return current;
+}
+
+/**
+ * Otsu's method: the gray level that best separates the image into a dark
+ * and a light class (ink and paper, or paper and background).
+ */
+function otsuThreshold(data: Buffer): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i++) {
+    histogram[data[i]]++;
+  }
+
+  let total = 0;
+  for (let level = 0; level < 256; level++) total += level * histogram[level];
+
+  let best = 0;
+  let bestVariance = -1;
+  let darkCount = 0;
+  let darkSum = 0;
+  for (let level = 0; level < 256; level++) {
+    darkCount += histogram[level];
+    if (darkCount === 0) continue;
+    const lightCount = data.length - darkCount;
+    if (lightCount === 0) break;
+
+    darkSum += level * histogram[level];
+    const darkMean = darkSum / darkCount;
+    const lightMean = (total - darkSum) / lightCount;
+    const variance = darkCount * lightCount * (darkMean - lightMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+}
+
+/**
+ * Bounding box of the receipt: the paper is the brightest thing in the
+ * photo, so take the rows and columns that are mostly brighter than the
+ * Otsu threshold. Returns null when there is no clear background to remove.
+ */
+function findReceiptBounds(image: GrayImage): sharp.Region | null {
+  const { data, width, height } = image;
+  const threshold = otsuThreshold(data);
+  const rowBright = new Array<number>(height).fill(0);
+  const colBright = new Array<number>(width).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] > threshold) {
+        rowBright[y]++;
+        colBright[x]++;
+      }
+    }
+  }
+
+  const rows = rowBright.map(count => count / width >= BOUNDS_MIN_BRIGHT_RATIO);
+  const cols = colBright.map(count => count / height >= BOUNDS_MIN_BRIGHT_RATIO);
+  const top = rows.indexOf(true);
+  const bottom = rows.lastIndexOf(true);
+  const left = cols.indexOf(true);
+  const right = cols.lastIndexOf(true);
+  if (top < 0 || left < 0) return null;
+
+  // Keep a small margin so text on the edge of the paper is not clipped
+  const marginX = Math.round(width * 0.02);
+  const marginY = Math.round(height * 0.02);
+  const region = {
+    left: Math.max(left - marginX, 0),
+    top: Math.max(top - marginY, 0),
+    width: Math.min(right + marginX, width - 1) - Math.max(left - marginX, 0) + 1,
+    height: Math.min(bottom + marginY, height - 1) - Math.max(top - marginY, 0) + 1,
   };
+
+  const areaRatio = (region.width * region.height) / (width * height);
+  if (areaRatio < BOUNDS_MIN_AREA_RATIO || areaRatio > 0.95) return null;
+  return region;
+}
+
+/**
+ * Skew of the text lines in degrees (positive when lines fall to the right).
+ * Dark pixels are projected onto rows at each candidate angle; at the true
+ * skew the lines stack up and the row histogram is sharpest.
+ */
+function estimateSkewAngle(image: GrayImage): number {
+  const { data, width, height } = image;
+  const threshold = otsuThreshold(data);
+
+  // Sample ink pixels on a grid so large images cost the same as small ones.
+  // The outer 20% is skipped: after cropping a tilted receipt its corners
+  // still hold background, which would swamp the text lines.
+  const step = Math.max(1, Math.floor(Math.max(width, height) / 500));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = Math.floor(height * 0.2); y < height * 0.8; y += step) {
+    for (let x = Math.floor(width * 0.2); x < width * 0.8; x += step) {
+      if (data[y * width + x] < threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length < 100) return 0;
+
+  const bins = Math.ceil((width + height) / step) + 1;
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const histogram = new Array<number>(bins).fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      const row = Math.floor((ys[i] * cos - xs[i] * sin + width) / step);
+      histogram[Math.min(Math.max(row, 0), bins - 1)]++;
+    }
+    const score = histogram.reduce((sum, count) => sum + count * count, 0);
+    // Prefer the smaller correction when scores tie
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+/**
+ * Adaptive threshold: each pixel is compared with a blurred copy of its
+ * neighbourhood rather than one global level, so faded print next to a
+ * shadow or crease still comes out black on white.
+ */
+async function adaptiveThreshold(image: GrayImage): Promise<GrayImage> {
+  const sigma = Math.max(Math.round(Math.min(image.width, image.height) / 60), 3);
+  const { data: local } = await toGray(fromGray(image).blur(sigma));
+
+  const output = Buffer.alloc(image.data.length);
+  for (let i = 0; i < image.data.length; i++) {
+    output[i] = image.data[i] < local[i] - THRESHOLD_OFFSET ? 0 : 255;
+  }
+  return { data: output, width: image.width, height: image.height };
+}
+
+/**
+ * Difference hash (dHash) of an image as 16 hex characters. The image is
+ * shrunk to a 9x8 grayscale grid and each bit records whether a pixel is
+ * brighter than its right-hand neighbour, so re-encoding, resizing and small
+ * exposure changes barely move the hash.
+ */
+export async function computePerceptualHash(imageBuffer: Buffer): Promise<string> {
+  const pixels = await sharp(imageBuffer)
+    .rotate()
+    .removeAlpha()
+    .grayscale()
+    .resize(HASH_SIZE + 1, HASH_SIZE, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = "";
+  let nibble = 0;
+  for (let row = 0; row < HASH_SIZE; row++) {
+    for (let col = 0; col < HASH_SIZE; col++) {
+      const offset = row * (HASH_SIZE + 1) + col;
+      nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+      if ((row * HASH_SIZE + col) % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of bits that differ between two perceptual hashes. 0 means the
+ * images look the same; unrelated images differ in about half the bits.
+ */
+export function getHashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
 }
 
 /**
@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import * as stripeService from "./stripe";
+import { startJobWorker } from "./jobs";
 
 const app = express();
 
@@ -109,5 +110,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startJobWorker();
   });
 })();
@@ -0,0 +1,237 @@
+import { storage } from "./storage";
+import { processReceipt, retranscribeReceipt, markReceiptRetrying, markReceiptFailed } from "./receiptProcessing";
+import { runAuditPacketJob, failAuditPacketJob } from "./auditPacket";
+import { sendInvitationEmail } from "./auth";
+import { purgeExpiredReceipt, getPurgeCutoff } from "./receiptTrash";
+import { processBulkUploadFile, failBulkUploadFile } from "./receiptUploads";
+import type { Job } from "@shared/schema";
+
+// Payload of each job type
+export interface JobPayloads {
+  transcribe_receipt: { receiptId: string };
+  retranscribe_receipt: { receiptId: string };
+  audit_packet: { exportJobId: string };
+  invitation_email: { toEmail: string; accountName: string; role: string; inviterName?: string };
+  purge_receipt: { receiptId: string };
+  bulk_upload_file: { fileId: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+interface JobHandler<P> {
+  run(payload: P): Promise<void>;
+  // Called when an attempt fails and the job is rescheduled
+  onRetry?(payload: P, error: string, retryAt: Date): Promise<void>;
+  // Called when the last attempt fails and the job is dead-lettered
+  onDeadLetter?(payload: P, error: string): Promise<void>;
+}
+
+const JOB_HANDLERS: { [T in JobType]: JobHandler<JobPayloads[T]> } = {
+  transcribe_receipt: {
+    run: ({ receiptId }) => processReceipt(receiptId),
+    onRetry: ({ receiptId }, error, retryAt) => markReceiptRetrying(receiptId, error, retryAt),
+    onDeadLetter: ({ receiptId }, error) => markReceiptFailed(receiptId, error),
+  },
+  retranscribe_receipt: {
+    run: ({ receiptId }) => retranscribeReceipt(receiptId),
+    onRetry: ({ receiptId }, error, retryAt) => markReceiptRetrying(receiptId, error, retryAt),
+    onDeadLetter: ({ receiptId }, error) => markReceiptFailed(receiptId, error),
+  },
+  audit_packet: {
+    run: ({ exportJobId }) => runAuditPacketJob(exportJobId),
+    onDeadLetter: ({ exportJobId }, error) => failAuditPacketJob(exportJobId, error),
+  },
+  invitation_email: {
+    run: ({ toEmail, accountName, role, inviterName }) => sendInvitationEmail(toEmail, accountName, role, inviterName),
+  },
+  purge_receipt: {
+    run: ({ receiptId }) => purgeExpiredReceipt(receiptId),
+  },
+  bulk_upload_file: {
+    run: ({ fileId }) => processBulkUploadFile(fileId),
+    onDeadLetter: ({ fileId }, error) => failBulkUploadFile(fileId, error),
+  },
+};
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// A running job's worker refreshes its lock this often, however long the job
+// takes (a large audit packet can run for many minutes)
+const JOB_HEARTBEAT_MS = 60 * 1000;
+
+// A job whose lock has not been refreshed for this long has lost its worker
+const STALE_JOB_MS = 5 * JOB_HEARTBEAT_MS;
+
+// Receipts uploaded before this long ago that are still pending are swept on boot
+const STUCK_RECEIPT_MS = 60 * 1000;
+
+// How often the trash is checked for receipts past their retention period
+const TRASH_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let draining = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+export interface EnqueueOptions {
+  // Entity the job works on; a job is not queued twice for the same key
+  key?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Queue a job and wake the worker. If a pending or running job already
+ * exists for `options.key`, that job is returned instead.
+ */
+export async function enqueueJob<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): Promise<Job> {
+  if (options.key) {
+    const existing = await storage.getActiveJobByKey(options.key);
+    if (existing) return existing;
+  }
+
+  const job = await storage.createJob({
+    type,
+    payload,
+    key: options.key ?? null,
+    maxAttempts: options.maxAttempts,
+    runAt: options.runAt,
+  });
+  drainQueue();
+  return job;
+}
+
+/**
+ * Give a dead-lettered job a fresh set of attempts. Returns undefined if the
+ * job does not exist or is not dead.
+ */
+export async function retryDeadJob(jobId: string): Promise<Job | undefined> {
+  const job = await storage.getJob(jobId);
+  if (!job || job.status !== "dead") return undefined;
+
+  const retried = await storage.updateJob(jobId, { status: "pending", attempts: 0, runAt: new Date(), completedAt: null });
+  drainQueue();
+  return retried;
+}
+
+// Exponential backoff: 30s, 1m, 2m, 4m, ... capped at an hour
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = JOB_HANDLERS[job.type as JobType] as JobHandler<unknown> | undefined;
+  if (!handler) {
+    await storage.updateJob(job.id, { status: "dead", lastError: `Unknown job type: ${job.type}`, completedAt: new Date() });
+    return;
+  }
+
+  const heartbeat = setInterval(() => {
+    storage.touchJob(job.id).catch(error => console.error(`Error refreshing lock on job ${job.id}:`, error));
+  }, JOB_HEARTBEAT_MS);
+
+  try {
+    await handler.run(job.payload);
+    await storage.updateJob(job.id, { status: "completed", lockedAt: null, lastError: null, completedAt: new Date() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    if (job.attempts >= job.maxAttempts) {
+      console.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts:`, error);
+      await storage.updateJob(job.id, { status: "dead", lockedAt: null, lastError: message, completedAt: new Date() });
+      await handler.onDeadLetter?.(job.payload, message);
+      return;
+    }
+
+    const retryAt = new Date(Date.now() + getRetryDelay(job.attempts));
+    console.error(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed, retrying at ${retryAt.toISOString()}:`, error);
+    await storage.updateJob(job.id, { status: "pending", lockedAt: null, lastError: message, runAt: retryAt });
+    await handler.onRetry?.(job.payload, message, retryAt);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Run due jobs one at a time until the queue is empty
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    let job: Job | undefined;
+    while ((job = await storage.claimNextJob())) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error("Error running background jobs:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+// Requeue jobs whose worker stopped heartbeating, or dead-letter them if that
+// was their last attempt
+async function requeueStaleJobs(): Promise<void> {
+  const lockedBefore = new Date(Date.now() - STALE_JOB_MS);
+  const requeued = await storage.requeueStaleJobs(lockedBefore);
+  for (const job of requeued) {
+    console.log(`Requeued stale job ${job.id} (${job.type})`);
+  }
+
+  const error = "The worker stopped while running the last attempt";
+  const dead = await storage.deadLetterStaleJobs(lockedBefore, error);
+  for (const job of dead) {
+    console.error(`Job ${job.id} (${job.type}) stalled after ${job.attempts} attempts`);
+    const handler = JOB_HANDLERS[job.type as JobType] as JobHandler<unknown> | undefined;
+    await handler?.onDeadLetter?.(job.payload, error);
+  }
+}
+
+/**
+ * Queue transcription for receipts left pending or processing without a job,
+ * e.g. uploads from before the job queue or a lost enqueue.
+ */
+async function recoverStuckReceipts(): Promise<void> {
+  const receipts = await storage.getStuckReceipts(new Date(Date.now() - STUCK_RECEIPT_MS));
+  for (const receipt of receipts) {
+    const key = `receipt:${receipt.id}`;
+    if (await storage.getActiveJobByKey(key)) continue;
+
+    await storage.updateReceipt(receipt.id, { processingStatus: "pending" });
+    await enqueueJob("transcribe_receipt", { receiptId: receipt.id }, { key });
+    console.log(`Recovered stuck receipt ${receipt.id}`);
+  }
+}
+
+// Queue a purge for each trashed receipt past its retention period
+async function queueTrashPurges(): Promise<void> {
+  const receipts = await storage.getExpiredTrashedReceipts(getPurgeCutoff());
+  for (const receipt of receipts) {
+    await enqueueJob("purge_receipt", { receiptId: receipt.id }, { key: `receipt-purge:${receipt.id}` });
+  }
+}
+
+/**
+ * Start the background worker: sweep work interrupted by the last shutdown,
+ * then poll the job table for due jobs and the trash for expired receipts.
+ */
+export async function startJobWorker(): Promise<void> {
+  if (pollTimer) return;
+
+  try {
+    await requeueStaleJobs();
+    await recoverStuckReceipts();
+    await queueTrashPurges();
+  } catch (error) {
+    console.error("Error recovering background jobs:", error);
+  }
+
+  pollTimer = setInterval(() => {
+    requeueStaleJobs()
+      .catch(error => console.error("Error requeueing stale jobs:", error))
+      .finally(() => drainQueue());
+  }, POLL_INTERVAL_MS);
+  setInterval(() => {
+    queueTrashPurges().catch(error => console.error("Error queueing trash purges:", error));
+  }, TRASH_SWEEP_INTERVAL_MS);
+  drainQueue();
+}
@@ -29,10 +29,15 @@ export class ObjectStorageService {
     return ".private";
   }
 
-  async uploadObject(fileBuffer: Buffer, contentType: string, accountId: string): Promise<string> {
+  async uploadObject(
+    fileBuffer: Buffer,
+    contentType: string,
+    accountId: string,
+    folder: string = "receipts",
+    objectId: string = randomUUID()
+  ): Promise<string> {
     const privateObjectDir = this.getPrivateObjectDir();
-    const objectId = randomUUID();
-    const objectPath = `${privateObjectDir}/${accountId}/receipts/${objectId}`;
+    const objectPath = `${privateObjectDir}/${accountId}/${folder}/${objectId}`;
 
     await objectStorageClient.uploadFromBytes(objectPath, fileBuffer);
 
@@ -42,6 +47,25 @@ export class ObjectStorageService {
     return objectPath;
   }
 
+  // Upload a file from local disk, for output too large to hold in memory
+  async uploadObjectFromFile(
+    filePath: string,
+    contentType: string,
+    accountId: string,
+    folder: string = "receipts",
+    objectId: string = randomUUID()
+  ): Promise<string> {
+    const objectPath = `${this.getPrivateObjectDir()}/${accountId}/${folder}/${objectId}`;
+
+    const result = await objectStorageClient.uploadFromFilename(objectPath, filePath);
+    if (!result.ok) {
+      throw new Error(`Failed to upload object to storage: ${result.error}`);
+    }
+
+    await setObjectMetadata(objectPath, { contentType });
+    return objectPath;
+  }
+
   async downloadObjectAsBytes(objectPath: string): Promise<Buffer> {
     const exists = await objectStorageClient.exists(objectPath);
     if (!exists) {
@@ -128,6 +152,11 @@ export class ObjectStorageService {
     return objectEntityPath;
   }
 
+  // Storage path of an object from its serving URL (absolute, as stored on receipts, or relative)
+  async getObjectPathFromUrl(url: string): Promise<string> {
+    return this.getObjectEntityFile(new URL(url, "http://localhost").pathname);
+  }
+
   normalizeObjectPath(rawPath: string): string {
     const privateDir = this.getPrivateObjectDir();
     
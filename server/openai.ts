@@ -1,6 +1,7 @@
 // Blueprint reference: javascript_openai_ai_integrations
 import OpenAI from "openai";
 import { AiTranscription, aiTranscriptionSchema } from "@shared/schema";
+import type { ReceiptTranscriber } from "./transcription";
 
 // This is using Replit's AI Integrations service, which provides OpenAI-compatible API access without requiring your own OpenAI API key.
 const openai = new OpenAI({
@@ -8,7 +9,7 @@ const openai = new OpenAI({
   apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
 });
 
-export async function transcribeReceipt(imageBuffer: Buffer, mimeType: string): Promise<AiTranscription> {
+async function transcribeWithVisionModel(imageBuffer: Buffer, mimeType: string): Promise<AiTranscription> {
   const prompt = `You are analyzing a US gas station receipt image. Extract the following information and return ONLY a valid JSON object with these exact fields:
 
 FIELDS TO EXTRACT:
@@ -21,6 +22,8 @@ FIELDS TO EXTRACT:
 - gallons: Number of gallons purchased (as a number with up to 3 decimal places, e.g., 12.345 or 31.23)
 - pricePerGallon: Price per gallon (as a number with up to 3 decimal places, e.g., 2.459)
 - totalAmount: Total amount paid (as a number with up to 2 decimal places)
+- fuelType: "Gasoline" or "Diesel" based on the product line (e.g., UNL, REG, PLUS, PREM, E10 = "Gasoline"; DSL, DIESEL = "Diesel"), or null if not shown
+- fields: An object with one entry per field above (date, stationName, sellerStreet, sellerCity, sellerState, sellerZip, gallons, pricePerGallon, totalAmount, fuelType). Each entry is { "confidence": number, "rawText": string or null } where confidence is 0 to 1 (see CONFIDENCE SCORES below) and rawText is the exact text printed on the receipt that the value was read from, or null if the field is not on the receipt
 
 DATE PARSING (CRITICAL - these are US receipts):
 All receipts are from the United States. Dates on US receipts typically use these formats:
@@ -50,6 +53,12 @@ CONFIDENCE RULES:
 - For numeric fields (gallons, pricePerGallon, totalAmount): If partially visible, make your best estimate based on what's readable.
 - For address fields: Only include if clearly visible on the receipt, otherwise omit or return null.
 
+CONFIDENCE SCORES:
+- 0.9 to 1: printed clearly and read without doubt
+- 0.7 to 0.9: readable, but faded, partly obscured or slightly ambiguous
+- below 0.7: estimated, inferred from other fields, or hard to read
+- 0: the field is not on the receipt (value is null)
+
 Return ONLY the JSON object, no additional text or explanation.`;
 
   // Convert buffer to base64 data URL
@@ -89,3 +98,9 @@ Return ONLY the JSON object, no additional text or explanation.`;
     throw new Error("Invalid AI response format");
   }
 }
+
+export const openaiTranscriber: ReceiptTranscriber = {
+  name: "openai",
+  isAvailable: () => !!process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+  transcribe: transcribeWithVisionModel,
+};
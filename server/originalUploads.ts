@@ -0,0 +1,58 @@
+import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { encryptBuffer, decryptBuffer } from "./encryption";
+import type { InsertReceipt, Receipt } from "@shared/schema";
+
+// Originals are encrypted at rest unless ENCRYPT_ORIGINAL_UPLOADS is "false"
+function shouldEncryptOriginals(): boolean {
+  return process.env.ENCRYPT_ORIGINAL_UPLOADS !== "false";
+}
+
+// Stored next to the processed image: .private/{accountId}/receipts/{objectId}-original
+export function originalObjectId(objectId: string): string {
+  return `${objectId}-original`;
+}
+
+/**
+ * Keep the upload exactly as received, for audit copies of receipts the
+ * grayscale version no longer shows clearly. Returns the receipt columns
+ * that record where it is.
+ */
+export async function storeOriginalUpload(
+  fileBuffer: Buffer,
+  contentType: string,
+  accountId: string,
+  objectId: string
+): Promise<Pick<InsertReceipt, "originalImagePath" | "originalImageType" | "originalImageEncrypted">> {
+  const encrypted = shouldEncryptOriginals();
+  const objectPath = await new ObjectStorageService().uploadObject(
+    encrypted ? encryptBuffer(fileBuffer) : fileBuffer,
+    encrypted ? "application/octet-stream" : contentType,
+    accountId,
+    "receipts",
+    originalObjectId(objectId)
+  );
+
+  return {
+    originalImagePath: objectPath,
+    originalImageType: contentType,
+    originalImageEncrypted: encrypted,
+  };
+}
+
+// The original upload of a receipt, decrypted. Throws ObjectNotFoundError if it has none.
+export async function readOriginalUpload(receipt: Receipt): Promise<{ buffer: Buffer; contentType: string }> {
+  if (!receipt.originalImagePath) {
+    throw new ObjectNotFoundError();
+  }
+
+  const stored = await new ObjectStorageService().downloadObjectAsBytes(receipt.originalImagePath);
+  return {
+    buffer: receipt.originalImageEncrypted ? decryptBuffer(stored) : stored,
+    contentType: receipt.originalImageType || "application/octet-stream",
+  };
+}
+
+export async function deleteOriginalUpload(receipt: Receipt): Promise<void> {
+  if (!receipt.originalImagePath) return;
+  await new ObjectStorageService().deleteObject(receipt.originalImagePath);
+}
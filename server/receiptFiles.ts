@@ -0,0 +1,107 @@
+import { createRequire } from "module";
+import path from "path";
+import convertHeic from "heic-convert";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { ReceiptFileType } from "@shared/receiptFiles";
+
+// PDF pages are rendered this wide, enough for OCR of small receipt print
+const PDF_RENDER_WIDTH = 1600;
+const PDF_MAX_SCALE = 4;
+
+// A text layer shorter than this (e.g. just a scanner's page header) is not trusted
+const MIN_TEXT_LAYER_CHARS = 40;
+
+// Fonts a PDF references without embedding, shipped with pdfjs
+const require = createRequire(import.meta.url);
+const STANDARD_FONT_DATA_URL = path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts") + path.sep;
+
+// pdfjs types its canvas factory as Object; under Node it creates @napi-rs/canvas canvases
+interface NodeCanvasFactory {
+  create(width: number, height: number): {
+    canvas: { width: number; height: number; toBuffer(mimeType: "image/png"): Buffer };
+    context: CanvasRenderingContext2D;
+  };
+}
+
+async function loadPdf(buffer: Buffer) {
+  return getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    isEvalSupported: false,
+  }).promise;
+}
+
+// Render the first page of a PDF to PNG
+async function renderPdfFirstPage(buffer: Buffer): Promise<Buffer> {
+  const pdf = await loadPdf(buffer);
+  try {
+    const page = await pdf.getPage(1);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.min(PDF_RENDER_WIDTH / baseViewport.width, PDF_MAX_SCALE) });
+
+    const { canvas, context } = (pdf.canvasFactory as NodeCanvasFactory).create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    // Receipts are printed on white; the canvas starts transparent
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas.toBuffer("image/png");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Text layer of the first page of a PDF, one line per printed line. Empty
+ * for scanned PDFs, which are images with no text.
+ */
+export async function extractPdfText(buffer: Buffer): Promise<string> {
+  const pdf = await loadPdf(buffer);
+  try {
+    const page = await pdf.getPage(1);
+    const content = await page.getTextContent();
+
+    // Group text runs by baseline so columns on the same line stay together
+    const lines = new Map<number, { x: number; text: string }[]>();
+    for (const item of content.items) {
+      if (!("str" in item) || !item.str.trim()) continue;
+      const { str, transform } = item as TextItem;
+      const y = Math.round(transform[5]);
+      const line = lines.get(y) ?? [];
+      line.push({ x: transform[4], text: str });
+      lines.set(y, line);
+    }
+
+    // PDF y runs bottom to top
+    return Array.from(lines.entries())
+      .sort(([a], [b]) => b - a)
+      .map(([, runs]) => runs.sort((a, b) => a.x - b.x).map(run => run.text).join(" "))
+      .join("\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Whether a PDF's text layer has enough in it to parse instead of running OCR
+export function hasTextLayer(text: string): boolean {
+  return text.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * An image sharp can decode for an uploaded receipt file: HEIC is converted
+ * to JPEG and the first page of a PDF is rendered to PNG. Other images are
+ * returned as they are.
+ */
+export async function decodeReceiptFile(buffer: Buffer, type: ReceiptFileType): Promise<{ image: Buffer; mimeType: string }> {
+  switch (type) {
+    case "image/heic":
+    case "image/heif": {
+      const jpeg = await convertHeic({ buffer: new Uint8Array(buffer), format: "JPEG", quality: 0.92 });
+      return { image: Buffer.from(jpeg), mimeType: "image/jpeg" };
+    }
+    case "application/pdf":
+      return { image: await renderPdfFirstPage(buffer), mimeType: "image/png" };
+    default:
+      return { image: buffer, mimeType: type };
+  }
+}
@@ -0,0 +1,282 @@
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import { getObjectMetadata } from "./objectAcl";
+import { transcribeReceipt, PDF_TEXT_PROVIDER, type TranscriptionResult } from "./transcription";
+import { parseReceiptText } from "./tesseract";
+import { decodeReceiptFile, extractPdfText, hasTextLayer } from "./receiptFiles";
+import { normalizeFuelType } from "./taxRates";
+import { getReceiptWarnings, getValidationReset } from "./receiptValidation";
+import { findTranscribedDuplicate } from "./duplicates";
+import { updateReceiptWithRevision } from "./receiptRevisions";
+import { getLockingClaim } from "./claims";
+import { readOriginalUpload } from "./originalUploads";
+import { processReceiptImage, TRANSCRIPTION_OPTIONS } from "./imageProcessing";
+import { needsReview } from "@shared/confidence";
+import { getReceiptFileType, type ReceiptFileType } from "@shared/receiptFiles";
+import { getFiscalYear } from "@shared/filingCalendar";
+import type {
+  AiTranscription,
+  FieldConfidenceMap,
+  InsertReceipt,
+  Receipt,
+  TranscriptionField,
+  TranscriptionProposal,
+} from "@shared/schema";
+
+const REQUIRED_FIELDS: TranscriptionField[] = ["date", "stationName"];
+
+// Receipt column values for a transcription; null where nothing was read
+function toReceiptValues(transcription: AiTranscription): Record<TranscriptionField, string | null> {
+  return {
+    date: transcription.date,
+    stationName: transcription.stationName || null,
+    sellerStreet: transcription.sellerStreet ?? null,
+    sellerCity: transcription.sellerCity ?? null,
+    sellerState: transcription.sellerState ?? null,
+    sellerZip: transcription.sellerZip ?? null,
+    fuelType: normalizeFuelType(transcription.fuelType),
+    gallons: transcription.gallons?.toString() ?? null,
+    pricePerGallon: transcription.pricePerGallon?.toString() ?? null,
+    totalAmount: transcription.totalAmount?.toString() ?? null,
+  };
+}
+
+// The sharpest copy of a receipt: the original upload if one was kept, else the stored image
+async function readSourceFile(receipt: Receipt): Promise<{ file: Buffer; type: ReceiptFileType }> {
+  if (receipt.originalImagePath) {
+    try {
+      const { buffer, contentType } = await readOriginalUpload(receipt);
+      return { file: buffer, type: getReceiptFileType(contentType, receipt.originalImagePath) ?? "image/jpeg" };
+    } catch (error) {
+      console.error(`Original image of receipt ${receipt.id} could not be read, using the stored image:`, error);
+    }
+  }
+
+  if (!receipt.imageUrl) {
+    throw new Error(`Receipt ${receipt.id} is a manual entry with no image`);
+  }
+
+  const objectStorageService = new ObjectStorageService();
+  const objectPath = await objectStorageService.getObjectPathFromUrl(receipt.imageUrl);
+  const file = await objectStorageService.downloadObjectAsBytes(objectPath);
+  const contentType = (await getObjectMetadata(objectPath))?.contentType;
+  return { file, type: getReceiptFileType(contentType, undefined) ?? "image/jpeg" };
+}
+
+/**
+ * Transcribe a receipt from its stored files. PDFs with a text layer are
+ * parsed directly; everything else is decoded to an image, enhanced for OCR
+ * and sent to the transcription providers.
+ */
+async function transcribeStoredImage(receipt: Receipt): Promise<TranscriptionResult> {
+  const { file, type } = await readSourceFile(receipt);
+
+  if (type === "application/pdf") {
+    const text = await extractPdfText(file);
+    if (hasTextLayer(text)) {
+      return { transcription: parseReceiptText(text), provider: PDF_TEXT_PROVIDER, failures: [] };
+    }
+  }
+
+  let { image, mimeType } = await decodeReceiptFile(file, type);
+  try {
+    const enhanced = await processReceiptImage(image, TRANSCRIPTION_OPTIONS);
+    image = enhanced.buffer;
+    mimeType = enhanced.mimetype;
+  } catch (error) {
+    console.error(`Enhancing receipt ${receipt.id} failed, transcribing the unenhanced image:`, error);
+  }
+
+  // Transcribe with the account's preferred provider, falling back to the others
+  const account = await storage.getAccountById(receipt.accountId);
+  return transcribeReceipt(image, mimeType, account?.transcriptionProvider);
+}
+
+/**
+ * The pass every transcription gets once its values are on the receipt:
+ * arithmetic and plausibility warnings, duplicate detection and the review
+ * flag. Takes the receipt as it is about to be saved; one that is still
+ * validated stays out of the review queue.
+ *
+ * @param readDate - Date the transcription read, or null when the receipt's date is a stand-in
+ */
+async function checkTranscription(
+  receipt: Receipt,
+  readDate: string | null
+): Promise<Pick<InsertReceipt, "validationWarnings" | "duplicateOfId" | "needsReview">> {
+  const validationWarnings = await getReceiptWarnings({ ...receipt, processingStatus: "completed" });
+
+  // Flag a second upload of the same purchase, or clear an image hash match
+  // the transcription shows to be a different purchase
+  const duplicateOfId = await findTranscribedDuplicate(receipt, { ...receipt, readDate });
+
+  return {
+    validationWarnings,
+    duplicateOfId,
+    needsReview: !receipt.validated && needsReview(receipt.fieldConfidence),
+  };
+}
+
+/**
+ * Transcribe a receipt's image and save the extracted fields. Runs as a
+ * `transcribe_receipt` job; errors are thrown so the job can be retried.
+ * Receipts that have already been transcribed are left alone.
+ *
+ * A receipt dated in a fiscal year whose claim has been filed is marked
+ * failed instead of being added to that year; it can be reprocessed once
+ * the claim is reopened as an amendment.
+ */
+export async function processReceipt(receiptId: string): Promise<void> {
+  const receipt = await storage.getReceipt(receiptId);
+  if (!receipt || receipt.processingStatus === "completed") {
+    return;
+  }
+
+  await storage.updateReceipt(receiptId, { processingStatus: "processing" });
+  const { transcription, provider } = await transcribeStoredImage(receipt);
+  const values = toReceiptValues(transcription);
+
+  // Handle nullable date - use today's date as fallback if AI couldn't read the date
+  const extractedDate = values.date || new Date().toISOString().split('T')[0];
+  const fiscalYear = getFiscalYear(extractedDate);
+  if (await getLockingClaim(receipt.accountId, fiscalYear)) {
+    await storage.updateReceipt(receiptId, {
+      processingStatus: "failed",
+      processingError: `Dated ${extractedDate}, in fiscal year ${fiscalYear}, which has already been filed. Reopen the claim as an amendment and reprocess this receipt to include it.`,
+    });
+    console.log(`Receipt ${receiptId} is dated in filed fiscal year ${fiscalYear}; not added`);
+    return;
+  }
+
+  const checks = await checkTranscription({
+    ...receipt,
+    date: extractedDate,
+    stationName: transcription.stationName,
+    gallons: values.gallons,
+    pricePerGallon: values.pricePerGallon,
+    totalAmount: values.totalAmount,
+    fieldConfidence: transcription.fields ?? null,
+  }, values.date);
+
+  // Update receipt with transcribed data, recording the values the AI read
+  await updateReceiptWithRevision(receipt, {
+    date: extractedDate,
+    stationName: transcription.stationName,
+    sellerStreet: values.sellerStreet ?? undefined,
+    sellerCity: values.sellerCity ?? undefined,
+    sellerState: values.sellerState ?? undefined,
+    sellerZip: values.sellerZip ?? undefined,
+    fuelType: values.fuelType ?? undefined,
+    gallons: values.gallons ?? undefined,
+    pricePerGallon: values.pricePerGallon ?? undefined,
+    totalAmount: values.totalAmount ?? undefined,
+    fiscalYear,
+    transcriptionProvider: provider,
+    fieldConfidence: transcription.fields ?? null,
+    pendingTranscription: null,
+    ...checks,
+    processingStatus: "completed",
+    processingError: transcription.date ? null : "Date could not be read - please verify",
+  }, { source: "ai", actorId: null });
+
+  console.log(`Receipt ${receiptId} processed successfully${checks.duplicateOfId ? ` (possible duplicate of ${checks.duplicateOfId})` : ""}`);
+}
+
+/**
+ * Re-run transcription for a receipt (e.g. after the prompt improves). A
+ * receipt that never finished processing is transcribed as normal; one that
+ * has data gets the new values as a proposal the user accepts field by field.
+ * Runs as a `retranscribe_receipt` job.
+ */
+export async function retranscribeReceipt(receiptId: string): Promise<void> {
+  const receipt = await storage.getReceipt(receiptId);
+  if (!receipt) return;
+
+  if (receipt.processingStatus !== "completed") {
+    return processReceipt(receiptId);
+  }
+
+  // The fiscal year may have been filed since the job was queued
+  if (await getLockingClaim(receipt.accountId, receipt.fiscalYear)) {
+    console.log(`Receipt ${receiptId} is in filed fiscal year ${receipt.fiscalYear}; not re-transcribed`);
+    return;
+  }
+
+  const { transcription, provider } = await transcribeStoredImage(receipt);
+  await storage.updateReceipt(receiptId, {
+    pendingTranscription: {
+      values: toReceiptValues(transcription),
+      provider,
+      fieldConfidence: transcription.fields ?? null,
+      createdAt: new Date().toISOString(),
+    },
+  });
+
+  console.log(`Receipt ${receiptId} re-transcribed, waiting for review`);
+}
+
+/**
+ * Receipt updates for the proposal fields the user accepted. Fields the
+ * receipt cannot be without (date, seller name) are skipped if the new
+ * transcription has no value for them.
+ */
+export function getAcceptedTranscriptionUpdates(
+  receipt: Receipt,
+  proposal: TranscriptionProposal,
+  fields: TranscriptionField[]
+): Partial<InsertReceipt> {
+  const updates: Partial<InsertReceipt> = {};
+  const fieldConfidence: FieldConfidenceMap = { ...receipt.fieldConfidence };
+
+  for (const field of fields) {
+    const value = proposal.values[field];
+    if (value === null && REQUIRED_FIELDS.includes(field)) continue;
+
+    Object.assign(updates, { [field]: value });
+    const confidence = proposal.fieldConfidence?.[field];
+    if (confidence) {
+      fieldConfidence[field] = confidence;
+    } else {
+      delete fieldConfidence[field];
+    }
+  }
+
+  if (updates.date) {
+    updates.fiscalYear = getFiscalYear(updates.date);
+  }
+  updates.fieldConfidence = fieldConfidence;
+  return updates;
+}
+
+/**
+ * Finish applying accepted proposal fields with the same checks a first
+ * transcription gets. Changing a value the reviewer checked sends a
+ * validated receipt back to the review queue.
+ */
+export async function checkAcceptedTranscription(receipt: Receipt, updates: Partial<InsertReceipt>): Promise<Partial<InsertReceipt>> {
+  const reset = getValidationReset(receipt, updates);
+  const accepted = { ...receipt, ...updates, ...reset } as Receipt;
+  return { ...updates, ...reset, ...(await checkTranscription(accepted, accepted.date)), pendingTranscription: null };
+}
+
+// Put a receipt back in the queue state while its job waits to be retried.
+// Receipts that already have data (re-transcription) are left as they are.
+export async function markReceiptRetrying(receiptId: string, error: string, retryAt: Date): Promise<void> {
+  const receipt = await storage.getReceipt(receiptId);
+  if (!receipt || receipt.processingStatus === "completed") return;
+
+  await storage.updateReceipt(receiptId, {
+    processingStatus: "pending",
+    processingError: `Transcription failed, retrying at ${retryAt.toLocaleTimeString("en-US")}: ${error}`,
+  });
+}
+
+export async function markReceiptFailed(receiptId: string, error: string): Promise<void> {
+  const receipt = await storage.getReceipt(receiptId);
+  if (!receipt || receipt.processingStatus === "completed") return;
+
+  await storage.updateReceipt(receiptId, {
+    processingStatus: "failed",
+    processingError: error,
+  });
+}
@@ -0,0 +1,230 @@
+import { storage } from "./storage";
+import { calculateReportRefunds } from "./claims";
+import { getCachedRefundLines, invalidateRefundCache } from "./refundCache";
+import { summarizeRefunds, toReceiptTaxFields, type RefundLine } from "./refundEngine";
+import type { Receipt } from "@shared/schema";
+import {
+  DEFAULT_RECEIPT_PAGE_SIZE,
+  DEFAULT_RECEIPT_SORT,
+  RECEIPT_PAGE_SIZES,
+  UNASSIGNED_VEHICLE_FILTER,
+  isEligibilityFilter,
+  isReceiptProcessingStatus,
+  isReceiptSortField,
+  isSellerStateFilter,
+  isSortDirection,
+  type ReceiptFilters,
+  type ReceiptQuery,
+  type ReceiptSummary,
+} from "@shared/receiptQuery";
+
+// The fields a user can see receipts through: their ID and account role
+export interface ReceiptViewer {
+  accountId: string;
+  userId: string;
+  role: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FISCAL_YEAR_PATTERN = /^\d{4}-\d{4}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+/**
+ * Read the filters from a request's query string. Returns the names of the
+ * parameters that have invalid values so the route can reject them.
+ */
+export function parseReceiptFilters(params: Record<string, unknown>): { filters: ReceiptFilters; invalid: string[] } {
+  const filters: ReceiptFilters = {};
+  const invalid: string[] = [];
+
+  const fiscalYear = queryString(params.fiscalYear);
+  if (fiscalYear) {
+    if (FISCAL_YEAR_PATTERN.test(fiscalYear)) filters.fiscalYear = fiscalYear;
+    else invalid.push("fiscalYear");
+  }
+
+  const vehicleId = queryString(params.vehicleId);
+  if (vehicleId) {
+    if (vehicleId === UNASSIGNED_VEHICLE_FILTER || UUID_PATTERN.test(vehicleId)) filters.vehicleId = vehicleId;
+    else invalid.push("vehicleId");
+  }
+
+  const uploadedBy = queryString(params.uploadedBy);
+  if (uploadedBy) {
+    if (UUID_PATTERN.test(uploadedBy)) filters.uploadedBy = uploadedBy;
+    else invalid.push("uploadedBy");
+  }
+
+  for (const key of ["dateFrom", "dateTo"] as const) {
+    const date = queryString(params[key]);
+    if (!date) continue;
+    if (DATE_PATTERN.test(date)) filters[key] = date;
+    else invalid.push(key);
+  }
+
+  const processingStatus = queryString(params.processingStatus);
+  if (processingStatus) {
+    if (isReceiptProcessingStatus(processingStatus)) filters.processingStatus = processingStatus;
+    else invalid.push("processingStatus");
+  }
+
+  const validated = queryString(params.validated);
+  if (validated) {
+    if (validated === "true" || validated === "false") filters.validated = validated === "true";
+    else invalid.push("validated");
+  }
+
+  const eligibility = queryString(params.eligibility);
+  if (eligibility) {
+    if (isEligibilityFilter(eligibility)) filters.eligibility = eligibility;
+    else invalid.push("eligibility");
+  }
+
+  const sellerState = queryString(params.sellerState);
+  if (sellerState) {
+    if (isSellerStateFilter(sellerState)) filters.sellerState = sellerState;
+    else invalid.push("sellerState");
+  }
+
+  const search = queryString(params.search);
+  if (search) {
+    filters.search = search.slice(0, 100);
+  }
+
+  return { filters, invalid };
+}
+
+/**
+ * Read filters, sorting and the page from a request's query string. Paging
+ * defaults to the first page of DEFAULT_RECEIPT_PAGE_SIZE, newest first.
+ */
+export function parseReceiptQuery(params: Record<string, unknown>): { query: ReceiptQuery; invalid: string[] } {
+  const { filters, invalid } = parseReceiptFilters(params);
+  const query: ReceiptQuery = { ...filters, ...DEFAULT_RECEIPT_SORT, page: 1, pageSize: DEFAULT_RECEIPT_PAGE_SIZE };
+
+  const sort = queryString(params.sort);
+  if (sort) {
+    if (isReceiptSortField(sort)) query.sort = sort;
+    else invalid.push("sort");
+  }
+
+  const direction = queryString(params.direction);
+  if (direction) {
+    if (isSortDirection(direction)) query.direction = direction;
+    else invalid.push("direction");
+  }
+
+  const page = queryString(params.page);
+  if (page) {
+    const parsed = Number(page);
+    if (Number.isInteger(parsed) && parsed >= 1) query.page = parsed;
+    else invalid.push("page");
+  }
+
+  const pageSize = queryString(params.pageSize);
+  if (pageSize) {
+    const parsed = Number(pageSize);
+    if ((RECEIPT_PAGE_SIZES as readonly number[]).includes(parsed)) query.pageSize = parsed;
+    else invalid.push("pageSize");
+  }
+
+  return { query, invalid };
+}
+
+/**
+ * Refund lines for the given receipts, in the same order, from the cached
+ * lines of each receipt's fiscal year. Filed fiscal years report the figures
+ * frozen at filing.
+ */
+async function getReportRefundLines(
+  accountId: string,
+  receipts: Pick<Receipt, "id" | "fiscalYear">[],
+  retry = true
+): Promise<RefundLine[]> {
+  const fiscalYears = Array.from(new Set(receipts.map(receipt => receipt.fiscalYear)));
+  const linesByYear = new Map(await Promise.all(fiscalYears.map(async fiscalYear => {
+    const lines = await getCachedRefundLines(accountId, fiscalYear, async () => {
+      const yearReceipts = await storage.getFiscalYearReceipts(accountId, fiscalYear);
+      const refunds = await calculateReportRefunds(accountId, yearReceipts);
+      return new Map(refunds.lines.map(line => [line.receiptId, line]));
+    });
+    return [fiscalYear, lines] as const;
+  })));
+
+  // A receipt written while its year was being computed can be missing from
+  // that computation; start over once with fresh lines
+  const lines = receipts.map(receipt => linesByYear.get(receipt.fiscalYear)?.get(receipt.id));
+  if (retry && lines.some(line => !line)) {
+    invalidateRefundCache(accountId);
+    return getReportRefundLines(accountId, receipts, false);
+  }
+  return lines.filter((line): line is RefundLine => !!line);
+}
+
+/**
+ * One page of the receipts a user can see, with the refund fields of each
+ * receipt. Filtering, sorting and paging happen in the database, except for
+ * eligibility: it comes from the refund engine's rules, so with that filter
+ * the IDs of every matching receipt are checked against their cached refund
+ * lines and only the receipts on the page are loaded.
+ */
+export async function listReceipts(viewer: ReceiptViewer, query: ReceiptQuery) {
+  const { eligibility, sort, direction, page, pageSize, ...filters } = query;
+  const order = { sort, direction };
+  const offset = (page - 1) * pageSize;
+
+  let receipts;
+  let total;
+  if (eligibility) {
+    const matches = await storage.queryAccountReceiptKeys(viewer.accountId, viewer.userId, viewer.role, filters, order);
+    const lines = await getReportRefundLines(viewer.accountId, matches);
+    const wantEligible = eligibility === "eligible";
+    const kept = lines.filter(line => line.eligible === wantEligible);
+
+    total = kept.length;
+    receipts = await storage.getAccountReceiptsByIds(viewer.accountId, kept.slice(offset, offset + pageSize).map(line => line.receiptId));
+  } else {
+    const result = await storage.queryAccountReceipts(viewer.accountId, viewer.userId, viewer.role, filters, order, { limit: pageSize, offset });
+    total = result.total;
+    receipts = result.receipts;
+  }
+
+  const refundLines = new Map((await getReportRefundLines(viewer.accountId, receipts)).map(line => [line.receiptId, line]));
+  return {
+    receipts: receipts.flatMap(receipt => {
+      const line = refundLines.get(receipt.id);
+      return line ? [{ ...receipt, ...toReceiptTaxFields(line) }] : [];
+    }),
+    total,
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * Counts, sums and refund totals for the receipts a user can see that match
+ * the filters. Kept apart from the list so paging through receipts does not
+ * recompute the totals. Counts and sums come from SQL aggregates and refund
+ * totals from the cached refund lines. There is no eligibility filter here:
+ * the refund totals already count eligible receipts separately.
+ */
+export async function summarizeReceipts(viewer: ReceiptViewer, filters: Omit<ReceiptFilters, "eligibility">): Promise<ReceiptSummary> {
+  const aggregates = await storage.getReceiptAggregates(viewer.accountId, viewer.userId, viewer.role, filters);
+
+  const matches = await storage.queryAccountReceiptKeys(viewer.accountId, viewer.userId, viewer.role, filters, DEFAULT_RECEIPT_SORT);
+  const refunds = summarizeRefunds(await getReportRefundLines(viewer.accountId, matches));
+
+  return {
+    ...aggregates,
+    refunds: refunds.totals,
+    refundTotals: Object.fromEntries(
+      Object.entries(refunds.byFiscalYear).map(([fiscalYear, totals]) => [fiscalYear, totals.refundAmount])
+    ),
+    refundTotalsByVehicle: refunds.byVehicle,
+    refundTotalsByUploader: refunds.byUploader,
+  };
+}
@@ -0,0 +1,67 @@
+import { storage } from "./storage";
+import { REVISION_FIELDS, type ReceiptFieldChange, type RevisionField, type RevisionSource, type RevisionValue } from "@shared/receiptRevisions";
+import type { InsertReceipt, Receipt, ReceiptRevision } from "@shared/schema";
+
+export interface RevisionContext {
+  source: RevisionSource;
+  // User who made the change; null for AI transcription
+  actorId: string | null;
+}
+
+function toRevisionValue(value: unknown): RevisionValue {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * The tracked fields that differ between two versions of a receipt. Both
+ * should come from the database so numeric columns are formatted alike.
+ */
+export function diffReceipt(before: Receipt, after: Receipt): ReceiptFieldChange[] {
+  const changes: ReceiptFieldChange[] = [];
+  for (const field of Object.keys(REVISION_FIELDS) as RevisionField[]) {
+    const previous = toRevisionValue(before[field]);
+    const next = toRevisionValue(after[field]);
+    if (previous !== next) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Record the changes between two versions of a receipt. Nothing is stored
+ * when no tracked field changed.
+ */
+export async function recordReceiptRevision(before: Receipt, after: Receipt, context: RevisionContext): Promise<ReceiptRevision | null> {
+  const changes = diffReceipt(before, after);
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return storage.createReceiptRevision({
+    receiptId: after.id,
+    accountId: after.accountId,
+    actorId: context.actorId,
+    source: context.source,
+    changes,
+  });
+}
+
+/**
+ * Update a receipt and record what changed in its history. Use this instead
+ * of storage.updateReceipt for any change to the values a user sees.
+ */
+export async function updateReceiptWithRevision(
+  receipt: Receipt,
+  updates: Partial<InsertReceipt>,
+  context: RevisionContext
+): Promise<Receipt | undefined> {
+  const updated = await storage.updateReceipt(receipt.id, updates);
+  if (updated) {
+    await recordReceiptRevision(receipt, updated, context);
+  }
+  return updated;
+}
@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import { deleteOriginalUpload } from "./originalUploads";
+import { recordReceiptRevision } from "./receiptRevisions";
+import { reassignDuplicates, recheckRestoredDuplicate } from "./duplicates";
+import type { Receipt } from "@shared/schema";
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a receipt stays in the trash before it is purged, from RECEIPT_TRASH_RETENTION_DAYS
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.RECEIPT_TRASH_RETENTION_DAYS || "", 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// When a trashed receipt will be purged
+export function getPurgeDate(receipt: Pick<Receipt, "deletedAt">): Date | null {
+  return receipt.deletedAt ? new Date(receipt.deletedAt.getTime() + getTrashRetentionDays() * DAY_MS) : null;
+}
+
+// Receipts deleted before this are due to be purged
+export function getPurgeCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+}
+
+/**
+ * Move a receipt to the trash, recording it in the receipt's history. Its
+ * suspected duplicates are re-pointed so one of them stands in for it.
+ * Returns undefined if the receipt was already trashed.
+ */
+export async function trashReceipt(receipt: Receipt, userId: string): Promise<Receipt | undefined> {
+  const trashed = await storage.trashReceipt(receipt.id, userId);
+  if (trashed) {
+    await recordReceiptRevision(receipt, trashed, { source: "trash", actorId: userId });
+    await reassignDuplicates(trashed, userId);
+  }
+  return trashed;
+}
+
+/**
+ * Take a receipt back out of the trash, recording it in the receipt's
+ * history, and check it for duplicates again. Returns undefined if the
+ * receipt was not in the trash.
+ */
+export async function restoreReceipt(receipt: Receipt, userId: string): Promise<Receipt | undefined> {
+  const restored = await storage.restoreReceipt(receipt.id);
+  if (!restored) return undefined;
+
+  await recordReceiptRevision(receipt, restored, { source: "restore", actorId: userId });
+  return recheckRestoredDuplicate(restored, userId);
+}
+
+/**
+ * Permanently delete a trashed receipt: its stored image and original
+ * upload first, then the row, so a failure leaves it in the trash to be
+ * retried rather than orphaning the files.
+ */
+export async function purgeReceipt(receipt: Receipt): Promise<void> {
+  // Manual entries have no stored image, only the optional supporting document
+  if (receipt.imageUrl) {
+    const objectStorageService = new ObjectStorageService();
+    const objectPath = await objectStorageService.getObjectPathFromUrl(receipt.imageUrl);
+    await objectStorageService.deleteObject(objectPath);
+  }
+  await deleteOriginalUpload(receipt);
+  await storage.deleteReceipt(receipt.id);
+}
+
+/**
+ * Purge a receipt whose retention period has passed. Runs as a
+ * `purge_receipt` job; receipts restored in the meantime are left alone.
+ */
+export async function purgeExpiredReceipt(receiptId: string): Promise<void> {
+  const receipt = await storage.getTrashedReceipt(receiptId);
+  if (!receipt?.deletedAt || receipt.deletedAt > getPurgeCutoff()) {
+    return;
+  }
+  await purgeReceipt(receipt);
+}
@@ -0,0 +1,502 @@
+import crypto from "crypto";
+import path from "path";
+import type { Readable } from "stream";
+import JSZip from "jszip";
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import { processReceiptImage, getCompressionStats } from "./imageProcessing";
+import { decodeReceiptFile } from "./receiptFiles";
+import { storeOriginalUpload } from "./originalUploads";
+import { findImageDuplicate, findPurchaseDuplicate } from "./duplicates";
+import { getReceiptWarnings } from "./receiptValidation";
+import { enqueueJob } from "./jobs";
+import * as stripeService from "./stripe";
+import { getReceiptFileType, MAX_RECEIPT_FILE_BYTES } from "@shared/receiptFiles";
+import { MAX_BULK_UPLOAD_FILES, isZipFile, type BulkUploadResult, type BulkUploadSummary } from "@shared/bulkUpload";
+import { getCurrentFiscalYear, getFiscalYear, isCalendarDate } from "@shared/filingCalendar";
+import type { ManualEvidenceType } from "@shared/receiptEvidence";
+import { insertReceiptSchema, type BulkUploadFile, type InsertBulkUploadFile, type Receipt } from "@shared/schema";
+
+// A file the user can fix (wrong type, corrupt, too large), reported as a 400
+export class ReceiptUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceiptUploadError";
+    Object.setPrototypeOf(this, ReceiptUploadError.prototype);
+  }
+}
+
+export interface ReceiptUpload {
+  accountId: string;
+  userId: string;
+  vehicleId: string | null;
+  file: Buffer;
+  mimeType: string | undefined;
+  fileName: string;
+  // Scheme and host the receipt image is served from
+  baseUrl: string;
+}
+
+export interface ManualReceiptEntry {
+  accountId: string;
+  userId: string;
+  vehicleId: string | null;
+  evidenceType: ManualEvidenceType;
+  date: string;
+  stationName: string;
+  sellerStreet: string | null;
+  sellerCity: string | null;
+  sellerState: string | null;
+  sellerZip: string | null;
+  gallons: string | null;
+  pricePerGallon: string | null;
+  totalAmount: string | null;
+  fuelType: string | null;
+  // Statement page, affidavit or other supporting file, if one was attached
+  document?: { file: Buffer; mimeType: string | undefined; fileName: string };
+}
+
+const UNSUPPORTED_FILE = "Unsupported file type - upload a photo (JPEG, PNG, HEIC) or a PDF receipt";
+const TOO_LARGE = `File is larger than ${MAX_RECEIPT_FILE_BYTES / 1024 / 1024}MB`;
+
+export interface UploadQuotaError {
+  error: string;
+  message: string;
+  upgradeRequired: true;
+}
+
+/**
+ * Why the account cannot upload another receipt this fiscal year, or null
+ * if it can. Checked before every file, so a batch stops at the limit.
+ */
+export async function getUploadQuotaError(accountId: string): Promise<UploadQuotaError | null> {
+  const subscriptionStatus = await stripeService.getSubscriptionStatus(accountId, getCurrentFiscalYear());
+  if (!subscriptionStatus.upgradeRequired) {
+    return null;
+  }
+
+  return {
+    error: "Subscription required",
+    message: subscriptionStatus.receiptCount >= 8
+      ? "You've reached the 8-receipt trial limit. Please subscribe to continue uploading receipts."
+      : "Your 30-day trial has ended. Please subscribe to continue uploading receipts.",
+    upgradeRequired: true,
+  };
+}
+
+/**
+ * Store an uploaded receipt file and queue its transcription: the processed
+ * image and the original go to object storage, and the receipt is created
+ * as pending. Returns the receipt and, for a re-upload of an image already
+ * in the account, the receipt it duplicates.
+ */
+export async function ingestReceiptUpload(upload: ReceiptUpload): Promise<{ receipt: Receipt; duplicateOf?: Receipt }> {
+  const fileType = getReceiptFileType(upload.mimeType, upload.fileName);
+  if (!fileType) {
+    throw new ReceiptUploadError(UNSUPPORTED_FILE);
+  }
+  if (upload.file.length > MAX_RECEIPT_FILE_BYTES) {
+    throw new ReceiptUploadError(TOO_LARGE);
+  }
+
+  // HEIC photos and PDF e-receipts are converted to an image first
+  let decoded: Buffer;
+  try {
+    decoded = (await decodeReceiptFile(upload.file, fileType)).image;
+  } catch (error) {
+    console.error("Error decoding receipt upload:", error);
+    throw new ReceiptUploadError("The file could not be read - check that it is a valid image or PDF");
+  }
+
+  // Process image for optimal OCR and storage
+  // Resize to 1280px max, convert to grayscale JPEG at 85% quality
+  const processed = await processReceiptImage(decoded);
+  const stats = getCompressionStats(processed.originalSize, processed.processedSize);
+  console.log(`Receipt image processed: ${stats.originalKB}KB → ${stats.processedKB}KB (${stats.reductionPercent}% reduction)`);
+
+  // Upload processed image to object storage using Replit SDK, organized by accountId
+  const objectStorageService = new ObjectStorageService();
+  const objectId = crypto.randomUUID();
+  const objectPath = await objectStorageService.uploadObject(
+    processed.buffer,
+    processed.mimetype,
+    upload.accountId,
+    "receipts",
+    objectId
+  );
+
+  // Keep the original next to it for the audit copy
+  const original = await storeOriginalUpload(upload.file, fileType, upload.accountId, objectId);
+
+  // Flag a re-upload of an image already in the account
+  const duplicate = await findImageDuplicate(upload.accountId, processed.perceptualHash);
+  if (duplicate) {
+    console.log(`Receipt upload matches the image of receipt ${duplicate.id}`);
+  }
+
+  const fiscalYear = getCurrentFiscalYear();
+
+  // Create receipt immediately with pending status (placeholder values for required fields)
+  const receipt = await storage.createReceipt(insertReceiptSchema.parse({
+    accountId: upload.accountId,
+    vehicleId: upload.vehicleId || null,
+    uploadedBy: upload.userId,
+    imageUrl: `${upload.baseUrl}${objectStorageService.normalizeObjectPath(objectPath)}`,
+    date: new Date().toISOString().split('T')[0],
+    stationName: "Processing...",
+    fiscalYear,
+    processingStatus: "pending",
+    imageHash: processed.perceptualHash,
+    duplicateOfId: duplicate?.id ?? null,
+    ...original,
+  }));
+
+  // Increment the receipt counter for the account (legacy field)
+  await storage.incrementReceiptCounter(upload.accountId);
+
+  // Increment the subscription receipt count for trial enforcement
+  await stripeService.incrementReceiptCount(upload.accountId, fiscalYear);
+
+  // Queue AI transcription of the stored (optimized) image
+  await enqueueJob("transcribe_receipt", { receiptId: receipt.id }, { key: `receipt:${receipt.id}` });
+
+  return { receipt, duplicateOf: duplicate };
+}
+
+/**
+ * Create a receipt for a purchase whose receipt was lost, from values the
+ * user entered. There is no image to transcribe, so the receipt is created
+ * completed; it still needs validating before it counts toward a claim.
+ * Counts toward the upload quota like any other receipt.
+ */
+export async function createManualReceipt(entry: ManualReceiptEntry): Promise<{ receipt: Receipt; duplicateOf?: Receipt }> {
+  if (!isCalendarDate(entry.date)) {
+    throw new ReceiptUploadError("Enter the purchase date as YYYY-MM-DD");
+  }
+  if (!entry.stationName.trim()) {
+    throw new ReceiptUploadError("Enter the station name");
+  }
+  if (!entry.gallons || parseFloat(entry.gallons) <= 0) {
+    throw new ReceiptUploadError("Enter the gallons purchased");
+  }
+
+  // The supporting document is kept like an original upload, encrypted at rest
+  let document: Awaited<ReturnType<typeof storeOriginalUpload>> | undefined;
+  if (entry.document) {
+    const fileType = getReceiptFileType(entry.document.mimeType, entry.document.fileName);
+    if (!fileType) {
+      throw new ReceiptUploadError("Unsupported file type - attach a photo (JPEG, PNG, HEIC) or a PDF");
+    }
+    if (entry.document.file.length > MAX_RECEIPT_FILE_BYTES) {
+      throw new ReceiptUploadError(TOO_LARGE);
+    }
+    document = await storeOriginalUpload(entry.document.file, fileType, entry.accountId, crypto.randomUUID());
+  }
+
+  const values = {
+    date: entry.date,
+    stationName: entry.stationName.trim(),
+    gallons: entry.gallons,
+    pricePerGallon: entry.pricePerGallon,
+    totalAmount: entry.totalAmount,
+    processingStatus: "completed",
+    vehicleId: entry.vehicleId,
+  };
+  const validationWarnings = await getReceiptWarnings(values);
+  const duplicate = await findPurchaseDuplicate({ ...values, id: "", accountId: entry.accountId });
+
+  const fiscalYear = getFiscalYear(entry.date);
+  const receipt = await storage.createReceipt(insertReceiptSchema.parse({
+    ...values,
+    accountId: entry.accountId,
+    uploadedBy: entry.userId,
+    imageUrl: null,
+    evidenceType: entry.evidenceType,
+    sellerStreet: entry.sellerStreet,
+    sellerCity: entry.sellerCity,
+    sellerState: entry.sellerState,
+    sellerZip: entry.sellerZip,
+    fuelType: entry.fuelType,
+    fiscalYear,
+    validationWarnings,
+    duplicateOfId: duplicate?.id ?? null,
+    ...document,
+  }));
+
+  // Counted against the current year's quota, which is what getUploadQuotaError checks
+  await storage.incrementReceiptCounter(entry.accountId);
+  await stripeService.incrementReceiptCount(entry.accountId, getCurrentFiscalYear());
+
+  return { receipt, duplicateOf: duplicate };
+}
+
+/**
+ * Inflate a ZIP entry, giving up as soon as it passes maxBytes so an entry
+ * that lies about its size cannot exhaust memory. Resolves to null when the
+ * entry is too large.
+ */
+function inflateZipEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream("nodebuffer") as Readable;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+type ZipEntry = { fileName: string; file: Buffer } | { fileName: string; error: string };
+
+/**
+ * Files inside a ZIP archive, named "archive.zip/entry", inflated one at a
+ * time as they are consumed. Folders, macOS resource forks and hidden files
+ * are skipped; entries that are not receipt files, nested archives included,
+ * fail without being inflated.
+ *
+ * Only the first maxFiles entries are inflated; the rest are reported as one
+ * failed result for the archive. Inflating an entry stops as soon as it
+ * passes the receipt size limit, whatever size the archive claims for it.
+ */
+async function* readZipEntries(archive: Buffer, archiveName: string, maxFiles: number): AsyncGenerator<ZipEntry> {
+  const zip = await JSZip.loadAsync(archive);
+  const entries = Object.values(zip.files).filter(entry =>
+    !entry.dir
+    && !entry.name.startsWith("__MACOSX/")
+    && !path.posix.basename(entry.name).startsWith(".")
+  );
+
+  let inflated = 0;
+  for (const [index, entry] of Array.from(entries.entries())) {
+    if (inflated >= maxFiles) {
+      const skipped = entries.length - index;
+      yield {
+        fileName: archiveName,
+        error: `${skipped} more file${skipped === 1 ? "" : "s"} not read: only ${MAX_BULK_UPLOAD_FILES} receipts can be uploaded at once`,
+      };
+      return;
+    }
+
+    const fileName = `${archiveName}/${entry.name}`;
+    if (!getReceiptFileType(undefined, entry.name)) {
+      yield { fileName, error: UNSUPPORTED_FILE };
+      continue;
+    }
+    const file = await inflateZipEntry(entry, MAX_RECEIPT_FILE_BYTES);
+    yield file ? { fileName, file } : { fileName, error: TOO_LARGE };
+    if (file) inflated++;
+  }
+}
+
+// Folder staged bulk upload files are kept in until their job has run
+const BULK_UPLOAD_FOLDER = "bulk-uploads";
+
+export interface BulkUploadRequest {
+  accountId: string;
+  userId: string;
+  vehicleId: string | null;
+  // Scheme and host the receipt images are served from
+  baseUrl: string;
+  // Files as written to local disk by the upload middleware
+  files: { fileName: string; mimeType: string | undefined; path: string; size: number }[];
+}
+
+function toBulkUploadSummary(batchId: string, files: BulkUploadFile[]): BulkUploadSummary {
+  const results: BulkUploadResult[] = files.map(file => ({
+    fileName: file.fileName,
+    status: file.status,
+    receiptId: file.receiptId ?? undefined,
+    duplicateOfId: file.duplicateOfId ?? undefined,
+    error: file.error ?? undefined,
+  }));
+  return {
+    batchId,
+    results,
+    queued: results.filter(result => result.status === "queued").length,
+    uploaded: results.filter(result => result.status === "uploaded").length,
+    duplicates: results.filter(result => result.status === "duplicate").length,
+    failed: results.filter(result => result.status === "failed" || result.status === "quota_exceeded").length,
+  };
+}
+
+/**
+ * Stage a batch of uploaded files and queue a `bulk_upload_file` job for
+ * each, so the request returns as soon as the files are stored. Files that
+ * can be turned away from their type and size alone fail straight away.
+ * The summary has every file queued or failed; poll getBulkUploadSummary
+ * for the rest.
+ */
+export async function stageBulkUpload(request: BulkUploadRequest): Promise<BulkUploadSummary> {
+  const batchId = crypto.randomUUID();
+  const objectStorageService = new ObjectStorageService();
+
+  const rows: InsertBulkUploadFile[] = [];
+  for (const file of request.files) {
+    const row: InsertBulkUploadFile = {
+      batchId,
+      accountId: request.accountId,
+      uploadedBy: request.userId,
+      vehicleId: request.vehicleId,
+      fileName: file.fileName,
+      contentType: file.mimeType ?? null,
+      baseUrl: request.baseUrl,
+    };
+
+    const isArchive = isZipFile(file.mimeType, file.fileName);
+    if (!isArchive && !getReceiptFileType(file.mimeType, file.fileName)) {
+      rows.push({ ...row, status: "failed", error: UNSUPPORTED_FILE, completedAt: new Date() });
+    } else if (!isArchive && file.size > MAX_RECEIPT_FILE_BYTES) {
+      rows.push({ ...row, status: "failed", error: TOO_LARGE, completedAt: new Date() });
+    } else {
+      const stagedPath = await objectStorageService.uploadObjectFromFile(
+        file.path,
+        "application/octet-stream",
+        request.accountId,
+        BULK_UPLOAD_FOLDER
+      );
+      rows.push({ ...row, stagedPath });
+    }
+  }
+
+  const created = await storage.createBulkUploadFiles(rows);
+  for (const file of created) {
+    if (file.status === "queued") {
+      await enqueueJob("bulk_upload_file", { fileId: file.id }, { key: `bulk-upload:${file.id}` });
+    }
+  }
+  return toBulkUploadSummary(batchId, created);
+}
+
+/**
+ * Per-file results of a bulk upload so far, or undefined if the batch does
+ * not exist or was uploaded by someone else.
+ */
+export async function getBulkUploadSummary(batchId: string, accountId: string, userId: string): Promise<BulkUploadSummary | undefined> {
+  const files = await storage.getBulkUploadBatch(batchId);
+  if (files.length === 0 || files.some(file => file.accountId !== accountId || file.uploadedBy !== userId)) {
+    return undefined;
+  }
+  return toBulkUploadSummary(batchId, files);
+}
+
+// Record a staged file's result and drop the staged copy
+async function finishBulkUploadFile(file: BulkUploadFile, result: Pick<InsertBulkUploadFile, "status" | "receiptId" | "duplicateOfId" | "error">): Promise<void> {
+  await storage.updateBulkUploadFile(file.id, { ...result, stagedPath: null, completedAt: new Date() });
+  if (file.stagedPath) {
+    await new ObjectStorageService().deleteObject(file.stagedPath).catch(error =>
+      console.error(`Error deleting staged upload ${file.stagedPath}:`, error)
+    );
+  }
+}
+
+/**
+ * Replace a staged ZIP archive with its files, each staged and queued like a
+ * file uploaded on its own. Files already in the batch count toward its file
+ * limit.
+ */
+async function unpackBulkUploadArchive(archive: BulkUploadFile, stagedPath: string): Promise<void> {
+  const objectStorageService = new ObjectStorageService();
+  const batch = await storage.getBulkUploadBatch(archive.batchId);
+  const maxFiles = Math.max(MAX_BULK_UPLOAD_FILES - (batch.length - 1), 0);
+  const row: InsertBulkUploadFile = {
+    batchId: archive.batchId,
+    accountId: archive.accountId,
+    uploadedBy: archive.uploadedBy,
+    vehicleId: archive.vehicleId,
+    fileName: archive.fileName,
+    baseUrl: archive.baseUrl,
+  };
+
+  const buffer = await objectStorageService.downloadObjectAsBytes(stagedPath);
+  const rows: InsertBulkUploadFile[] = [];
+  let staging = false;
+  try {
+    for await (const entry of readZipEntries(buffer, archive.fileName, maxFiles)) {
+      if ("error" in entry) {
+        rows.push({ ...row, fileName: entry.fileName, status: "failed", error: entry.error, completedAt: new Date() });
+        continue;
+      }
+      staging = true;
+      const entryPath = await objectStorageService.uploadObject(entry.file, "application/octet-stream", archive.accountId, BULK_UPLOAD_FOLDER);
+      staging = false;
+      rows.push({ ...row, fileName: entry.fileName, stagedPath: entryPath });
+    }
+  } catch (error) {
+    for (const staged of rows) {
+      if (staged.stagedPath) await objectStorageService.deleteObject(staged.stagedPath).catch(() => undefined);
+    }
+    // Storage errors are retried; an archive that can't be read never will be
+    if (staging) throw error;
+    console.error(`Error reading ZIP ${archive.fileName}:`, error);
+    return finishBulkUploadFile(archive, { status: "failed", error: "The ZIP archive could not be read" });
+  }
+
+  const created = await storage.replaceBulkUploadFile(archive.id, rows);
+  for (const file of created) {
+    if (file.status === "queued") {
+      await enqueueJob("bulk_upload_file", { fileId: file.id }, { key: `bulk-upload:${file.id}` });
+    }
+  }
+  await objectStorageService.deleteObject(stagedPath).catch(error =>
+    console.error(`Error deleting staged upload ${stagedPath}:`, error)
+  );
+}
+
+/**
+ * Turn one staged bulk upload file into a receipt, or unpack it if it is a
+ * ZIP archive. Runs as a `bulk_upload_file` job, one file at a time, with
+ * the quota checked before each. A file the user can fix is recorded as
+ * failed; other errors are thrown so the job is retried.
+ */
+export async function processBulkUploadFile(fileId: string): Promise<void> {
+  const file = await storage.getBulkUploadFile(fileId);
+  if (!file || file.status !== "queued" || !file.stagedPath) return;
+
+  const mimeType = file.contentType ?? undefined;
+  if (isZipFile(mimeType, file.fileName)) {
+    return unpackBulkUploadArchive(file, file.stagedPath);
+  }
+
+  const quotaError = await getUploadQuotaError(file.accountId);
+  if (quotaError) {
+    return finishBulkUploadFile(file, { status: "quota_exceeded", error: quotaError.message });
+  }
+
+  const buffer = await new ObjectStorageService().downloadObjectAsBytes(file.stagedPath);
+  try {
+    const { receipt, duplicateOf } = await ingestReceiptUpload({
+      accountId: file.accountId,
+      userId: file.uploadedBy,
+      vehicleId: file.vehicleId,
+      file: buffer,
+      mimeType,
+      fileName: file.fileName,
+      baseUrl: file.baseUrl,
+    });
+    await finishBulkUploadFile(file, {
+      status: duplicateOf ? "duplicate" : "uploaded",
+      receiptId: receipt.id,
+      duplicateOfId: duplicateOf?.id ?? null,
+    });
+  } catch (error) {
+    if (!(error instanceof ReceiptUploadError)) throw error;
+    await finishBulkUploadFile(file, { status: "failed", error: error.message });
+  }
+}
+
+// Record a file whose job ran out of attempts
+export async function failBulkUploadFile(fileId: string, error: string): Promise<void> {
+  const file = await storage.getBulkUploadFile(fileId);
+  if (!file || file.status !== "queued") return;
+
+  console.error(`Bulk upload file ${file.fileName} failed: ${error}`);
+  await finishBulkUploadFile(file, { status: "failed", error: "Failed to process receipt" });
+}
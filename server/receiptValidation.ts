@@ -0,0 +1,143 @@
+import { storage } from "./storage";
+import { toDateString } from "@shared/filingCalendar";
+import { needsReview } from "@shared/confidence";
+import {
+  DEFAULT_TANK_CAPACITY_GALLONS,
+  MATH_TOLERANCE_DOLLARS,
+  MATH_TOLERANCE_RATIO,
+  getPriceRange,
+  type ReceiptWarning,
+} from "@shared/receiptWarnings";
+import type { InsertReceipt, Receipt, Vehicle } from "@shared/schema";
+
+// Values a reviewer checks when validating a receipt. Changing any of them
+// afterwards sends the receipt back to the review queue.
+const REVIEWED_FIELDS = [
+  "date", "stationName", "sellerStreet", "sellerCity", "sellerState", "sellerZip",
+  "gallons", "pricePerGallon", "totalAmount", "fuelType", "vehicleId",
+] as const;
+
+const NUMERIC_FIELDS: readonly string[] = ["gallons", "pricePerGallon", "totalAmount"];
+
+export interface ValidationContext {
+  receipt: Pick<Receipt, "date" | "gallons" | "pricePerGallon" | "totalAmount" | "processingStatus">;
+  vehicle: Pick<Vehicle, "tankCapacityGallons" | "nickname" | "make" | "model"> | null;
+  // Today's date (YYYY-MM-DD), injectable so checks are reproducible
+  today: string;
+}
+
+function parsePositive(value: string | null | undefined): number | null {
+  const parsed = parseFloat(value ?? "");
+  return isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+/**
+ * Check a receipt's values for arithmetic and plausibility problems. Checks
+ * that need a missing value are skipped; unprocessed receipts get no warnings.
+ */
+export function validateReceipt({ receipt, vehicle, today }: ValidationContext): ReceiptWarning[] {
+  if (receipt.processingStatus !== "completed") {
+    return [];
+  }
+
+  const warnings: ReceiptWarning[] = [];
+  const gallons = parsePositive(receipt.gallons);
+  const price = parsePositive(receipt.pricePerGallon);
+  const total = parsePositive(receipt.totalAmount);
+
+  if (gallons !== null && price !== null && total !== null) {
+    const expected = Math.round(gallons * price * 100) / 100;
+    const tolerance = Math.max(MATH_TOLERANCE_DOLLARS, total * MATH_TOLERANCE_RATIO);
+    if (Math.abs(expected - total) > tolerance) {
+      warnings.push({
+        code: "MATH_MISMATCH",
+        message: `${gallons.toFixed(3)} gal × $${price.toFixed(3)} = $${expected.toFixed(2)}, but the total is $${total.toFixed(2)}`,
+        fields: ["gallons", "pricePerGallon", "totalAmount"],
+      });
+    }
+  }
+
+  if (price !== null) {
+    const range = getPriceRange(receipt.date);
+    if (price < range.min || price > range.max) {
+      warnings.push({
+        code: "PRICE_OUT_OF_RANGE",
+        message: `$${price.toFixed(3)}/gal is outside the expected $${range.min.toFixed(2)}-$${range.max.toFixed(2)} range for ${receipt.date}`,
+        fields: ["pricePerGallon"],
+      });
+    }
+  }
+
+  if (gallons !== null) {
+    const capacity = parsePositive(vehicle?.tankCapacityGallons);
+    const limit = capacity ?? DEFAULT_TANK_CAPACITY_GALLONS;
+    if (gallons > limit) {
+      const vehicleName = vehicle ? vehicle.nickname || `${vehicle.make} ${vehicle.model}` : null;
+      warnings.push({
+        code: "GALLONS_EXCEED_TANK",
+        message: capacity !== null && vehicleName
+          ? `${gallons.toFixed(3)} gal is more than the ${capacity} gal tank of ${vehicleName}`
+          : `${gallons.toFixed(3)} gal is more than a typical tank holds (${limit} gal)`,
+        fields: ["gallons"],
+      });
+    }
+  }
+
+  if (receipt.date > today) {
+    warnings.push({
+      code: "FUTURE_DATE",
+      message: `${receipt.date} is after today`,
+      fields: ["date"],
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Validation warnings for a receipt with its assigned vehicle loaded.
+ * Used after transcription and on every edit, before the receipt is saved.
+ */
+export async function getReceiptWarnings(
+  receipt: Pick<Receipt, "date" | "gallons" | "pricePerGallon" | "totalAmount" | "processingStatus" | "vehicleId">
+): Promise<ReceiptWarning[]> {
+  const vehicle = receipt.vehicleId ? await storage.getVehicleById(receipt.vehicleId) : undefined;
+  return validateReceipt({ receipt, vehicle: vehicle ?? null, today: toDateString() });
+}
+
+/**
+ * Recompute and save warnings for a vehicle's receipts, e.g. after its tank
+ * capacity changes.
+ */
+export async function refreshVehicleReceiptWarnings(accountId: string, vehicleId: string): Promise<void> {
+  const receipts = (await storage.getAccountReceipts(accountId)).filter(r => r.vehicleId === vehicleId);
+  for (const receipt of receipts) {
+    await storage.updateReceipt(receipt.id, { validationWarnings: await getReceiptWarnings(receipt) });
+  }
+}
+
+// Numeric columns come back formatted ("12.000"), so compare them as numbers
+function isSameValue(field: string, before: unknown, after: unknown): boolean {
+  if (NUMERIC_FIELDS.includes(field)) {
+    const left = parseFloat(String(before ?? ""));
+    const right = parseFloat(String(after ?? ""));
+    return isNaN(left) && isNaN(right) ? true : left === right;
+  }
+  return (before ?? "") === (after ?? "");
+}
+
+/**
+ * Updates that undo a receipt's validation when `updates` change a value the
+ * reviewer checked. Needs-review goes back to what the transcription reported.
+ * Empty when the receipt is not validated or nothing checked has changed.
+ */
+export function getValidationReset(receipt: Receipt, updates: Partial<InsertReceipt>): Pick<Partial<InsertReceipt>, "validated" | "needsReview"> {
+  if (!receipt.validated) {
+    return {};
+  }
+
+  const changed = REVIEWED_FIELDS.some(field =>
+    updates[field] !== undefined && !isSameValue(field, receipt[field], updates[field])
+  );
+  return changed ? { validated: false, needsReview: needsReview(receipt.fieldConfidence) } : {};
+}
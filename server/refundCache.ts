@@ -0,0 +1,67 @@
+import { toDateString } from "@shared/filingCalendar";
+import type { RefundLine } from "./refundEngine";
+
+// Refund lines of every receipt in an account's fiscal year, keyed by receipt
+// ID, so receipt listings and summaries don't rerun the refund engine over
+// the whole account on each request. Storage drops an account's entries
+// whenever its receipts, vehicles or claims change, and every entry when tax
+// rates or filing windows do.
+
+interface CacheEntry {
+  // Eligibility depends on the current date, so entries only last the day
+  today: string;
+  lines: Promise<Map<string, RefundLine>>;
+}
+
+// Accounts kept before the least recently used is dropped
+const MAX_CACHED_ACCOUNTS = 500;
+
+const entries = new Map<string, Map<string, CacheEntry>>();
+
+/**
+ * Refund lines for an account's fiscal year, computed with `compute` the
+ * first time they are needed each day or after the data changes.
+ */
+export function getCachedRefundLines(
+  accountId: string,
+  fiscalYear: string,
+  compute: () => Promise<Map<string, RefundLine>>
+): Promise<Map<string, RefundLine>> {
+  const today = toDateString();
+  let account = entries.get(accountId);
+  if (account) {
+    // Move to the back of the map, which is kept in least recently used order
+    entries.delete(accountId);
+  } else {
+    account = new Map();
+  }
+  entries.set(accountId, account);
+  while (entries.size > MAX_CACHED_ACCOUNTS) {
+    entries.delete(entries.keys().next().value!);
+  }
+
+  const cached = account.get(fiscalYear);
+  if (cached && cached.today === today) {
+    return cached.lines;
+  }
+
+  const entry: CacheEntry = { today, lines: compute() };
+  account.set(fiscalYear, entry);
+  // Don't keep a failure around; the next request tries again
+  entry.lines.catch(() => {
+    if (account.get(fiscalYear) === entry) account.delete(fiscalYear);
+  });
+  return entry.lines;
+}
+
+/**
+ * Drop cached refund lines for one account, or for every account when the
+ * change (tax rates, filing windows) affects them all.
+ */
+export function invalidateRefundCache(accountId?: string): void {
+  if (accountId) {
+    entries.delete(accountId);
+  } else {
+    entries.clear();
+  }
+}
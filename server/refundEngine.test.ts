@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Receipt, TaxRate } from "@shared/schema";
+import { computeReceiptRefund, summarizeRefunds, type ResolvedTaxRate } from "./refundEngine";
+
+// The pure refund math never touches the database
+vi.mock("./storage", () => ({ storage: {} }));
+
+const TODAY = "2024-09-01";
+const DEADLINE = "2025-04-15";
+
+const taxRate: TaxRate = {
+  id: "rate-1",
+  fuelType: "Motor Fuel",
+  startDate: "2023-10-01",
+  endDate: "2024-06-30",
+  baseRate: "0.170",
+  increase: "0.050",
+  createdAt: new Date("2023-01-01"),
+};
+
+const vehicle = { fuelType: null, active: true, weightUnder26000: true };
+
+function makeReceipt(overrides: Partial<Receipt> = {}): Receipt {
+  return {
+    id: "receipt-1",
+    accountId: "account-1",
+    vehicleId: "vehicle-1",
+    uploadedBy: "user-1",
+    imageUrl: null,
+    evidenceType: "receipt",
+    date: "2024-03-15",
+    stationName: "QuikTrip",
+    sellerStreet: "1 Main St",
+    sellerCity: "Columbia",
+    sellerState: "MO",
+    sellerZip: "65201",
+    validated: true,
+    processingStatus: "completed",
+    processingError: null,
+    transcriptionProvider: null,
+    fieldConfidence: null,
+    needsReview: false,
+    pendingTranscription: null,
+    validationWarnings: [],
+    originalImagePath: null,
+    originalImageType: null,
+    originalImageEncrypted: false,
+    imageHash: null,
+    duplicateOfId: null,
+    duplicateDismissed: false,
+    gallons: "10.000",
+    pricePerGallon: "3.000",
+    totalAmount: "30.00",
+    fuelType: null,
+    fiscalYear: "2023-2024",
+    eligibilityOverride: null,
+    eligibilityOverrideReason: null,
+    eligibilityOverrideBy: null,
+    eligibilityOverrideAt: null,
+    deletedAt: null,
+    deletedBy: null,
+    createdAt: new Date("2024-03-15"),
+    ...overrides,
+  };
+}
+
+function resolved(overrides: Partial<ResolvedTaxRate> = {}): ResolvedTaxRate {
+  return { taxRate, fuelType: null, fallback: false, ...overrides };
+}
+
+function refund(receipt: Receipt, rate: ResolvedTaxRate = resolved()) {
+  return computeReceiptRefund(receipt, rate, vehicle, DEADLINE, null, TODAY);
+}
+
+describe("computeReceiptRefund", () => {
+  it("refunds gallons times the rate increase", () => {
+    const line = refund(makeReceipt());
+    expect(line.eligible).toBe(true);
+    expect(line.reasons).toEqual([]);
+    expect(line.baseRate).toBe(0.17);
+    expect(line.increase).toBe(0.05);
+    expect(line.refundAmount).toBe(0.5);
+    expect(line.ratePeriod).toEqual({ id: "rate-1", fuelType: "Motor Fuel", startDate: "2023-10-01", endDate: "2024-06-30" });
+  });
+
+  it("rounds each receipt's refund to the cent", () => {
+    expect(refund(makeReceipt({ gallons: "12.345" })).refundAmount).toBe(0.62);
+    expect(refund(makeReceipt({ gallons: "10.100" })).refundAmount).toBe(0.51);
+    expect(refund(makeReceipt({ gallons: "0.050" })).refundAmount).toBe(0);
+  });
+
+  it("reports when the generic rate stood in for the fuel type", () => {
+    const line = refund(makeReceipt({ fuelType: "Diesel" }), resolved({ fuelType: "Diesel", fallback: true }));
+    expect(line.rateFallback).toBe(true);
+    expect(line.fuelType).toBe("Diesel");
+    expect(line.eligible).toBe(true);
+    expect(line.refundAmount).toBe(0.5);
+  });
+
+  it("refunds nothing without a tax rate", () => {
+    const line = refund(makeReceipt(), resolved({ taxRate: null }));
+    expect(line.eligible).toBe(false);
+    expect(line.reasons).toEqual(["NO_TAX_RATE"]);
+    expect(line.ratePeriod).toBeNull();
+    expect(line.baseRate).toBe(0);
+    expect(line.refundAmount).toBe(0);
+  });
+
+  it.each([null, "", "0"])("refunds nothing when gallons are %j", (gallons) => {
+    const line = refund(makeReceipt({ gallons }));
+    expect(line.eligible).toBe(false);
+    expect(line.reasons).toEqual(["MISSING_GALLONS"]);
+    expect(line.gallons).toBe(0);
+    expect(line.refundAmount).toBe(0);
+  });
+
+  it("refunds an ineligible receipt an admin marked eligible", () => {
+    const line = refund(makeReceipt({ sellerState: "KS", eligibilityOverride: true }));
+    expect(line.eligible).toBe(true);
+    expect(line.overridden).toBe(true);
+    expect(line.reasons).toEqual(["OUT_OF_STATE"]);
+    expect(line.refundAmount).toBe(0.5);
+  });
+
+  it("refunds nothing when an admin marked the receipt ineligible", () => {
+    const line = refund(makeReceipt({ eligibilityOverride: false }));
+    expect(line.eligible).toBe(false);
+    expect(line.overridden).toBe(true);
+    expect(line.refundAmount).toBe(0);
+  });
+
+  it("keeps missing gallons ineligible despite an override", () => {
+    const line = refund(makeReceipt({ gallons: null, eligibilityOverride: true }));
+    expect(line.eligible).toBe(false);
+    expect(line.refundAmount).toBe(0);
+  });
+});
+
+describe("summarizeRefunds", () => {
+  const lines = [
+    refund(makeReceipt({ id: "a", gallons: "12.345" })),
+    refund(makeReceipt({ id: "b", gallons: "10.100", vehicleId: "vehicle-2", uploadedBy: "user-2" })),
+    refund(makeReceipt({ id: "c", gallons: "8.000", fiscalYear: "2024-2025", date: "2024-10-01" })),
+    refund(makeReceipt({ id: "d", gallons: "5.000", vehicleId: null })),
+  ];
+
+  it("totals only eligible receipts and sums the rounded line amounts", () => {
+    const { totals } = summarizeRefunds(lines);
+    expect(totals).toEqual({ receiptCount: 4, eligibleCount: 2, gallons: 22.445, refundAmount: 1.13 });
+  });
+
+  it("groups by fiscal year, vehicle and uploader", () => {
+    const summary = summarizeRefunds(lines);
+    expect(summary.lines).toBe(lines);
+    expect(summary.byFiscalYear["2023-2024"]).toEqual({ receiptCount: 3, eligibleCount: 2, gallons: 22.445, refundAmount: 1.13 });
+    expect(summary.byFiscalYear["2024-2025"]).toEqual({ receiptCount: 1, eligibleCount: 0, gallons: 0, refundAmount: 0 });
+    expect(summary.byVehicle["vehicle-2"].refundAmount).toBe(0.51);
+    expect(summary.byVehicle.unassigned).toEqual({ receiptCount: 1, eligibleCount: 0, gallons: 0, refundAmount: 0 });
+    expect(summary.byUploader["user-1"]).toEqual({ receiptCount: 3, eligibleCount: 1, gallons: 12.345, refundAmount: 0.62 });
+  });
+
+  it("returns zero totals for no receipts", () => {
+    const summary = summarizeRefunds([]);
+    expect(summary.totals).toEqual({ receiptCount: 0, eligibleCount: 0, gallons: 0, refundAmount: 0 });
+    expect(summary.byFiscalYear).toEqual({});
+  });
+});
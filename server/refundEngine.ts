@@ -0,0 +1,267 @@
+import { storage } from "./storage";
+import { DEFAULT_FUEL_TYPE, normalizeFuelType } from "./taxRates";
+import { evaluateEligibility } from "./eligibility";
+import { getFiscalYearCalendar, toDateString } from "@shared/filingCalendar";
+import type { TaxRate, Receipt, Vehicle } from "@shared/schema";
+import type { EligibilityReason } from "@shared/eligibility";
+
+// Single source of truth for refund math. Routes, exports and the Form 4923-H
+// generator all go through calculateRefunds / calculateReceiptRefund so the
+// per-receipt amounts and the totals can never disagree.
+
+export interface ResolvedTaxRate {
+  taxRate: TaxRate | null;
+  // Fuel type of the receipt (vehicle first, then detected on the receipt)
+  fuelType: string | null;
+  // True when no rate exists for the receipt's fuel type and the generic
+  // Motor Fuel rate was used instead
+  fallback: boolean;
+}
+
+export interface RefundLine {
+  receiptId: string;
+  fiscalYear: string;
+  vehicleId: string | null;
+  uploadedBy: string;
+  date: string;
+  stationName: string;
+  fuelType: string | null;
+  ratePeriod: Pick<TaxRate, "id" | "fuelType" | "startDate" | "endDate"> | null;
+  rateFallback: boolean;
+  baseRate: number;
+  increase: number;
+  gallons: number;
+  refundAmount: number;
+  eligible: boolean;
+  reasons: EligibilityReason[];
+  // True when an admin override changed the outcome of the rules
+  overridden: boolean;
+  // True when the figures come from a filed claim's snapshot rather than
+  // the current tax rates (see claims.ts)
+  filed: boolean;
+}
+
+export interface RefundTotals {
+  receiptCount: number;
+  eligibleCount: number;
+  gallons: number;
+  refundAmount: number;
+}
+
+export interface RefundSummary {
+  lines: RefundLine[];
+  totals: RefundTotals;
+  byFiscalYear: Record<string, RefundTotals>;
+  // Keyed by vehicle ID, or "unassigned" for receipts without a vehicle
+  byVehicle: Record<string, RefundTotals>;
+  byUploader: Record<string, RefundTotals>;
+}
+
+export const UNASSIGNED_VEHICLE = "unassigned";
+
+type RefundVehicle = Pick<Vehicle, "fuelType" | "active" | "weightUnder26000">;
+export type ReceiptWithVehicle = Receipt & { vehicle?: RefundVehicle | null };
+
+/**
+ * Determine the fuel type a receipt should be taxed under. The vehicle's
+ * registered fuel type wins; otherwise the fuel type detected on the receipt.
+ */
+export function getReceiptFuelType(receipt: Receipt, vehicle?: Pick<Vehicle, "fuelType"> | null): string | null {
+  return normalizeFuelType(vehicle?.fuelType) ?? normalizeFuelType(receipt.fuelType);
+}
+
+/**
+ * Look up the tax rate in effect on a date for a fuel type, falling back to
+ * the generic Motor Fuel schedule when that fuel type has no rate.
+ */
+export async function resolveTaxRate(date: string, fuelType: string | null): Promise<ResolvedTaxRate> {
+  if (fuelType && fuelType !== DEFAULT_FUEL_TYPE) {
+    const specific = await storage.getTaxRateByDate(date, fuelType);
+    if (specific) {
+      return { taxRate: specific, fuelType, fallback: false };
+    }
+  }
+
+  const generic = await storage.getTaxRateByDate(date, DEFAULT_FUEL_TYPE);
+  return {
+    taxRate: generic || null,
+    fuelType,
+    fallback: !!generic && !!fuelType && fuelType !== DEFAULT_FUEL_TYPE,
+  };
+}
+
+/**
+ * Build a memoized resolveTaxRate for bulk calculations, so each date and
+ * fuel type combination only hits the database once.
+ */
+export function createTaxRateResolver(): (date: string, fuelType: string | null) => Promise<ResolvedTaxRate> {
+  const cache = new Map<string, Promise<ResolvedTaxRate>>();
+  return (date, fuelType) => {
+    const key = `${date}|${fuelType ?? ""}`;
+    let resolved = cache.get(key);
+    if (!resolved) {
+      resolved = resolveTaxRate(date, fuelType);
+      cache.set(key, resolved);
+    }
+    return resolved;
+  };
+}
+
+/**
+ * Build a memoized lookup of each fiscal year's filing deadline, honouring
+ * any custom filing window on the fiscal year's plan.
+ */
+export function createFilingDeadlineResolver(): (fiscalYear: string) => Promise<string> {
+  const cache = new Map<string, Promise<string>>();
+  return (fiscalYear) => {
+    let deadline = cache.get(fiscalYear);
+    if (!deadline) {
+      deadline = storage.getFiscalYearPlan(fiscalYear)
+        .then(plan => getFiscalYearCalendar(fiscalYear, plan).filingDeadline);
+      cache.set(fiscalYear, deadline);
+    }
+    return deadline;
+  };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compute the refund for a single receipt from an already resolved tax rate.
+ *
+ * Eligibility comes from the rules in eligibility.ts (including any admin
+ * override). Ineligible receipts still report the rate and gallons that were
+ * considered, with a refund of zero and the reasons. `filedOn` is the date
+ * the claim is filed on, when computing the figures for a filing.
+ */
+export function computeReceiptRefund(
+  receipt: Receipt,
+  resolved: ResolvedTaxRate,
+  vehicle: RefundVehicle | null,
+  filingDeadline: string,
+  filedOn: string | null = null,
+  today: string = toDateString()
+): RefundLine {
+  const { taxRate } = resolved;
+  const { eligible, reasons, overridden } = evaluateEligibility({ receipt, vehicle, taxRate, filingDeadline, filedOn, today });
+
+  const gallons = parseFloat(receipt.gallons ?? "");
+  const baseRate = taxRate ? parseFloat(taxRate.baseRate) : NaN;
+  const increase = taxRate ? parseFloat(taxRate.increase) : NaN;
+
+  return {
+    receiptId: receipt.id,
+    fiscalYear: receipt.fiscalYear,
+    vehicleId: receipt.vehicleId,
+    uploadedBy: receipt.uploadedBy,
+    date: receipt.date,
+    stationName: receipt.stationName,
+    fuelType: resolved.fuelType,
+    ratePeriod: taxRate
+      ? { id: taxRate.id, fuelType: taxRate.fuelType, startDate: taxRate.startDate, endDate: taxRate.endDate }
+      : null,
+    rateFallback: resolved.fallback,
+    baseRate: isNaN(baseRate) ? 0 : baseRate,
+    increase: isNaN(increase) ? 0 : increase,
+    gallons: isNaN(gallons) ? 0 : gallons,
+    // Refund = gallons * increase per gallon, rounded per receipt so totals
+    // always equal the sum of the amounts shown on each line
+    refundAmount: eligible ? roundCents(gallons * increase) : 0,
+    eligible,
+    reasons,
+    overridden,
+    filed: false,
+  };
+}
+
+function emptyTotals(): RefundTotals {
+  return { receiptCount: 0, eligibleCount: 0, gallons: 0, refundAmount: 0 };
+}
+
+function addToTotals(totals: RefundTotals, line: RefundLine): void {
+  totals.receiptCount++;
+  if (!line.eligible) return;
+  totals.eligibleCount++;
+  totals.gallons = Math.round((totals.gallons + line.gallons) * 1000) / 1000;
+  totals.refundAmount = roundCents(totals.refundAmount + line.refundAmount);
+}
+
+/**
+ * Roll per-receipt refund lines up into totals overall and by fiscal year,
+ * vehicle and uploader. Gallons and refunds only count eligible receipts.
+ */
+export function summarizeRefunds(lines: RefundLine[]): RefundSummary {
+  const summary: RefundSummary = {
+    lines,
+    totals: emptyTotals(),
+    byFiscalYear: {},
+    byVehicle: {},
+    byUploader: {},
+  };
+
+  for (const line of lines) {
+    const vehicleKey = line.vehicleId ?? UNASSIGNED_VEHICLE;
+    summary.byFiscalYear[line.fiscalYear] ??= emptyTotals();
+    summary.byVehicle[vehicleKey] ??= emptyTotals();
+    summary.byUploader[line.uploadedBy] ??= emptyTotals();
+
+    addToTotals(summary.totals, line);
+    addToTotals(summary.byFiscalYear[line.fiscalYear], line);
+    addToTotals(summary.byVehicle[vehicleKey], line);
+    addToTotals(summary.byUploader[line.uploadedBy], line);
+  }
+
+  return summary;
+}
+
+/**
+ * Calculate refunds for a set of receipts.
+ * @param receipts - Receipts with their vehicle (needed for fuel type and eligibility)
+ * @param filedOn - Filing date (YYYY-MM-DD) the claim deadline is checked against; omit for unfiled figures
+ * @returns Per-receipt breakdown (in input order) and rolled up totals
+ */
+export async function calculateRefunds(receipts: ReceiptWithVehicle[], filedOn: string | null = null): Promise<RefundSummary> {
+  const getTaxRate = createTaxRateResolver();
+  const getFilingDeadline = createFilingDeadlineResolver();
+  const lines = await Promise.all(
+    receipts.map(async (receipt) => {
+      const resolved = await getTaxRate(receipt.date, getReceiptFuelType(receipt, receipt.vehicle));
+      const filingDeadline = await getFilingDeadline(receipt.fiscalYear);
+      return computeReceiptRefund(receipt, resolved, receipt.vehicle ?? null, filingDeadline, filedOn);
+    })
+  );
+  return summarizeRefunds(lines);
+}
+
+/**
+ * Calculate the refund for a single receipt.
+ * @param receipt - The receipt
+ * @param vehicle - The receipt's vehicle, used for its fuel type and eligibility
+ * @param filedOn - Filing date (YYYY-MM-DD) the claim deadline is checked against; omit for unfiled figures
+ */
+export async function calculateReceiptRefund(receipt: Receipt, vehicle?: RefundVehicle | null, filedOn: string | null = null): Promise<RefundLine> {
+  const resolved = await resolveTaxRate(receipt.date, getReceiptFuelType(receipt, vehicle));
+  const filingDeadline = await createFilingDeadlineResolver()(receipt.fiscalYear);
+  return computeReceiptRefund(receipt, resolved, vehicle ?? null, filingDeadline, filedOn);
+}
+
+/**
+ * Flatten a refund line into the tax fields returned alongside a receipt by
+ * the receipts API.
+ */
+export function toReceiptTaxFields(line: RefundLine) {
+  return {
+    taxRefund: line.refundAmount,
+    taxBaseRate: line.baseRate,
+    taxIncrease: line.increase,
+    taxFuelType: line.fuelType,
+    taxRateFallback: line.rateFallback,
+    taxRatePeriod: line.ratePeriod,
+    eligible: line.eligible,
+    eligibilityReasons: line.reasons,
+    eligibilityOverridden: line.overridden,
+    taxFiled: line.filed,
+  };
+}
@@ -2,18 +2,54 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
 import { storage } from "./storage";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import { transcribeReceipt } from "./openai";
-import { processReceiptImage, getCompressionStats } from "./imageProcessing";
-import { calculateReceiptTaxRefund, calculateRefundByFiscalYear } from "./taxCalculations";
+import { isTranscriptionProvider, getAvailableTranscriptionProviders } from "./transcription";
+import { enqueueJob, retryDeadJob } from "./jobs";
+import { checkAcceptedTranscription, getAcceptedTranscriptionUpdates } from "./receiptProcessing";
+import { getReceiptWarnings, getValidationReset, refreshVehicleReceiptWarnings } from "./receiptValidation";
+import { readOriginalUpload } from "./originalUploads";
+import { ingestReceiptUpload, stageBulkUpload, getBulkUploadSummary, createManualReceipt, getUploadQuotaError, ReceiptUploadError } from "./receiptUploads";
+import { parseReceiptFilters, parseReceiptQuery, listReceipts, summarizeReceipts } from "./receiptQueries";
+import { updateReceiptWithRevision } from "./receiptRevisions";
+import { getPurgeDate, getTrashRetentionDays, purgeReceipt, restoreReceipt, trashReceipt } from "./receiptTrash";
+import { MAX_RECEIPT_FILE_BYTES } from "@shared/receiptFiles";
+import { MAX_BULK_UPLOAD_FILES, MAX_BULK_ARCHIVE_BYTES, MAX_BULK_UPLOAD_BYTES } from "@shared/bulkUpload";
+import { toReceiptTaxFields } from "./refundEngine";
+import {
+  getLockingClaim,
+  getOrCreateClaim,
+  calculateClaimRefunds,
+  calculateReportRefunds,
+  fileClaim,
+  diffClaimSnapshot,
+} from "./claims";
+import { canTransitionClaim, type ClaimStatus } from "@shared/claims";
+import {
+  formatCalendarDate,
+  getFiscalYear,
+  getFiscalYearCalendar,
+  getCurrentFiscalYear,
+  isCalendarDate,
+  toDateString,
+  validateFilingCalendar,
+} from "@shared/filingCalendar";
+import { isManualEvidenceType, MANUAL_EVIDENCE_TYPES } from "@shared/receiptEvidence";
+import { generateForm4923H, type Form4923HLine } from "./form4923h";
+import { buildExportData, parseExportColumns, toCSV, toJSON, toXLSX } from "./exports";
+import { writeAuditPacket, auditPacketFileName } from "./auditPacket";
+import { EXPORT_FORMATS, isExportFormat } from "@shared/exports";
+import { validateTaxRatePeriod, validateTaxRateDeletion, normalizeFuelType, DEFAULT_FUEL_TYPE, type TaxRatePeriod } from "./taxRates";
 import { 
   insertReceiptSchema, 
   insertUserSchema, 
   insertAccountSchema,
   insertVehicleSchema,
   insertAccountMemberSchema,
-  insertFiscalYearPlanSchema
+  insertFiscalYearPlanSchema,
+  type Receipt,
 } from "@shared/schema";
 import multer from "multer";
 import { createAuthCodeForEmail, verifyAuthCode, createSession, getUserFromSession } from "./auth";
@@ -78,6 +114,18 @@ const receiptUploadLimiter = rateLimit({
   },
 } as Partial<Options>);
 
+// Bulk uploads carry up to MAX_BULK_UPLOAD_FILES receipts each
+const receiptBulkUploadLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 3, // 3 batches per minute per account
+  message: { error: "Upload limit exceeded. Please try again in a minute." },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: any, res: any) => {
+    return req.params?.accountId || ipKeyGenerator(req, res);
+  },
+} as Partial<Options>);
+
 const vinLookupLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
   max: 20, // 20 VIN lookups per minute per user
@@ -91,9 +139,28 @@ const vinLookupLimiter = rateLimit({
 
 const upload = multer({
   storage: multer.memoryStorage(),
-  limits: { fileSize: 10 * 1024 * 1024 },
+  limits: { fileSize: MAX_RECEIPT_FILE_BYTES },
+});
+
+// ZIP archives may be larger than one receipt; files inside are size-checked individually.
+// Bulk files are written to disk, not held in memory, until they are staged.
+const bulkUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: MAX_BULK_ARCHIVE_BYTES, files: MAX_BULK_UPLOAD_FILES },
 });
 
+// Turn away a bulk upload larger than MAX_BULK_UPLOAD_BYTES before any of it is read
+function bulkUploadSizeMiddleware(req: any, res: any, next: any) {
+  const length = parseInt(req.get("content-length") ?? "", 10);
+  if (isNaN(length)) {
+    return res.status(411).json({ error: "Content-Length is required" });
+  }
+  if (length > MAX_BULK_UPLOAD_BYTES) {
+    return res.status(413).json({ error: `Uploads are limited to ${MAX_BULK_UPLOAD_BYTES / 1024 / 1024}MB at once` });
+  }
+  next();
+}
+
 async function authMiddleware(req: any, res: any, next: any) {
   const sessionId = req.cookies?.sessionId;
   const userId = await getUserFromSession(sessionId);
@@ -508,6 +575,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/accounts/:accountId", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
     try {
       const validated = insertAccountSchema.partial().omit({ ownerId: true }).parse(req.body);
+
+      if (validated.transcriptionProvider && !isTranscriptionProvider(validated.transcriptionProvider)) {
+        return res.status(400).json({
+          error: "Unknown transcription provider",
+          providers: getAvailableTranscriptionProviders(),
+        });
+      }
       const updated = await storage.updateAccount(req.accountId, validated);
       
       if (!updated) {
@@ -570,10 +644,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
       });
       
-      // Send invitation email
-      const { sendInvitationEmail } = await import("./auth");
+      // Queue invitation email (retried if sending fails)
       const inviterName = inviter ? `${inviter.firstName || ""} ${inviter.lastName || ""}`.trim() : undefined;
-      await sendInvitationEmail(normalizedEmail, account?.name || "Unknown Account", role || "member", inviterName);
+      await enqueueJob("invitation_email", {
+        toEmail: normalizedEmail,
+        accountName: account?.name || "Unknown Account",
+        role: role || "member",
+        inviterName,
+      });
       
       res.json(invitation);
     } catch (error) {
@@ -746,6 +824,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updated) {
         return res.status(404).json({ error: "Vehicle not found" });
       }
+
+      // The tank size feeds the "too many gallons" warning on this vehicle's receipts
+      if (validated.tankCapacityGallons !== undefined && validated.tankCapacityGallons !== vehicle.tankCapacityGallons) {
+        await refreshVehicleReceiptWarnings(req.accountId, id);
+      }
       
       res.json(updated);
     } catch (error) {
@@ -893,6 +976,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // One page of receipts, filtered and sorted server-side; see shared/receiptQuery.ts for the parameters
   app.get("/api/accounts/:accountId/receipts", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
     try {
       // Get user role for filtering
@@ -901,83 +985,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!role) {
         return res.status(403).json({ error: "Access denied" });
       }
-      
-      // Filter receipts based on role
-      const receipts = await storage.getAccountReceiptsForUser(req.accountId, req.userId, role);
-      
-      // Pre-fetch all unique tax rates once
-      const uniqueDates = Array.from(new Set(receipts.map(r => r.date)));
-      const taxRateCache = new Map<string, any>();
-      
-      for (const date of uniqueDates) {
-        const rate = await storage.getTaxRateByDate(date);
-        taxRateCache.set(date, rate || null);
-      }
-      
-      // Calculate refunds using cached tax rates - only for Missouri receipts
-      const receiptsWithTax = receipts.map((receipt) => {
-        const taxRate = taxRateCache.get(receipt.date);
-        
-        // Only Missouri purchases are eligible for refund
-        const isMissouri = receipt.sellerState?.toUpperCase() === "MO";
-        
-        if (!taxRate || !isMissouri) {
-          return {
-            ...receipt,
-            taxRefund: 0,
-            taxBaseRate: 0,
-            taxIncrease: 0,
-            eligible: isMissouri,
-          };
-        }
-        
-        const gallons = parseFloat(receipt.gallons || "0");
-        const baseRate = parseFloat(taxRate.baseRate);
-        const increase = parseFloat(taxRate.increase);
-        
-        // Validate and calculate
-        if (isNaN(gallons) || isNaN(baseRate) || isNaN(increase)) {
-          console.warn(`Invalid tax data for receipt ${receipt.id}`);
-          return {
-            ...receipt,
-            taxRefund: 0,
-            taxBaseRate: 0,
-            taxIncrease: 0,
-            eligible: true,
-          };
-        }
-        
-        const refundAmount = gallons * increase;
-        
-        return {
-          ...receipt,
-          taxRefund: parseFloat(refundAmount.toFixed(2)),
-          taxBaseRate: baseRate,
-          taxIncrease: increase,
-          eligible: true,
-        };
-      });
-      
-      // Calculate fiscal year totals from already-computed refunds (only eligible receipts)
-      const refundByYear = new Map<string, number>();
-      for (const receipt of receiptsWithTax) {
-        if (!receipt.eligible) continue;
-        const currentTotal = refundByYear.get(receipt.fiscalYear) || 0;
-        refundByYear.set(receipt.fiscalYear, currentTotal + receipt.taxRefund);
+
+      const { query, invalid } = parseReceiptQuery(req.query);
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: `Invalid receipt query parameters: ${invalid.join(", ")}` });
       }
       
-      const refundTotals = Object.fromEntries(refundByYear);
-      
-      res.json({
-        receipts: receiptsWithTax,
-        refundTotals,
-      });
+      // Members only see receipts they uploaded or for their vehicles
+      res.json(await listReceipts({ accountId: req.accountId, userId: req.userId, role }, query));
     } catch (error) {
       console.error("Error getting receipts:", error);
       res.status(500).json({ error: "Failed to get receipts" });
     }
   });
 
+  // Counts and refund totals for the receipts matching the same filters as the list
+  app.get("/api/accounts/:accountId/receipts/summary", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      
+      if (!role) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { filters: { eligibility, ...filters }, invalid } = parseReceiptFilters(req.query);
+      if (eligibility) {
+        invalid.push("eligibility");
+      }
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: `Invalid receipt query parameters: ${invalid.join(", ")}` });
+      }
+
+      res.json(await summarizeReceipts({ accountId: req.accountId, userId: req.userId, role }, filters));
+    } catch (error) {
+      console.error("Error getting receipt summary:", error);
+      res.status(500).json({ error: "Failed to get receipt summary" });
+    }
+  });
+
   app.post("/api/accounts/:accountId/receipts/upload", authMiddleware, accountAccessMiddleware, receiptUploadLimiter, upload.single("receipt"), async (req: any, res) => {
     try {
       if (!req.file) {
@@ -985,67 +1030,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Server-side subscription enforcement
-      const fiscalYear = getFiscalYear(new Date().toISOString().split('T')[0]);
-      const subscriptionStatus = await stripeService.getSubscriptionStatus(req.accountId, fiscalYear);
-      
-      if (subscriptionStatus.upgradeRequired) {
-        return res.status(403).json({ 
-          error: "Subscription required",
-          message: subscriptionStatus.receiptCount >= 8 
-            ? "You've reached the 8-receipt trial limit. Please subscribe to continue uploading receipts."
-            : "Your 30-day trial has ended. Please subscribe to continue uploading receipts.",
-          upgradeRequired: true
-        });
+      const quotaError = await getUploadQuotaError(req.accountId);
+      if (quotaError) {
+        return res.status(403).json(quotaError);
       }
 
-      const { vehicleId } = req.body;
-
-      // Process image for optimal OCR and storage
-      // Resize to 1024px max, convert to grayscale JPEG at 80% quality
-      const processed = await processReceiptImage(req.file.buffer);
-      const stats = getCompressionStats(processed.originalSize, processed.processedSize);
-      console.log(`Receipt image processed: ${stats.originalKB}KB → ${stats.processedKB}KB (${stats.reductionPercent}% reduction)`);
-
-      // Upload processed image to object storage using Replit SDK, organized by accountId
-      const objectPath = await objectStorageService.uploadObject(
-        processed.buffer,
-        processed.mimetype,
-        req.accountId
-      );
-
-      // Get the normalized path for serving the image
-      const normalizedPath = objectStorageService.normalizeObjectPath(objectPath);
-
-      const fullImageUrl = `${req.protocol}://${req.get('host')}${normalizedPath}`;
-
-      // Create receipt immediately with pending status (placeholder values for required fields)
-      const receiptData = {
+      const { receipt } = await ingestReceiptUpload({
         accountId: req.accountId,
-        vehicleId: vehicleId || null,
-        uploadedBy: req.userId,
-        imageUrl: fullImageUrl,
-        date: new Date().toISOString().split('T')[0],
-        stationName: "Processing...",
-        fiscalYear: getFiscalYear(new Date().toISOString().split('T')[0]),
-        processingStatus: "pending" as const,
-      };
-
-      const validated = insertReceiptSchema.parse(receiptData);
-      const receipt = await storage.createReceipt(validated);
-      
-      // Increment the receipt counter for the account (legacy field)
-      await storage.incrementReceiptCounter(req.accountId);
-      
-      // Increment the subscription receipt count for trial enforcement (fiscalYear already defined above)
-      await stripeService.incrementReceiptCount(req.accountId, fiscalYear);
+        userId: req.userId,
+        vehicleId: req.body.vehicleId || null,
+        file: req.file.buffer,
+        mimeType: req.file.mimetype,
+        fileName: req.file.originalname,
+        baseUrl: `${req.protocol}://${req.get('host')}`,
+      });
 
       // Return immediately to allow user to continue
       res.json(receipt);
-
-      // Process AI transcription in background (after response sent)
-      // Use the processed (optimized) image for AI transcription
-      processReceiptInBackground(receipt.id, processed.buffer, processed.mimetype);
     } catch (error) {
+      if (error instanceof ReceiptUploadError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Error uploading receipt:", error);
       res.status(500).json({ 
         error: safeErrorMessage(error, "Failed to process receipt")
@@ -1053,47 +1058,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Background processing function
-  async function processReceiptInBackground(receiptId: string, fileBuffer: Buffer, mimeType: string) {
+  // Upload many receipt files (or ZIPs of them) at once. The files are staged
+  // and processed one by one in the background; poll the batch for results.
+  app.post("/api/accounts/:accountId/receipts/bulk-upload", authMiddleware, accountAccessMiddleware, receiptBulkUploadLimiter, bulkUploadSizeMiddleware, bulkUpload.array("receipts", MAX_BULK_UPLOAD_FILES), async (req: any, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
     try {
-      // Update status to processing
-      await storage.updateReceipt(receiptId, { processingStatus: "processing" });
-
-      // Transcribe using AI
-      const transcription = await transcribeReceipt(fileBuffer, mimeType);
+      if (files.length === 0) {
+        return res.status(400).json({ error: "No files uploaded" });
+      }
 
-      // Handle nullable date - use today's date as fallback if AI couldn't read the date
-      const extractedDate = transcription.date || new Date().toISOString().split('T')[0];
-      const fiscalYear = getFiscalYear(extractedDate);
-      const gallons = normalizeNumeric(transcription.gallons) ?? undefined;
-      const pricePerGallon = normalizeNumeric(transcription.pricePerGallon) ?? undefined;
-      const totalAmount = normalizeNumeric(transcription.totalAmount) ?? undefined;
+      // Nothing can be stored once the quota is used up, so say so once rather than per file
+      const quotaError = await getUploadQuotaError(req.accountId);
+      if (quotaError) {
+        return res.status(403).json(quotaError);
+      }
 
-      // Update receipt with transcribed data
-      await storage.updateReceipt(receiptId, {
-        date: extractedDate,
-        stationName: transcription.stationName,
-        sellerStreet: transcription.sellerStreet ?? undefined,
-        sellerCity: transcription.sellerCity ?? undefined,
-        sellerState: transcription.sellerState ?? undefined,
-        sellerZip: transcription.sellerZip ?? undefined,
-        gallons,
-        pricePerGallon,
-        totalAmount,
-        fiscalYear,
-        processingStatus: "completed",
-        processingError: transcription.date ? null : "Date could not be read - please verify",
+      const summary = await stageBulkUpload({
+        accountId: req.accountId,
+        userId: req.userId,
+        vehicleId: req.body.vehicleId || null,
+        baseUrl: `${req.protocol}://${req.get('host')}`,
+        files: files.map(file => ({ fileName: file.originalname, mimeType: file.mimetype, path: file.path, size: file.size })),
       });
+      console.log(`Bulk upload ${summary.batchId} for account ${req.accountId}: ${summary.queued} queued, ${summary.failed} failed`);
+
+      res.status(202).json(summary);
+    } catch (error) {
+      console.error("Error bulk uploading receipts:", error);
+      res.status(500).json({ error: "Failed to upload receipts" });
+    } finally {
+      await Promise.all(files.map(file => fs.unlink(file.path).catch(() => undefined)));
+    }
+  });
 
-      console.log(`Receipt ${receiptId} processed successfully`);
+  // Per-file results of a bulk upload so far
+  app.get("/api/accounts/:accountId/receipts/bulk-upload/:batchId", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const summary = await getBulkUploadSummary(req.params.batchId, req.accountId, req.userId);
+      if (!summary) {
+        return res.status(404).json({ error: "Bulk upload not found" });
+      }
+      res.json(summary);
     } catch (error) {
-      console.error(`Error processing receipt ${receiptId}:`, error);
-      await storage.updateReceipt(receiptId, {
-        processingStatus: "failed",
-        processingError: error instanceof Error ? error.message : "Unknown error",
+      console.error("Error getting bulk upload:", error);
+      res.status(500).json({ error: "Failed to get bulk upload" });
+    }
+  });
+
+  // Record a purchase whose receipt was lost, with an optional supporting document
+  app.post("/api/accounts/:accountId/receipts/manual", authMiddleware, accountAccessMiddleware, receiptUploadLimiter, upload.single("document"), async (req: any, res) => {
+    try {
+      const { evidenceType, date } = req.body;
+      if (typeof evidenceType !== "string" || !isManualEvidenceType(evidenceType)) {
+        return res.status(400).json({ error: `evidenceType must be one of: ${MANUAL_EVIDENCE_TYPES.join(", ")}` });
+      }
+
+      const quotaError = await getUploadQuotaError(req.accountId);
+      if (quotaError) {
+        return res.status(403).json(quotaError);
+      }
+
+      if (typeof date === "string" && isCalendarDate(date)) {
+        const lockedClaim = await getLockingClaim(req.accountId, getFiscalYear(date));
+        if (lockedClaim) {
+          return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+        }
+      }
+
+      const text = (value: unknown) => typeof value === "string" && value.trim() ? value.trim() : null;
+      const { receipt } = await createManualReceipt({
+        accountId: req.accountId,
+        userId: req.userId,
+        vehicleId: text(req.body.vehicleId),
+        evidenceType,
+        date: typeof date === "string" ? date : "",
+        stationName: text(req.body.stationName) ?? "",
+        sellerStreet: text(req.body.sellerStreet),
+        sellerCity: text(req.body.sellerCity),
+        sellerState: text(req.body.sellerState)?.toUpperCase() ?? null,
+        sellerZip: text(req.body.sellerZip),
+        gallons: normalizeNumeric(req.body.gallons),
+        pricePerGallon: normalizeNumeric(req.body.pricePerGallon),
+        totalAmount: normalizeNumeric(req.body.totalAmount),
+        fuelType: text(req.body.fuelType),
+        document: req.file
+          ? { file: req.file.buffer, mimeType: req.file.mimetype, fileName: req.file.originalname }
+          : undefined,
       });
+
+      res.json(receipt);
+    } catch (error) {
+      if (error instanceof ReceiptUploadError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error creating manual receipt:", error);
+      res.status(500).json({ error: "Failed to create receipt" });
     }
-  }
+  });
 
   app.put("/api/accounts/:accountId/receipts/:id", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
     try {
@@ -1126,13 +1187,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         rawUpdates.totalAmount = normalizeNumeric(rawUpdates.totalAmount);
       }
 
-      const updates = insertReceiptSchema.partial().parse(rawUpdates);
-      
+      // Receipts in a filed fiscal year are read-only until the claim is reopened
+      const lockedClaim = await getLockingClaim(req.accountId, existing.fiscalYear);
+      if (lockedClaim) {
+        return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+      }
+
+      // Eligibility overrides and validation go through the dedicated admin endpoints
+      const updates = insertReceiptSchema.partial().omit({
+        validated: true,
+        eligibilityOverride: true,
+        eligibilityOverrideReason: true,
+        eligibilityOverrideBy: true,
+        eligibilityOverrideAt: true,
+        fieldConfidence: true,
+        needsReview: true,
+        imageHash: true,
+        duplicateOfId: true,
+        duplicateDismissed: true,
+        originalImagePath: true,
+        originalImageType: true,
+        originalImageEncrypted: true,
+        imageUrl: true,
+        evidenceType: true,
+        deletedAt: true,
+        deletedBy: true,
+      }).parse(rawUpdates);
+
       const fiscalYear = getFiscalYear(updates.date || existing.date);
-      const updatedReceipt = await storage.updateReceipt(id, {
+      if (fiscalYear !== existing.fiscalYear && await getLockingClaim(req.accountId, fiscalYear)) {
+        return res.status(409).json(lockedClaimError(fiscalYear));
+      }
+
+      const validationWarnings = await getReceiptWarnings({ ...existing, ...updates });
+
+      const updatedReceipt = await updateReceiptWithRevision(existing, {
         ...updates,
         fiscalYear,
-      });
+        validationWarnings,
+        ...getValidationReset(existing, updates),
+      }, { source: "user", actorId: req.userId });
 
       if (!updatedReceipt) {
         return res.status(404).json({ error: "Receipt not found" });
@@ -1145,6 +1239,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Re-run transcription on a receipt's stored image. Failed receipts are
+  // transcribed again; processed ones get a proposal to review in the modal.
+  app.post("/api/accounts/:accountId/receipts/:id/reprocess", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      if (receipt.accountId !== req.accountId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Check role-based access - members can only reprocess their own receipts
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      if (role === 'member' && receipt.uploadedBy !== req.userId) {
+        return res.status(403).json({ error: "Access denied - you can only reprocess your own receipts" });
+      }
+
+      if (!receipt.imageUrl) {
+        return res.status(400).json({ error: "Manual entries have no image to transcribe" });
+      }
+
+      const lockedClaim = await getLockingClaim(req.accountId, receipt.fiscalYear);
+      if (lockedClaim) {
+        return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+      }
+
+      const job = await queueReprocess(receipt);
+      res.status(202).json({ receiptId: receipt.id, jobId: job.id });
+    } catch (error) {
+      console.error("Error reprocessing receipt:", error);
+      res.status(500).json({ error: "Failed to reprocess receipt" });
+    }
+  });
+
+  // Bulk re-transcription: the given receipts, or every failed receipt when
+  // `status: "failed"` is sent instead. Receipts in filed fiscal years are skipped.
+  app.post("/api/accounts/:accountId/receipts/reprocess", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { receiptIds, status } = req.body;
+      if (!Array.isArray(receiptIds) && status !== "failed") {
+        return res.status(400).json({ error: "receiptIds or status: \"failed\" is required" });
+      }
+      if (Array.isArray(receiptIds) && receiptIds.length > BULK_REPROCESS_LIMIT) {
+        return res.status(400).json({ error: `At most ${BULK_REPROCESS_LIMIT} receipts can be reprocessed at once` });
+      }
+
+      const accountReceipts = await storage.getAccountReceipts(req.accountId);
+      const targets = Array.isArray(receiptIds)
+        ? accountReceipts.filter(r => receiptIds.includes(r.id))
+        : accountReceipts.filter(r => r.processingStatus === "failed").slice(0, BULK_REPROCESS_LIMIT);
+
+      const queued: string[] = [];
+      const skipped: { receiptId: string; reason: string }[] = [];
+      for (const receipt of targets) {
+        if (!receipt.imageUrl) {
+          skipped.push({ receiptId: receipt.id, reason: "Manual entry has no image" });
+          continue;
+        }
+        if (await getLockingClaim(req.accountId, receipt.fiscalYear)) {
+          skipped.push({ receiptId: receipt.id, reason: `FY ${receipt.fiscalYear} has been filed` });
+          continue;
+        }
+        await queueReprocess(receipt);
+        queued.push(receipt.id);
+      }
+
+      res.status(202).json({ queued, skipped });
+    } catch (error) {
+      console.error("Error reprocessing receipts:", error);
+      res.status(500).json({ error: "Failed to reprocess receipts" });
+    }
+  });
+
+  // Apply the chosen fields from a re-transcription proposal
+  app.post("/api/accounts/:accountId/receipts/:id/reprocess/accept", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      if (receipt.accountId !== req.accountId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      if (role === 'member' && receipt.uploadedBy !== req.userId) {
+        return res.status(403).json({ error: "Access denied - you can only edit your own receipts" });
+      }
+
+      if (!receipt.pendingTranscription) {
+        return res.status(409).json({ error: "This receipt has no new transcription to review" });
+      }
+
+      const { fields } = req.body;
+      if (!Array.isArray(fields) || fields.some((field: unknown) => typeof field !== "string" || !(field in receipt.pendingTranscription!.values))) {
+        return res.status(400).json({ error: "fields must be a list of transcription fields" });
+      }
+
+      const updates = getAcceptedTranscriptionUpdates(receipt, receipt.pendingTranscription, fields);
+      for (const fiscalYear of Array.from(new Set([receipt.fiscalYear, updates.fiscalYear ?? receipt.fiscalYear]))) {
+        const lockedClaim = await getLockingClaim(req.accountId, fiscalYear);
+        if (lockedClaim) {
+          return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+        }
+      }
+
+      const updated = await updateReceiptWithRevision(
+        receipt,
+        await checkAcceptedTranscription(receipt, updates),
+        { source: "reprocess", actorId: req.userId }
+      );
+      res.json(updated);
+    } catch (error) {
+      console.error("Error accepting transcription:", error);
+      res.status(500).json({ error: "Failed to apply transcription" });
+    }
+  });
+
+  // Discard a re-transcription proposal
+  app.delete("/api/accounts/:accountId/receipts/:id/reprocess", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      if (receipt.accountId !== req.accountId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      if (role === 'member' && receipt.uploadedBy !== req.userId) {
+        return res.status(403).json({ error: "Access denied - you can only edit your own receipts" });
+      }
+
+      const updated = await storage.updateReceipt(receipt.id, { pendingTranscription: null });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error discarding transcription:", error);
+      res.status(500).json({ error: "Failed to discard transcription" });
+    }
+  });
+
+  // Resolve a suspected duplicate as a separate purchase so it counts toward refunds
+  app.post("/api/accounts/:accountId/receipts/:id/not-duplicate", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      if (receipt.accountId !== req.accountId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      if (role === 'member' && receipt.uploadedBy !== req.userId) {
+        return res.status(403).json({ error: "Access denied - you can only edit your own receipts" });
+      }
+
+      const lockedClaim = await getLockingClaim(req.accountId, receipt.fiscalYear);
+      if (lockedClaim) {
+        return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+      }
+
+      const updated = await updateReceiptWithRevision(
+        receipt,
+        { duplicateOfId: null, duplicateDismissed: true },
+        { source: "user", actorId: req.userId }
+      );
+      res.json(updated);
+    } catch (error) {
+      console.error("Error resolving duplicate:", error);
+      res.status(500).json({ error: "Failed to resolve duplicate" });
+    }
+  });
+
   // Get single receipt for status polling
   app.get("/api/accounts/:accountId/receipts/:id", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
     try {
@@ -1180,8 +1454,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Calculate tax refund if the receipt is processed
       if (receipt.processingStatus === "completed" && receipt.gallons && receipt.date) {
-        const taxInfo = await calculateReceiptTaxRefund(receipt);
-        res.json({ ...receipt, ...taxInfo });
+        const vehicle = receipt.vehicleId ? await storage.getVehicleById(receipt.vehicleId) : null;
+        const refunds = await calculateReportRefunds(req.accountId, [{ ...receipt, vehicle }]);
+        res.json({ ...receipt, ...toReceiptTaxFields(refunds.lines[0]) });
       } else {
         res.json(receipt);
       }
@@ -1191,12 +1466,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/accounts/:accountId/receipts/:id", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+  // Every recorded change to a receipt, newest first
+  app.get("/api/accounts/:accountId/receipts/:id/revisions", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
     try {
-      const { id } = req.params;
-      
-      const receipt = await storage.getReceipt(id);
-      
+      const receipt = await storage.getReceipt(req.params.id);
       if (!receipt) {
         return res.status(404).json({ error: "Receipt not found" });
       }
@@ -1205,49 +1478,753 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied" });
       }
 
-      // Check role-based access - members can only delete their own receipts
       const role = await storage.getUserRole(req.accountId, req.userId);
       if (role === 'member' && receipt.uploadedBy !== req.userId) {
-        return res.status(403).json({ error: "Access denied - you can only delete your own receipts" });
+        const vehicleMembers = receipt.vehicleId ? await storage.getVehicleMembers(receipt.vehicleId) : [];
+        if (!vehicleMembers.some(vm => vm.userId === req.userId)) {
+          return res.status(403).json({ error: "Access denied - you can only view your own receipts" });
+        }
       }
 
-      // Delete image from object storage FIRST before deleting DB entry
-      const objectPath = receipt.imageUrl.replace(`${req.protocol}://${req.get('host')}`, '');
-      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
-      await objectStorageService.deleteObject(objectFile);
+      const revisions = await storage.getReceiptRevisions(receipt.id);
+      res.json(revisions.map(({ actor, ...revision }) => ({
+        ...revision,
+        actor: actor ? { id: actor.id, firstName: actor.firstName, lastName: actor.lastName, email: actor.email } : null,
+      })));
+    } catch (error) {
+      console.error("Error getting receipt history:", error);
+      res.status(500).json({ error: "Failed to get receipt history" });
+    }
+  });
 
-      // Only delete DB entry after image is successfully deleted
-      const deleted = await storage.deleteReceipt(id);
-      
-      if (!deleted) {
+  // The upload as received, decrypted; the processed grayscale image is served from /objects
+  app.get("/api/accounts/:accountId/receipts/:id/original", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt) {
         return res.status(404).json({ error: "Receipt not found" });
       }
 
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Error deleting receipt:", error);
-      res.status(500).json({ error: "Failed to delete receipt" });
-    }
-  });
+      if (receipt.accountId !== req.accountId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
-  // ==================== ADMIN ROUTES ====================
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      if (role === 'member' && receipt.uploadedBy !== req.userId) {
+        const vehicleMembers = receipt.vehicleId ? await storage.getVehicleMembers(receipt.vehicleId) : [];
+        if (!vehicleMembers.some(vm => vm.userId === req.userId)) {
+          return res.status(403).json({ error: "Access denied - you can only view your own receipts" });
+        }
+      }
 
-  app.get("/api/admin/plans", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
-    try {
-      const plans = await storage.getAllFiscalYearPlans();
-      res.json(plans);
+      if (!receipt.originalImagePath) {
+        return res.status(404).json({ error: "No original image was kept for this receipt" });
+      }
+
+      const { buffer, contentType } = await readOriginalUpload(receipt);
+      res.set({
+        "Content-Type": contentType,
+        "Cache-Control": "private, max-age=3600",
+        "Content-Length": buffer.length.toString(),
+      });
+      res.send(buffer);
     } catch (error) {
-      console.error("Error getting plans:", error);
-      res.status(500).json({ error: "Failed to get plans" });
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Original image not found" });
+      }
+      console.error("Error getting original image:", error);
+      res.status(500).json({ error: "Failed to get original image" });
     }
   });
 
-  app.post("/api/admin/plans", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+  // Admin override of the eligibility rules, with a recorded justification
+  app.put("/api/accounts/:accountId/receipts/:id/eligibility-override", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
     try {
-      if (!stripeService.isStripeConfigured()) {
-        return res.status(503).json({ 
-          error: "Stripe not configured", 
-          message: "Please configure STRIPE_SECRET_KEY to enable plan creation" 
+      const { id } = req.params;
+      const { eligible, justification } = req.body;
+
+      if (typeof eligible !== "boolean") {
+        return res.status(400).json({ error: "eligible must be true or false" });
+      }
+      if (typeof justification !== "string" || justification.trim().length < 10) {
+        return res.status(400).json({ error: "A justification of at least 10 characters is required" });
+      }
+
+      const receipt = await storage.getReceipt(id);
+      if (!receipt || receipt.accountId !== req.accountId) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      const lockedClaim = await getLockingClaim(req.accountId, receipt.fiscalYear);
+      if (lockedClaim) {
+        return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+      }
+
+      const updated = await updateReceiptWithRevision(receipt, {
+        eligibilityOverride: eligible,
+        eligibilityOverrideReason: justification.trim(),
+        eligibilityOverrideBy: req.userId,
+        eligibilityOverrideAt: new Date(),
+      }, { source: "admin_override", actorId: req.userId });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error overriding receipt eligibility:", error);
+      res.status(500).json({ error: "Failed to override eligibility" });
+    }
+  });
+
+  app.delete("/api/accounts/:accountId/receipts/:id/eligibility-override", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+
+      const receipt = await storage.getReceipt(id);
+      if (!receipt || receipt.accountId !== req.accountId) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      const lockedClaim = await getLockingClaim(req.accountId, receipt.fiscalYear);
+      if (lockedClaim) {
+        return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+      }
+
+      const updated = await updateReceiptWithRevision(receipt, {
+        eligibilityOverride: null,
+        eligibilityOverrideReason: null,
+        eligibilityOverrideBy: null,
+        eligibilityOverrideAt: null,
+      }, { source: "admin_override", actorId: req.userId });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error clearing eligibility override:", error);
+      res.status(500).json({ error: "Failed to clear eligibility override" });
+    }
+  });
+
+  // Approve a receipt from the review queue, with any corrections the reviewer
+  // made. Only validated receipts count toward a claim, so members cannot do this.
+  app.post("/api/accounts/:accountId/receipts/:id/approve", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const receipt = await storage.getReceipt(req.params.id);
+      if (!receipt || receipt.accountId !== req.accountId) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      const rawUpdates = { ...req.body };
+      for (const field of ["gallons", "pricePerGallon", "totalAmount"]) {
+        if (rawUpdates[field] !== undefined) {
+          rawUpdates[field] = normalizeNumeric(rawUpdates[field]);
+        }
+      }
+
+      const corrections = insertReceiptSchema.partial().pick({
+        date: true,
+        stationName: true,
+        sellerStreet: true,
+        sellerCity: true,
+        sellerState: true,
+        sellerZip: true,
+        gallons: true,
+        pricePerGallon: true,
+        totalAmount: true,
+        fuelType: true,
+        vehicleId: true,
+      }).parse(rawUpdates);
+
+      const fiscalYear = getFiscalYear(corrections.date || receipt.date);
+      for (const year of Array.from(new Set([receipt.fiscalYear, fiscalYear]))) {
+        const lockedClaim = await getLockingClaim(req.accountId, year);
+        if (lockedClaim) {
+          return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+        }
+      }
+
+      const validationWarnings = await getReceiptWarnings({ ...receipt, ...corrections });
+      const updated = await updateReceiptWithRevision(receipt, {
+        ...corrections,
+        fiscalYear,
+        validationWarnings,
+        validated: true,
+        // Validating a receipt confirms any low-confidence fields
+        needsReview: false,
+      }, { source: "review", actorId: req.userId });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error approving receipt:", error);
+      res.status(500).json({ error: "Failed to approve receipt" });
+    }
+  });
+
+  // Reject a receipt from the review queue: it is marked reviewed and
+  // overridden ineligible, so it leaves the queue and is never claimed
+  app.post("/api/accounts/:accountId/receipts/:id/reject", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { justification } = req.body;
+
+      if (typeof justification !== "string" || justification.trim().length < 10) {
+        return res.status(400).json({ error: "A justification of at least 10 characters is required" });
+      }
+
+      const receipt = await storage.getReceipt(id);
+      if (!receipt || receipt.accountId !== req.accountId) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      const lockedClaim = await getLockingClaim(req.accountId, receipt.fiscalYear);
+      if (lockedClaim) {
+        return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+      }
+
+      const updated = await updateReceiptWithRevision(receipt, {
+        validated: true,
+        needsReview: false,
+        eligibilityOverride: false,
+        eligibilityOverrideReason: justification.trim(),
+        eligibilityOverrideBy: req.userId,
+        eligibilityOverrideAt: new Date(),
+      }, { source: "admin_override", actorId: req.userId });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error rejecting receipt:", error);
+      res.status(500).json({ error: "Failed to reject receipt" });
+    }
+  });
+
+  app.delete("/api/accounts/:accountId/receipts/:id", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      
+      const receipt = await storage.getReceipt(id);
+      
+      if (!receipt) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      if (receipt.accountId !== req.accountId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Check role-based access - members can only delete their own receipts
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      if (role === 'member' && receipt.uploadedBy !== req.userId) {
+        return res.status(403).json({ error: "Access denied - you can only delete your own receipts" });
+      }
+
+      const lockedClaim = await getLockingClaim(req.accountId, receipt.fiscalYear);
+      if (lockedClaim) {
+        return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+      }
+
+      // Moved to the trash; the image is only deleted when the receipt is purged
+      const trashed = await trashReceipt(receipt, req.userId);
+      
+      if (!trashed) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+
+      res.json({ success: true, purgeAt: getPurgeDate(trashed) });
+    } catch (error) {
+      console.error("Error deleting receipt:", error);
+      res.status(500).json({ error: "Failed to delete receipt" });
+    }
+  });
+
+  // Receipts in the trash, with the date each will be purged
+  app.get("/api/accounts/:accountId/trash", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      const receipts = await storage.getTrashedReceipts(req.accountId, req.userId, role || "member");
+
+      res.json({
+        retentionDays: getTrashRetentionDays(),
+        receipts: receipts.map(receipt => ({ ...receipt, purgeAt: getPurgeDate(receipt) })),
+      });
+    } catch (error) {
+      console.error("Error getting trash:", error);
+      res.status(500).json({ error: "Failed to get trash" });
+    }
+  });
+
+  app.post("/api/accounts/:accountId/trash/:id/restore", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const receipt = await storage.getTrashedReceipt(req.params.id);
+      if (!receipt || receipt.accountId !== req.accountId) {
+        return res.status(404).json({ error: "Receipt not found in the trash" });
+      }
+
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      if (role === 'member' && receipt.uploadedBy !== req.userId) {
+        return res.status(403).json({ error: "Access denied - you can only restore your own receipts" });
+      }
+
+      // Restoring would change a filed fiscal year's receipts
+      const lockedClaim = await getLockingClaim(req.accountId, receipt.fiscalYear);
+      if (lockedClaim) {
+        return res.status(409).json(lockedClaimError(lockedClaim.fiscalYear));
+      }
+
+      const restored = await restoreReceipt(receipt, req.userId);
+      if (!restored) {
+        return res.status(404).json({ error: "Receipt not found in the trash" });
+      }
+
+      res.json(restored);
+    } catch (error) {
+      console.error("Error restoring receipt:", error);
+      res.status(500).json({ error: "Failed to restore receipt" });
+    }
+  });
+
+  // Purge a trashed receipt now instead of waiting for the retention period
+  app.delete("/api/accounts/:accountId/trash/:id", authMiddleware, accountAccessMiddleware, async (req: any, res) => {
+    try {
+      const receipt = await storage.getTrashedReceipt(req.params.id);
+      if (!receipt || receipt.accountId !== req.accountId) {
+        return res.status(404).json({ error: "Receipt not found in the trash" });
+      }
+
+      const role = await storage.getUserRole(req.accountId, req.userId);
+      if (role === 'member' && receipt.uploadedBy !== req.userId) {
+        return res.status(403).json({ error: "Access denied - you can only delete your own receipts" });
+      }
+
+      await purgeReceipt(receipt);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error purging receipt:", error);
+      res.status(500).json({ error: "Failed to delete receipt permanently" });
+    }
+  });
+
+  // Generate a filled Missouri Form 4923-H for a fiscal year
+  app.get("/api/accounts/:accountId/fiscal-years/:fy/form-4923h.pdf", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      const subscriptionError = await getExportSubscriptionError(req.accountId, fy);
+      if (subscriptionError) {
+        return res.status(403).json(subscriptionError);
+      }
+
+      const account = await storage.getAccountById(req.accountId);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+
+      // Joined vehicles carry the encrypted VIN, so use the decrypted vehicle list instead
+      const vehicles = await storage.getAccountVehicles(req.accountId);
+      const vehicleMap = new Map(vehicles.map(v => [v.id, v]));
+
+      const receipts = (await storage.getAccountReceipts(req.accountId))
+        .filter(r => r.fiscalYear === fy)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const refunds = await calculateReportRefunds(req.accountId, receipts);
+
+      const lines: Form4923HLine[] = [];
+      receipts.forEach((receipt, index) => {
+        const refund = refunds.lines[index];
+        // Only validated receipts are claimed
+        if (!refund.eligible || !receipt.validated) return;
+        lines.push({
+          receipt,
+          vehicle: receipt.vehicleId ? vehicleMap.get(receipt.vehicleId) || null : null,
+          refund,
+        });
+      });
+
+      const pdf = await generateForm4923H({ account, fiscalYear: fy, lines });
+
+      res.set({
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="form-4923h-fy-${fy}.pdf"`,
+        "Content-Length": pdf.length.toString(),
+        "Cache-Control": "private, no-store",
+      });
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating Form 4923-H:", error);
+      res.status(500).json({ error: "Failed to generate Form 4923-H" });
+    }
+  });
+
+  // Server-built receipt export for a fiscal year, with per-receipt refunds and totals rows
+  app.get("/api/accounts/:accountId/exports", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const fy = req.query.fy as string;
+      const format = (req.query.format as string) || "csv";
+
+      if (!fy || !/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+      }
+
+      const { columns, invalid } = parseExportColumns(req.query.columns);
+      if (invalid.length > 0) {
+        return res.status(400).json({ error: `Unknown export columns: ${invalid.join(", ")}` });
+      }
+      if (columns.length === 0) {
+        return res.status(400).json({ error: "At least one column is required" });
+      }
+
+      const subscriptionError = await getExportSubscriptionError(req.accountId, fy);
+      if (subscriptionError) {
+        return res.status(403).json(subscriptionError);
+      }
+
+      const data = await buildExportData(req.accountId, fy, columns);
+      const filename = `gas-receipts-fy-${fy}.${format}`;
+      res.set({
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      });
+
+      if (format === "json") {
+        return res.json(toJSON(data));
+      }
+      if (format === "xlsx") {
+        const workbook = await toXLSX(data);
+        res.set("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        return res.send(workbook);
+      }
+      res.set("Content-Type", "text/csv; charset=utf-8");
+      res.send(toCSV(data));
+    } catch (error) {
+      console.error("Error exporting receipts:", error);
+      res.status(500).json({ error: "Failed to export receipts" });
+    }
+  });
+
+  // Audit packet: ZIP of every receipt image for a fiscal year plus an index and summary page
+  app.get("/api/accounts/:accountId/fiscal-years/:fy/audit-packet.zip", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      const subscriptionError = await getExportSubscriptionError(req.accountId, fy);
+      if (subscriptionError) {
+        return res.status(403).json(subscriptionError);
+      }
+
+      res.set({
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${auditPacketFileName(fy)}"`,
+        "Cache-Control": "private, no-store",
+      });
+      await writeAuditPacket(req.accountId, fy, res);
+    } catch (error) {
+      console.error("Error generating audit packet:", error);
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else {
+        res.status(500).json({ error: "Failed to generate audit packet" });
+      }
+    }
+  });
+
+  // Build the audit packet in the background for fiscal years with many receipts
+  app.post("/api/accounts/:accountId/fiscal-years/:fy/audit-packet", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      const subscriptionError = await getExportSubscriptionError(req.accountId, fy);
+      if (subscriptionError) {
+        return res.status(403).json(subscriptionError);
+      }
+
+      const job = await storage.createExportJob({
+        accountId: req.accountId,
+        requestedBy: req.userId,
+        kind: "audit_packet",
+        fiscalYear: fy,
+        status: "pending",
+      });
+
+      await enqueueJob("audit_packet", { exportJobId: job.id }, { key: `export:${job.id}` });
+
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting audit packet job:", error);
+      res.status(500).json({ error: "Failed to start audit packet" });
+    }
+  });
+
+  app.get("/api/accounts/:accountId/export-jobs/:jobId", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const job = await storage.getExportJob(req.params.jobId);
+      if (!job || job.accountId !== req.accountId) {
+        return res.status(404).json({ error: "Export not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error getting export job:", error);
+      res.status(500).json({ error: "Failed to get export" });
+    }
+  });
+
+  app.get("/api/accounts/:accountId/export-jobs/:jobId/download", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const job = await storage.getExportJob(req.params.jobId);
+      if (!job || job.accountId !== req.accountId) {
+        return res.status(404).json({ error: "Export not found" });
+      }
+      if (job.status !== "completed" || !job.objectPath) {
+        return res.status(409).json({ error: "Export is not ready yet" });
+      }
+
+      res.set("Content-Disposition", `attachment; filename="${job.fileName || "export.zip"}"`);
+      await objectStorageService.downloadObject(job.objectPath, res, 0);
+    } catch (error) {
+      console.error("Error downloading export:", error);
+      res.status(500).json({ error: "Failed to download export" });
+    }
+  });
+
+  // Filing windows of every fiscal year plan, active or not, so the client's
+  // calendar matches the deadlines the server judges claims against
+  app.get("/api/filing-calendar", async (req, res) => {
+    try {
+      const plans = await storage.getAllFiscalYearPlans();
+      res.json(plans.map(({ fiscalYear, filingOpensOn, filingDeadline }) => ({ fiscalYear, filingOpensOn, filingDeadline })));
+    } catch (error) {
+      console.error("Error getting filing calendar:", error);
+      res.status(500).json({ error: "Failed to get filing calendar" });
+    }
+  });
+
+  // ==================== CLAIM ROUTES ====================
+
+  app.get("/api/accounts/:accountId/claims", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const claims = await storage.getAccountClaims(req.accountId);
+      res.json(claims);
+    } catch (error) {
+      console.error("Error getting claims:", error);
+      res.status(500).json({ error: "Failed to get claims" });
+    }
+  });
+
+  // Claim for a fiscal year (null until first worked on) plus the live totals it would be filed with
+  app.get("/api/accounts/:accountId/claims/:fy", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      const claim = await storage.getClaim(req.accountId, fy);
+      const refunds = await calculateClaimRefunds(req.accountId, fy);
+
+      res.json({ claim: claim || null, currentTotals: refunds.totals });
+    } catch (error) {
+      console.error("Error getting claim:", error);
+      res.status(500).json({ error: "Failed to get claim" });
+    }
+  });
+
+  // Move a claim between draft and ready
+  app.post("/api/accounts/:accountId/claims/:fy/status", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+      const { status } = req.body as { status: ClaimStatus };
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      if (status !== "draft" && status !== "ready") {
+        return res.status(400).json({ error: "Status must be draft or ready" });
+      }
+
+      const claim = await getOrCreateClaim(req.accountId, fy);
+      if (claim.status === status) {
+        return res.json(claim);
+      }
+      if (!canTransitionClaim(claim.status as ClaimStatus, status)) {
+        return res.status(409).json({ error: `Cannot move a ${claim.status} claim to ${status}` });
+      }
+
+      const updated = await storage.updateClaim(claim.id, { status });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating claim status:", error);
+      res.status(500).json({ error: "Failed to update claim status" });
+    }
+  });
+
+  // Record that the claim was submitted to the state, freezing the filed totals
+  app.post("/api/accounts/:accountId/claims/:fy/file", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+      const { filedAt, notes } = req.body;
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      const claim = await getOrCreateClaim(req.accountId, fy);
+      if (!canTransitionClaim(claim.status as ClaimStatus, "filed")) {
+        return res.status(409).json({ error: `Cannot file a claim that is ${claim.status}` });
+      }
+
+      const filedDate = filedAt ? new Date(filedAt) : new Date();
+      if (isNaN(filedDate.getTime())) {
+        return res.status(400).json({ error: "Invalid filing date" });
+      }
+
+      const filedOn = toDateString(filedDate);
+      const calendar = getFiscalYearCalendar(fy, await storage.getFiscalYearPlan(fy));
+      if (filedOn < calendar.filingOpensOn || filedOn > calendar.filingDeadline) {
+        return res.status(400).json({
+          error: `FY ${fy} claims can only be filed from ${formatCalendarDate(calendar.filingOpensOn)} to ${formatCalendarDate(calendar.filingDeadline)}`,
+        });
+      }
+
+      const refunds = await calculateClaimRefunds(req.accountId, fy, filedOn);
+      if (refunds.totals.eligibleCount === 0) {
+        return res.status(400).json({ error: "There are no eligible receipts to file for this fiscal year" });
+      }
+
+      const updated = await fileClaim(claim.id, refunds, {
+        status: "filed",
+        filedReceiptCount: refunds.totals.eligibleCount,
+        filedGallons: refunds.totals.gallons.toFixed(3),
+        filedRefundAmount: refunds.totals.refundAmount.toFixed(2),
+        filedAt: filedDate,
+        filedBy: req.userId,
+        amendmentCount: claim.status === "amending" ? claim.amendmentCount + 1 : claim.amendmentCount,
+        refundPaidAmount: null,
+        refundReceivedAt: null,
+        varianceAmount: null,
+        notes: typeof notes === "string" ? notes : claim.notes,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error filing claim:", error);
+      res.status(500).json({ error: "Failed to file claim" });
+    }
+  });
+
+  // Compare the refund figures frozen at filing against a recomputation from current data
+  app.get("/api/accounts/:accountId/claims/:fy/diff", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      const claim = await storage.getClaim(req.accountId, fy);
+      if (!claim || !claim.filedAt) {
+        return res.status(404).json({ error: "This fiscal year has not been filed" });
+      }
+
+      const diff = await diffClaimSnapshot(claim);
+      res.json(diff);
+    } catch (error) {
+      console.error("Error comparing claim snapshot:", error);
+      res.status(500).json({ error: "Failed to compare claim snapshot" });
+    }
+  });
+
+  // Record the refund the state actually paid; a different amount marks the claim adjusted
+  app.post("/api/accounts/:accountId/claims/:fy/refund", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+      const { amount, receivedAt } = req.body;
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      const claim = await storage.getClaim(req.accountId, fy);
+      if (!claim || claim.status !== "filed") {
+        return res.status(409).json({ error: "Only a filed claim can record a refund" });
+      }
+
+      const paid = parseFloat(normalizeNumeric(amount) ?? "");
+      if (isNaN(paid) || paid < 0) {
+        return res.status(400).json({ error: "Refund amount must be a non-negative number" });
+      }
+
+      const receivedDate = receivedAt ? new Date(receivedAt) : new Date();
+      if (isNaN(receivedDate.getTime())) {
+        return res.status(400).json({ error: "Invalid refund date" });
+      }
+
+      const variance = Math.round((paid - parseFloat(claim.filedRefundAmount || "0")) * 100) / 100;
+      const updated = await storage.updateClaim(claim.id, {
+        status: variance === 0 ? "refund_received" : "adjusted",
+        refundPaidAmount: paid.toFixed(2),
+        refundReceivedAt: receivedDate,
+        varianceAmount: variance.toFixed(2),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error recording claim refund:", error);
+      res.status(500).json({ error: "Failed to record refund" });
+    }
+  });
+
+  // Reopen a filed claim as an amendment, unlocking its receipts until it is filed again
+  app.post("/api/accounts/:accountId/claims/:fy/reopen", authMiddleware, accountAccessMiddleware, adminMiddleware, async (req: any, res) => {
+    try {
+      const { fy } = req.params;
+      const { reason } = req.body;
+      if (!/^\d{4}-\d{4}$/.test(fy)) {
+        return res.status(400).json({ error: "Invalid fiscal year" });
+      }
+
+      const claim = await storage.getClaim(req.accountId, fy);
+      if (!claim || !canTransitionClaim(claim.status as ClaimStatus, "amending")) {
+        return res.status(409).json({ error: "Only a filed claim can be reopened as an amendment" });
+      }
+
+      const updated = await storage.updateClaim(claim.id, {
+        status: "amending",
+        reopenedAt: new Date(),
+        notes: typeof reason === "string" && reason.trim()
+          ? [claim.notes, `Amendment: ${reason.trim()}`].filter(Boolean).join("\n")
+          : claim.notes,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error reopening claim:", error);
+      res.status(500).json({ error: "Failed to reopen claim" });
+    }
+  });
+
+  // ==================== ADMIN ROUTES ====================
+
+  app.get("/api/admin/plans", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+    try {
+      const plans = await storage.getAllFiscalYearPlans();
+      res.json(plans);
+    } catch (error) {
+      console.error("Error getting plans:", error);
+      res.status(500).json({ error: "Failed to get plans" });
+    }
+  });
+
+  app.post("/api/admin/plans", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+    try {
+      if (!stripeService.isStripeConfigured()) {
+        return res.status(503).json({ 
+          error: "Stripe not configured", 
+          message: "Please configure STRIPE_SECRET_KEY to enable plan creation" 
         });
       }
 
@@ -1286,6 +2263,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const updates = req.body;
 
+      if ("filingOpensOn" in updates || "filingDeadline" in updates) {
+        const plan = (await storage.getAllFiscalYearPlans()).find(p => p.id === id);
+        if (!plan) {
+          return res.status(404).json({ error: "Plan not found" });
+        }
+        updates.filingOpensOn = updates.filingOpensOn || null;
+        updates.filingDeadline = updates.filingDeadline || null;
+        const errors = validateFilingCalendar(plan.fiscalYear, updates);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: errors[0], errors });
+        }
+      }
+
       await stripeService.updateFiscalYearPlan(id, updates);
       res.json({ success: true });
     } catch (error) {
@@ -1294,6 +2284,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Tax rate schedule administration
+  app.get("/api/admin/tax-rates", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+    try {
+      const rates = await storage.getAllTaxRates();
+      res.json(rates);
+    } catch (error) {
+      console.error("Error getting tax rates:", error);
+      res.status(500).json({ error: "Failed to get tax rates" });
+    }
+  });
+
+  app.post("/api/admin/tax-rates", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+    try {
+      const period = parseTaxRatePeriod(req.body);
+      const existing = await storage.getAllTaxRates();
+      const errors = validateTaxRatePeriod(period, existing);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors[0], errors });
+      }
+
+      const rate = await storage.createTaxRate(period);
+      res.json(rate);
+    } catch (error) {
+      console.error("Error creating tax rate:", error);
+      res.status(500).json({ error: "Failed to create tax rate" });
+    }
+  });
+
+  app.put("/api/admin/tax-rates/:id", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const rate = await storage.getTaxRateById(id);
+      if (!rate) {
+        return res.status(404).json({ error: "Tax rate not found" });
+      }
+
+      const period = parseTaxRatePeriod({ ...rate, ...req.body });
+      const existing = await storage.getAllTaxRates();
+      const errors = validateTaxRatePeriod(period, existing, id);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors[0], errors });
+      }
+
+      const updated = await storage.updateTaxRate(id, period);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating tax rate:", error);
+      res.status(500).json({ error: "Failed to update tax rate" });
+    }
+  });
+
+  app.delete("/api/admin/tax-rates/:id", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const rate = await storage.getTaxRateById(id);
+      if (!rate) {
+        return res.status(404).json({ error: "Tax rate not found" });
+      }
+
+      const existing = await storage.getAllTaxRates();
+      const deletionError = validateTaxRateDeletion(rate, existing);
+      if (deletionError) {
+        return res.status(400).json({ error: deletionError });
+      }
+
+      await storage.deleteTaxRate(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting tax rate:", error);
+      res.status(500).json({ error: "Failed to delete tax rate" });
+    }
+  });
+
   app.get("/api/admin/users", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
     try {
       const users = await storage.getAllUsersWithStats();
@@ -1350,6 +2413,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Background jobs, e.g. dead-lettered jobs that used up their retries
+  app.get("/api/admin/jobs", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const jobs = await storage.getJobs(status);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error getting jobs:", error);
+      res.status(500).json({ error: "Failed to get jobs" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:id/retry", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
+    try {
+      const job = await retryDeadJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Dead job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ error: "Failed to retry job" });
+    }
+  });
+
   // Admin accounts with payments
   app.get("/api/admin/accounts", authMiddleware, siteAdminMiddleware, async (req: any, res) => {
     try {
@@ -1906,16 +2994,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
-function getFiscalYear(dateStr: string): string {
-  const date = new Date(dateStr + "T00:00:00");
-  const year = date.getFullYear();
-  const month = date.getMonth() + 1;
+// Exports and Form 4923-H need a trial or active subscription for the fiscal year
+async function getExportSubscriptionError(accountId: string, fiscalYear: string) {
+  const subscriptionStatus = await stripeService.getSubscriptionStatus(accountId, fiscalYear);
+  if (subscriptionStatus.status === "trial" || subscriptionStatus.status === "active") {
+    return null;
+  }
+  return {
+    error: "Subscription required",
+    message: `You need an active subscription or free trial for FY ${fiscalYear} to export receipts.`,
+    upgradeRequired: true,
+  };
+}
+
+function lockedClaimError(fiscalYear: string) {
+  return {
+    error: "Fiscal year is filed",
+    message: `The FY ${fiscalYear} claim has been filed, so its receipts are read-only. Reopen the claim as an amendment to make changes.`,
+    claimLocked: true,
+  };
+}
+
+function parseTaxRatePeriod(body: any): TaxRatePeriod {
+  return {
+    fuelType: typeof body.fuelType === "string" && body.fuelType.trim()
+      ? normalizeFuelType(body.fuelType) ?? body.fuelType.trim()
+      : DEFAULT_FUEL_TYPE,
+    startDate: typeof body.startDate === "string" ? body.startDate.trim() : "",
+    endDate: typeof body.endDate === "string" && body.endDate.trim() ? body.endDate.trim() : null,
+    baseRate: normalizeNumeric(body.baseRate) ?? "",
+    increase: normalizeNumeric(body.increase) ?? "",
+  };
+}
+
+const BULK_REPROCESS_LIMIT = 500;
 
-  if (month >= 7) {
-    return `${year}-${year + 1}`;
-  } else {
-    return `${year - 1}-${year}`;
+/**
+ * Queue re-transcription for a receipt. Failed receipts go back to pending so
+ * the UI shows them processing again.
+ */
+async function queueReprocess(receipt: Receipt) {
+  if (receipt.processingStatus === "failed") {
+    await storage.updateReceipt(receipt.id, { processingStatus: "pending", processingError: null });
   }
+  return enqueueJob("retranscribe_receipt", { receiptId: receipt.id }, { key: `receipt:${receipt.id}` });
 }
 
 function normalizeNumeric(value: string | number | null | undefined): string | null {
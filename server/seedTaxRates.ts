@@ -0,0 +1,37 @@
+import { storage } from "./storage";
+import { MISSOURI_TAX_RATE_SCHEDULE, validateTaxRatePeriod } from "./taxRates";
+
+// Load the published Missouri motor fuel tax schedule into the tax_rates table.
+// Existing periods with the same fuel type and start date are updated in place,
+// so the command is safe to run again whenever the schedule changes.
+async function seedTaxRates() {
+  let created = 0;
+  let updated = 0;
+
+  for (const period of MISSOURI_TAX_RATE_SCHEDULE) {
+    const existing = await storage.getAllTaxRates();
+    const match = existing.find(rate => rate.fuelType === period.fuelType && rate.startDate === period.startDate);
+
+    const errors = validateTaxRatePeriod(period, existing, match?.id);
+    if (errors.length > 0) {
+      throw new Error(`Cannot seed ${period.fuelType} rate starting ${period.startDate}: ${errors.join("; ")}`);
+    }
+
+    if (match) {
+      await storage.updateTaxRate(match.id, period);
+      updated++;
+    } else {
+      await storage.createTaxRate(period);
+      created++;
+    }
+  }
+
+  console.log(`Tax rates seeded: ${created} created, ${updated} updated`);
+}
+
+seedTaxRates()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Error seeding tax rates:", error);
+    process.exit(1);
+  });
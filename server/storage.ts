@@ -1,8 +1,11 @@
 import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool, neonConfig } from "@neondatabase/serverless";
-import { eq, and, desc, lte, gte, or, isNull, sql, inArray } from "drizzle-orm";
+import { eq, and, desc, lte, gte, or, isNull, isNotNull, sql, inArray, asc, ilike, type SQL } from "drizzle-orm";
 import * as schema from "@shared/schema";
+import { UNASSIGNED_VEHICLE_FILTER, type ReceiptFilters, type ReceiptSortField, type SortDirection, type ReceiptSummary } from "@shared/receiptQuery";
 import { encryptSSN, decryptSSN, encryptVIN, decryptVIN, formatSSN, formatEIN } from "./encryption";
+import { DEFAULT_FUEL_TYPE } from "./taxRates";
+import { invalidateRefundCache } from "./refundCache";
 import {
   type User,
   type InsertUser,
@@ -21,6 +24,19 @@ import {
   type VehicleMember,
   type InsertVehicleMember,
   type TaxRate,
+  type Claim,
+  type InsertClaim,
+  type ClaimReceipt,
+  type InsertClaimReceipt,
+  type ExportJob,
+  type InsertExportJob,
+  type BulkUploadFile,
+  type InsertBulkUploadFile,
+  type ReceiptRevision,
+  type InsertReceiptRevision,
+  type Job,
+  type InsertJob,
+  type InsertTaxRate,
   type FiscalYearPlan,
   type InsertFiscalYearPlan,
   type AccountSubscription,
@@ -95,10 +111,16 @@ export interface IStorage {
   removeVehicleMember(vehicleId: string, userId: string): Promise<boolean>;
   
   // Tax rate operations
-  getTaxRateByDate(date: string): Promise<TaxRate | undefined>;
+  getTaxRateByDate(date: string, fuelType?: string): Promise<TaxRate | undefined>;
+  getAllTaxRates(): Promise<TaxRate[]>;
+  getTaxRateById(id: string): Promise<TaxRate | undefined>;
+  createTaxRate(rate: InsertTaxRate): Promise<TaxRate>;
+  updateTaxRate(id: string, updates: Partial<InsertTaxRate>): Promise<TaxRate | undefined>;
+  deleteTaxRate(id: string): Promise<boolean>;
 
   // Receipt operations
   getAccountReceipts(accountId: string): Promise<(Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]>;
+  getFiscalYearReceipts(accountId: string, fiscalYear: string): Promise<(Receipt & { vehicle: Vehicle | null })[]>;
   getAccountReceiptsForUser(accountId: string, userId: string, role: string): Promise<(Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]>;
   getReceipt(id: string): Promise<Receipt | undefined>;
   getReceiptByImagePath(imagePath: string): Promise<Receipt | undefined>;
@@ -118,6 +140,71 @@ export interface IStorage {
   createReceiptPack(pack: InsertReceiptPack): Promise<ReceiptPack>;
   getReceiptPacksByAccountAndFiscalYear(accountId: string, fiscalYear: string): Promise<ReceiptPack[]>;
   getTotalReceiptsAddedByPacks(accountId: string, fiscalYear: string): Promise<number>;
+
+  // Claim operations
+  getAccountClaims(accountId: string): Promise<Claim[]>;
+  getClaim(accountId: string, fiscalYear: string): Promise<Claim | undefined>;
+  createClaim(claim: InsertClaim): Promise<Claim>;
+  updateClaim(id: string, updates: Partial<InsertClaim>): Promise<Claim | undefined>;
+  getClaimReceipts(claimId: string): Promise<ClaimReceipt[]>;
+  fileClaim(claimId: string, rows: InsertClaimReceipt[], updates: Partial<InsertClaim>): Promise<Claim | undefined>;
+
+  // Export job operations
+  createExportJob(job: InsertExportJob): Promise<ExportJob>;
+  getExportJob(id: string): Promise<ExportJob | undefined>;
+  updateExportJob(id: string, updates: Partial<InsertExportJob>): Promise<ExportJob | undefined>;
+
+  // Bulk upload operations
+  createBulkUploadFiles(files: InsertBulkUploadFile[]): Promise<BulkUploadFile[]>;
+  getBulkUploadFile(id: string): Promise<BulkUploadFile | undefined>;
+  getBulkUploadBatch(batchId: string): Promise<BulkUploadFile[]>;
+  updateBulkUploadFile(id: string, updates: Partial<InsertBulkUploadFile>): Promise<BulkUploadFile | undefined>;
+  replaceBulkUploadFile(id: string, files: InsertBulkUploadFile[]): Promise<BulkUploadFile[]>;
+
+  // Background job queue
+  createJob(job: InsertJob): Promise<Job>;
+  getActiveJobByKey(key: string): Promise<Job | undefined>;
+  claimNextJob(): Promise<Job | undefined>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(status?: string, limit?: number): Promise<Job[]>;
+  updateJob(id: string, updates: Partial<InsertJob>): Promise<Job | undefined>;
+  touchJob(id: string): Promise<void>;
+  requeueStaleJobs(lockedBefore: Date): Promise<Job[]>;
+  deadLetterStaleJobs(lockedBefore: Date, error: string): Promise<Job[]>;
+  getStuckReceipts(createdBefore: Date): Promise<Receipt[]>;
+
+  // Duplicate detection
+  getDuplicateCandidates(accountId: string): Promise<Receipt[]>;
+  getReceiptDuplicates(receiptId: string): Promise<Receipt[]>;
+  queryAccountReceipts(
+    accountId: string,
+    userId: string,
+    role: string,
+    filters: Omit<ReceiptFilters, "eligibility">,
+    order: { sort: ReceiptSortField; direction: SortDirection },
+    page?: { limit: number; offset: number }
+  ): Promise<{ receipts: (Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]; total: number }>;
+  queryAccountReceiptKeys(
+    accountId: string,
+    userId: string,
+    role: string,
+    filters: Omit<ReceiptFilters, "eligibility">,
+    order: { sort: ReceiptSortField; direction: SortDirection }
+  ): Promise<Pick<Receipt, "id" | "fiscalYear">[]>;
+  getAccountReceiptsByIds(accountId: string, ids: string[]): Promise<(Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]>;
+  getReceiptAggregates(
+    accountId: string,
+    userId: string,
+    role: string,
+    filters: Omit<ReceiptFilters, "eligibility">
+  ): Promise<Pick<ReceiptSummary, "receiptCount" | "gallons" | "totalAmount" | "statusCounts" | "sellerStateCounts" | "fiscalYears">>;
+  createReceiptRevision(revision: InsertReceiptRevision): Promise<ReceiptRevision>;
+  getReceiptRevisions(receiptId: string): Promise<(ReceiptRevision & { actor: User | null })[]>;
+  getTrashedReceipts(accountId: string, userId: string, role: string): Promise<(Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]>;
+  getTrashedReceipt(id: string): Promise<Receipt | undefined>;
+  trashReceipt(id: string, userId: string): Promise<Receipt | undefined>;
+  restoreReceipt(id: string): Promise<Receipt | undefined>;
+  getExpiredTrashedReceipts(deletedBefore: Date): Promise<Receipt[]>;
 }
 
 export class DbStorage implements IStorage {
@@ -256,6 +343,7 @@ export class DbStorage implements IStorage {
 
   async deleteAccount(id: string): Promise<boolean> {
     const result = await db.delete(schema.accounts).where(eq(schema.accounts.id, id));
+    invalidateRefundCache(id);
     return result.rowCount !== null && result.rowCount > 0;
   }
 
@@ -421,12 +509,17 @@ export class DbStorage implements IStorage {
     }
     
     const [updated] = await db.update(schema.vehicles).set(encryptedUpdates).where(eq(schema.vehicles.id, id)).returning();
+    if (updated) invalidateRefundCache(updated.accountId);
     return updated ? this.decryptVehicleVIN(updated) : undefined;
   }
 
   async deleteVehicle(id: string): Promise<boolean> {
-    const result = await db.delete(schema.vehicles).where(eq(schema.vehicles.id, id));
-    return result.rowCount !== null && result.rowCount > 0;
+    const deleted = await db
+      .delete(schema.vehicles)
+      .where(eq(schema.vehicles.id, id))
+      .returning({ accountId: schema.vehicles.accountId });
+    deleted.forEach(vehicle => invalidateRefundCache(vehicle.accountId));
+    return deleted.length > 0;
   }
 
   async getAccountVehiclesForUser(accountId: string, userId: string, role: string): Promise<Vehicle[]> {
@@ -454,6 +547,7 @@ export class DbStorage implements IStorage {
       .set({ active: false })
       .where(eq(schema.vehicles.id, id))
       .returning();
+    if (deactivated) invalidateRefundCache(deactivated.accountId);
     return deactivated ? this.decryptVehicleVIN(deactivated) : undefined;
   }
 
@@ -499,12 +593,13 @@ export class DbStorage implements IStorage {
   }
 
   // Tax rate operations
-  async getTaxRateByDate(date: string): Promise<TaxRate | undefined> {
+  async getTaxRateByDate(date: string, fuelType: string = DEFAULT_FUEL_TYPE): Promise<TaxRate | undefined> {
     const [rate] = await db
       .select()
       .from(schema.taxRates)
       .where(
         and(
+          eq(schema.taxRates.fuelType, fuelType),
           lte(schema.taxRates.startDate, date),
           or(
             isNull(schema.taxRates.endDate),
@@ -516,6 +611,36 @@ export class DbStorage implements IStorage {
     return rate;
   }
 
+  async getAllTaxRates(): Promise<TaxRate[]> {
+    return db
+      .select()
+      .from(schema.taxRates)
+      .orderBy(schema.taxRates.fuelType, schema.taxRates.startDate);
+  }
+
+  async getTaxRateById(id: string): Promise<TaxRate | undefined> {
+    const [rate] = await db.select().from(schema.taxRates).where(eq(schema.taxRates.id, id)).limit(1);
+    return rate;
+  }
+
+  async createTaxRate(rate: InsertTaxRate): Promise<TaxRate> {
+    const [created] = await db.insert(schema.taxRates).values(rate).returning();
+    invalidateRefundCache();
+    return created;
+  }
+
+  async updateTaxRate(id: string, updates: Partial<InsertTaxRate>): Promise<TaxRate | undefined> {
+    const [updated] = await db.update(schema.taxRates).set(updates).where(eq(schema.taxRates.id, id)).returning();
+    invalidateRefundCache();
+    return updated;
+  }
+
+  async deleteTaxRate(id: string): Promise<boolean> {
+    const result = await db.delete(schema.taxRates).where(eq(schema.taxRates.id, id));
+    invalidateRefundCache();
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
   // Receipt operations
   async getAccountReceipts(accountId: string): Promise<(Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]> {
     const receipts = await db
@@ -527,7 +652,7 @@ export class DbStorage implements IStorage {
       .from(schema.receipts)
       .innerJoin(schema.users, eq(schema.receipts.uploadedBy, schema.users.id))
       .leftJoin(schema.vehicles, eq(schema.receipts.vehicleId, schema.vehicles.id))
-      .where(eq(schema.receipts.accountId, accountId))
+      .where(and(eq(schema.receipts.accountId, accountId), isNull(schema.receipts.deletedAt)))
       .orderBy(desc(schema.receipts.createdAt));
 
     return receipts.map((r) => ({
@@ -537,38 +662,30 @@ export class DbStorage implements IStorage {
     }));
   }
 
+  // Receipts of one fiscal year with their vehicle, as the refund engine needs them
+  async getFiscalYearReceipts(accountId: string, fiscalYear: string): Promise<(Receipt & { vehicle: Vehicle | null })[]> {
+    const receipts = await db
+      .select({
+        receipt: schema.receipts,
+        vehicle: schema.vehicles,
+      })
+      .from(schema.receipts)
+      .leftJoin(schema.vehicles, eq(schema.receipts.vehicleId, schema.vehicles.id))
+      .where(and(
+        eq(schema.receipts.accountId, accountId),
+        eq(schema.receipts.fiscalYear, fiscalYear),
+        isNull(schema.receipts.deletedAt)
+      ));
+
+    return receipts.map((r) => ({ ...r.receipt, vehicle: r.vehicle }));
+  }
+
   async getAccountReceiptsForUser(accountId: string, userId: string, role: string): Promise<(Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]> {
     // Owners and admins can see all receipts
     if (role === "owner" || role === "admin") {
       return this.getAccountReceipts(accountId);
     }
     
-    // Members can only see receipts they uploaded or for vehicles they're assigned to
-    const assignedVehicles = await db
-      .select({ vehicleId: schema.vehicleMembers.vehicleId })
-      .from(schema.vehicleMembers)
-      .where(eq(schema.vehicleMembers.userId, userId));
-    
-    const assignedVehicleIds = assignedVehicles.map(v => v.vehicleId);
-    
-    // Build condition: uploaded by user OR vehicle is in assigned list
-    let condition;
-    if (assignedVehicleIds.length > 0) {
-      condition = and(
-        eq(schema.receipts.accountId, accountId),
-        or(
-          eq(schema.receipts.uploadedBy, userId),
-          inArray(schema.receipts.vehicleId, assignedVehicleIds)
-        )
-      );
-    } else {
-      // No assigned vehicles, only show their own uploads
-      condition = and(
-        eq(schema.receipts.accountId, accountId),
-        eq(schema.receipts.uploadedBy, userId)
-      );
-    }
-    
     const receipts = await db
       .select({
         receipt: schema.receipts,
@@ -578,7 +695,7 @@ export class DbStorage implements IStorage {
       .from(schema.receipts)
       .innerJoin(schema.users, eq(schema.receipts.uploadedBy, schema.users.id))
       .leftJoin(schema.vehicles, eq(schema.receipts.vehicleId, schema.vehicles.id))
-      .where(condition)
+      .where(await this.getReceiptVisibility(accountId, userId, role))
       .orderBy(desc(schema.receipts.createdAt));
 
     return receipts.map((r) => ({
@@ -588,8 +705,46 @@ export class DbStorage implements IStorage {
     }));
   }
 
+  // Receipts of the account the user can see, either those in use or those in the trash
+  private async getReceiptVisibility(accountId: string, userId: string, role: string, trashed = false): Promise<SQL | undefined> {
+    const account = and(
+      eq(schema.receipts.accountId, accountId),
+      trashed ? isNotNull(schema.receipts.deletedAt) : isNull(schema.receipts.deletedAt)
+    );
+
+    // Owners and admins can see all receipts
+    if (role === "owner" || role === "admin") {
+      return account;
+    }
+    
+    // Members can only see receipts they uploaded or for vehicles they're assigned to
+    const assignedVehicles = await db
+      .select({ vehicleId: schema.vehicleMembers.vehicleId })
+      .from(schema.vehicleMembers)
+      .where(eq(schema.vehicleMembers.userId, userId));
+    
+    const assignedVehicleIds = assignedVehicles.map(v => v.vehicleId);
+    
+    // Build condition: uploaded by user OR vehicle is in assigned list
+    if (assignedVehicleIds.length > 0) {
+      return and(
+        account,
+        or(
+          eq(schema.receipts.uploadedBy, userId),
+          inArray(schema.receipts.vehicleId, assignedVehicleIds)
+        )
+      );
+    }
+    // No assigned vehicles, only show their own uploads
+    return and(
+      account,
+      eq(schema.receipts.uploadedBy, userId)
+    );
+  }
+
+  // Trashed receipts are only returned by getTrashedReceipt
   async getReceipt(id: string): Promise<Receipt | undefined> {
-    const [receipt] = await db.select().from(schema.receipts).where(eq(schema.receipts.id, id)).limit(1);
+    const [receipt] = await db.select().from(schema.receipts).where(and(eq(schema.receipts.id, id), isNull(schema.receipts.deletedAt))).limit(1);
     return receipt;
   }
 
@@ -603,17 +758,23 @@ export class DbStorage implements IStorage {
 
   async createReceipt(insertReceipt: InsertReceipt): Promise<Receipt> {
     const [receipt] = await db.insert(schema.receipts).values(insertReceipt).returning();
+    invalidateRefundCache(receipt.accountId);
     return receipt;
   }
 
   async updateReceipt(id: string, updates: Partial<InsertReceipt>): Promise<Receipt | undefined> {
     const [updated] = await db.update(schema.receipts).set(updates).where(eq(schema.receipts.id, id)).returning();
+    if (updated) invalidateRefundCache(updated.accountId);
     return updated;
   }
 
   async deleteReceipt(id: string): Promise<boolean> {
-    const result = await db.delete(schema.receipts).where(eq(schema.receipts.id, id));
-    return result.rowCount !== null && result.rowCount > 0;
+    const deleted = await db
+      .delete(schema.receipts)
+      .where(eq(schema.receipts.id, id))
+      .returning({ accountId: schema.receipts.accountId });
+    deleted.forEach(receipt => invalidateRefundCache(receipt.accountId));
+    return deleted.length > 0;
   }
 
   // Admin operations
@@ -643,7 +804,7 @@ export class DbStorage implements IStorage {
           const receipts = await db
             .select()
             .from(schema.receipts)
-            .where(eq(schema.receipts.accountId, membership.accountId));
+            .where(and(eq(schema.receipts.accountId, membership.accountId), isNull(schema.receipts.deletedAt)));
           
           totalReceipts += receipts.length;
         }
@@ -1104,7 +1265,7 @@ export class DbStorage implements IStorage {
     const [receiptResult] = await db
       .select({ count: sql<number>`count(*)` })
       .from(schema.receipts)
-      .where(eq(schema.receipts.accountId, accountId));
+      .where(and(eq(schema.receipts.accountId, accountId), isNull(schema.receipts.deletedAt)));
     
     return {
       ...account,
@@ -1219,6 +1380,503 @@ export class DbStorage implements IStorage {
       );
     return Number(result[0]?.total || 0);
   }
+
+  // Claim operations
+  async getAccountClaims(accountId: string): Promise<Claim[]> {
+    return db.select().from(schema.claims).where(eq(schema.claims.accountId, accountId)).orderBy(desc(schema.claims.fiscalYear));
+  }
+
+  async getClaim(accountId: string, fiscalYear: string): Promise<Claim | undefined> {
+    const [claim] = await db
+      .select()
+      .from(schema.claims)
+      .where(and(eq(schema.claims.accountId, accountId), eq(schema.claims.fiscalYear, fiscalYear)))
+      .limit(1);
+    return claim;
+  }
+
+  async createClaim(claim: InsertClaim): Promise<Claim> {
+    const [created] = await db.insert(schema.claims).values(claim).returning();
+    return created;
+  }
+
+  async updateClaim(id: string, updates: Partial<InsertClaim>): Promise<Claim | undefined> {
+    const [updated] = await db
+      .update(schema.claims)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(schema.claims.id, id))
+      .returning();
+    if (updated) invalidateRefundCache(updated.accountId);
+    return updated;
+  }
+
+  async getClaimReceipts(claimId: string): Promise<ClaimReceipt[]> {
+    return db.select().from(schema.claimReceipts).where(eq(schema.claimReceipts.claimId, claimId));
+  }
+
+  // Swap out a claim's snapshot and record the filing in one transaction, so a
+  // refiled claim never mixes old and new rows or shows totals without them
+  async fileClaim(claimId: string, rows: InsertClaimReceipt[], updates: Partial<InsertClaim>): Promise<Claim | undefined> {
+    const filed = await db.transaction(async (tx) => {
+      await tx.delete(schema.claimReceipts).where(eq(schema.claimReceipts.claimId, claimId));
+      if (rows.length > 0) {
+        await tx.insert(schema.claimReceipts).values(rows);
+      }
+      const [updated] = await tx
+        .update(schema.claims)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(schema.claims.id, claimId))
+        .returning();
+      return updated;
+    });
+    if (filed) invalidateRefundCache(filed.accountId);
+    return filed;
+  }
+
+  // Export job operations
+  async createExportJob(job: InsertExportJob): Promise<ExportJob> {
+    const [created] = await db.insert(schema.exportJobs).values(job).returning();
+    return created;
+  }
+
+  async getExportJob(id: string): Promise<ExportJob | undefined> {
+    const [job] = await db.select().from(schema.exportJobs).where(eq(schema.exportJobs.id, id)).limit(1);
+    return job;
+  }
+
+  async updateExportJob(id: string, updates: Partial<InsertExportJob>): Promise<ExportJob | undefined> {
+    const [updated] = await db
+      .update(schema.exportJobs)
+      .set(updates)
+      .where(eq(schema.exportJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Bulk upload operations
+  async createBulkUploadFiles(files: InsertBulkUploadFile[]): Promise<BulkUploadFile[]> {
+    if (files.length === 0) return [];
+    return db.insert(schema.bulkUploadFiles).values(files).returning();
+  }
+
+  async getBulkUploadFile(id: string): Promise<BulkUploadFile | undefined> {
+    const [file] = await db.select().from(schema.bulkUploadFiles).where(eq(schema.bulkUploadFiles.id, id)).limit(1);
+    return file;
+  }
+
+  async getBulkUploadBatch(batchId: string): Promise<BulkUploadFile[]> {
+    return db
+      .select()
+      .from(schema.bulkUploadFiles)
+      .where(eq(schema.bulkUploadFiles.batchId, batchId))
+      .orderBy(asc(schema.bulkUploadFiles.createdAt), asc(schema.bulkUploadFiles.fileName));
+  }
+
+  async updateBulkUploadFile(id: string, updates: Partial<InsertBulkUploadFile>): Promise<BulkUploadFile | undefined> {
+    const [updated] = await db
+      .update(schema.bulkUploadFiles)
+      .set(updates)
+      .where(eq(schema.bulkUploadFiles.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Swap an unpacked archive's row for the rows of the files inside it, so the
+  // batch never shows both
+  async replaceBulkUploadFile(id: string, files: InsertBulkUploadFile[]): Promise<BulkUploadFile[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(schema.bulkUploadFiles).where(eq(schema.bulkUploadFiles.id, id));
+      if (files.length === 0) return [];
+      return tx.insert(schema.bulkUploadFiles).values(files).returning();
+    });
+  }
+
+  // Background job queue
+  async createJob(job: InsertJob): Promise<Job> {
+    const [created] = await db.insert(schema.jobs).values(job).returning();
+    return created;
+  }
+
+  // Pending or running job for an entity, if one exists
+  async getActiveJobByKey(key: string): Promise<Job | undefined> {
+    const [job] = await db
+      .select()
+      .from(schema.jobs)
+      .where(and(
+        eq(schema.jobs.key, key),
+        inArray(schema.jobs.status, ["pending", "running"])
+      ))
+      .limit(1);
+    return job;
+  }
+
+  /**
+   * Lock the next due job and mark it running. SKIP LOCKED lets several
+   * server instances poll the same table without taking the same job.
+   */
+  async claimNextJob(): Promise<Job | undefined> {
+    const nextJob = sql`(
+      select ${schema.jobs.id} from ${schema.jobs}
+      where ${schema.jobs.status} = 'pending' and ${schema.jobs.runAt} <= now()
+      order by ${schema.jobs.runAt}
+      limit 1
+      for update skip locked
+    )`;
+    const [claimed] = await db
+      .update(schema.jobs)
+      .set({
+        status: "running",
+        lockedAt: new Date(),
+        attempts: sql`${schema.jobs.attempts} + 1`,
+      })
+      .where(eq(schema.jobs.id, nextJob))
+      .returning();
+    return claimed;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(schema.jobs).where(eq(schema.jobs.id, id)).limit(1);
+    return job;
+  }
+
+  async getJobs(status?: string, limit: number = 100): Promise<Job[]> {
+    return await db
+      .select()
+      .from(schema.jobs)
+      .where(status ? eq(schema.jobs.status, status) : undefined)
+      .orderBy(desc(schema.jobs.createdAt))
+      .limit(limit);
+  }
+
+  async updateJob(id: string, updates: Partial<InsertJob>): Promise<Job | undefined> {
+    const [updated] = await db
+      .update(schema.jobs)
+      .set(updates)
+      .where(eq(schema.jobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Heartbeat from the worker running a job, so long jobs are not taken for stale ones
+  async touchJob(id: string): Promise<void> {
+    await db
+      .update(schema.jobs)
+      .set({ lockedAt: new Date() })
+      .where(and(eq(schema.jobs.id, id), eq(schema.jobs.status, "running")));
+  }
+
+  // Return jobs whose worker died mid-run to the queue, if they have attempts left
+  async requeueStaleJobs(lockedBefore: Date): Promise<Job[]> {
+    return await db
+      .update(schema.jobs)
+      .set({ status: "pending", lockedAt: null, runAt: new Date() })
+      .where(and(
+        eq(schema.jobs.status, "running"),
+        lte(schema.jobs.lockedAt, lockedBefore),
+        sql`${schema.jobs.attempts} < ${schema.jobs.maxAttempts}`
+      ))
+      .returning();
+  }
+
+  // Dead-letter jobs whose worker died mid-run on their last attempt
+  async deadLetterStaleJobs(lockedBefore: Date, error: string): Promise<Job[]> {
+    return await db
+      .update(schema.jobs)
+      .set({ status: "dead", lockedAt: null, lastError: error, completedAt: new Date() })
+      .where(and(
+        eq(schema.jobs.status, "running"),
+        lte(schema.jobs.lockedAt, lockedBefore),
+        sql`${schema.jobs.attempts} >= ${schema.jobs.maxAttempts}`
+      ))
+      .returning();
+  }
+
+  // Receipts flagged as duplicates of a receipt, oldest first; trashed ones are left out
+  async getReceiptDuplicates(receiptId: string): Promise<Receipt[]> {
+    return await db
+      .select()
+      .from(schema.receipts)
+      .where(and(
+        eq(schema.receipts.duplicateOfId, receiptId),
+        isNull(schema.receipts.deletedAt)
+      ))
+      .orderBy(schema.receipts.createdAt);
+  }
+
+  // Receipts still waiting on transcription that were uploaded before the cutoff
+  async getStuckReceipts(createdBefore: Date): Promise<Receipt[]> {
+    return await db
+      .select()
+      .from(schema.receipts)
+      .where(and(
+        inArray(schema.receipts.processingStatus, ["pending", "processing"]),
+        lte(schema.receipts.createdAt, createdBefore),
+        isNull(schema.receipts.deletedAt)
+      ));
+  }
+
+  // Receipts a new upload could duplicate: those not flagged as duplicates themselves, oldest first
+  async getDuplicateCandidates(accountId: string): Promise<Receipt[]> {
+    return await db
+      .select()
+      .from(schema.receipts)
+      .where(and(
+        eq(schema.receipts.accountId, accountId),
+        isNull(schema.receipts.duplicateOfId),
+        isNull(schema.receipts.deletedAt)
+      ))
+      .orderBy(schema.receipts.createdAt);
+  }
+
+  // Receipts the user can see that match the filters, sorted, one page at a time (all of them without a page)
+  async queryAccountReceipts(
+    accountId: string,
+    userId: string,
+    role: string,
+    filters: Omit<ReceiptFilters, "eligibility">,
+    order: { sort: ReceiptSortField; direction: SortDirection },
+    page?: { limit: number; offset: number }
+  ): Promise<{ receipts: (Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]; total: number }> {
+    const condition = and(await this.getReceiptVisibility(accountId, userId, role), ...getReceiptFilterConditions(filters));
+
+    const [countResult] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(schema.receipts)
+      .where(condition);
+
+    const sortColumn = RECEIPT_SORT_COLUMNS[order.sort];
+    const direction = order.direction === "asc" ? asc : desc;
+    const query = db
+      .select({
+        receipt: schema.receipts,
+        uploadedByUser: schema.users,
+        vehicle: schema.vehicles,
+      })
+      .from(schema.receipts)
+      .innerJoin(schema.users, eq(schema.receipts.uploadedBy, schema.users.id))
+      .leftJoin(schema.vehicles, eq(schema.receipts.vehicleId, schema.vehicles.id))
+      .where(condition)
+      // Receipts still being transcribed have no values yet; keep them after the rest
+      .orderBy(sql`${direction(sortColumn)} nulls last`, desc(schema.receipts.createdAt), asc(schema.receipts.id));
+
+    const rows = page ? await query.limit(page.limit).offset(page.offset) : await query;
+
+    return {
+      receipts: rows.map((r) => ({
+        ...r.receipt,
+        uploadedByUser: r.uploadedByUser,
+        vehicle: r.vehicle,
+      })),
+      total: countResult?.count || 0,
+    };
+  }
+
+  // IDs and fiscal years of every receipt the user can see that matches the filters, sorted like
+  // queryAccountReceipts, for filtering on computed values before paging in the full rows
+  async queryAccountReceiptKeys(
+    accountId: string,
+    userId: string,
+    role: string,
+    filters: Omit<ReceiptFilters, "eligibility">,
+    order: { sort: ReceiptSortField; direction: SortDirection }
+  ): Promise<Pick<Receipt, "id" | "fiscalYear">[]> {
+    const condition = and(await this.getReceiptVisibility(accountId, userId, role), ...getReceiptFilterConditions(filters));
+    const sortColumn = RECEIPT_SORT_COLUMNS[order.sort];
+    const direction = order.direction === "asc" ? asc : desc;
+
+    return await db
+      .select({ id: schema.receipts.id, fiscalYear: schema.receipts.fiscalYear })
+      .from(schema.receipts)
+      .where(condition)
+      .orderBy(sql`${direction(sortColumn)} nulls last`, desc(schema.receipts.createdAt), asc(schema.receipts.id));
+  }
+
+  // Full rows for receipts of an account, in the order of the IDs given
+  async getAccountReceiptsByIds(accountId: string, ids: string[]): Promise<(Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]> {
+    if (ids.length === 0) return [];
+
+    const rows = await db
+      .select({
+        receipt: schema.receipts,
+        uploadedByUser: schema.users,
+        vehicle: schema.vehicles,
+      })
+      .from(schema.receipts)
+      .innerJoin(schema.users, eq(schema.receipts.uploadedBy, schema.users.id))
+      .leftJoin(schema.vehicles, eq(schema.receipts.vehicleId, schema.vehicles.id))
+      .where(and(eq(schema.receipts.accountId, accountId), inArray(schema.receipts.id, ids)));
+
+    const byId = new Map(rows.map(r => [r.receipt.id, { ...r.receipt, uploadedByUser: r.uploadedByUser, vehicle: r.vehicle }]));
+    return ids.flatMap(id => byId.get(id) ?? []);
+  }
+
+  // Counts and sums for the receipts the user can see that match the filters
+  async getReceiptAggregates(
+    accountId: string,
+    userId: string,
+    role: string,
+    filters: Omit<ReceiptFilters, "eligibility">
+  ): Promise<Pick<ReceiptSummary, "receiptCount" | "gallons" | "totalAmount" | "statusCounts" | "sellerStateCounts" | "fiscalYears">> {
+    const visibility = await this.getReceiptVisibility(accountId, userId, role);
+    const condition = and(visibility, ...getReceiptFilterConditions(filters));
+
+    const [totals] = await db
+      .select({
+        receiptCount: sql<number>`count(*)::int`,
+        gallons: sql<string>`COALESCE(SUM(${schema.receipts.gallons}), 0)`,
+        totalAmount: sql<string>`COALESCE(SUM(${schema.receipts.totalAmount}), 0)`,
+        pending: sql<number>`count(*) filter (where ${schema.receipts.processingStatus} = 'pending')::int`,
+        processing: sql<number>`count(*) filter (where ${schema.receipts.processingStatus} = 'processing')::int`,
+        completed: sql<number>`count(*) filter (where ${schema.receipts.processingStatus} = 'completed')::int`,
+        failed: sql<number>`count(*) filter (where ${schema.receipts.processingStatus} = 'failed')::int`,
+        missouri: sql<number>`count(*) filter (where ${SELLER_STATE_CONDITIONS.missouri})::int`,
+        other: sql<number>`count(*) filter (where ${SELLER_STATE_CONDITIONS.other})::int`,
+        unknown: sql<number>`count(*) filter (where ${SELLER_STATE_CONDITIONS.unknown})::int`,
+      })
+      .from(schema.receipts)
+      .where(condition);
+
+    const fiscalYears = await db
+      .selectDistinct({ fiscalYear: schema.receipts.fiscalYear })
+      .from(schema.receipts)
+      .where(visibility)
+      .orderBy(desc(schema.receipts.fiscalYear));
+
+    return {
+      receiptCount: totals.receiptCount,
+      gallons: Math.round(parseFloat(totals.gallons) * 1000) / 1000,
+      totalAmount: Math.round(parseFloat(totals.totalAmount) * 100) / 100,
+      statusCounts: {
+        pending: totals.pending,
+        processing: totals.processing,
+        completed: totals.completed,
+        failed: totals.failed,
+      },
+      sellerStateCounts: {
+        missouri: totals.missouri,
+        other: totals.other,
+        unknown: totals.unknown,
+      },
+      fiscalYears: fiscalYears.map(row => row.fiscalYear),
+    };
+  }
+
+  async createReceiptRevision(revision: InsertReceiptRevision): Promise<ReceiptRevision> {
+    const [created] = await db.insert(schema.receiptRevisions).values(revision).returning();
+    return created;
+  }
+
+  // Change history of a receipt, newest first, with the user who made each change
+  async getReceiptRevisions(receiptId: string): Promise<(ReceiptRevision & { actor: User | null })[]> {
+    const rows = await db
+      .select({
+        revision: schema.receiptRevisions,
+        actor: schema.users,
+      })
+      .from(schema.receiptRevisions)
+      .leftJoin(schema.users, eq(schema.receiptRevisions.actorId, schema.users.id))
+      .where(eq(schema.receiptRevisions.receiptId, receiptId))
+      .orderBy(desc(schema.receiptRevisions.createdAt));
+
+    return rows.map((r) => ({
+      ...r.revision,
+      actor: r.actor,
+    }));
+  }
+
+  // Trashed receipts the user can see, most recently deleted first
+  async getTrashedReceipts(accountId: string, userId: string, role: string): Promise<(Receipt & { uploadedByUser: User; vehicle: Vehicle | null })[]> {
+    const receipts = await db
+      .select({
+        receipt: schema.receipts,
+        uploadedByUser: schema.users,
+        vehicle: schema.vehicles,
+      })
+      .from(schema.receipts)
+      .innerJoin(schema.users, eq(schema.receipts.uploadedBy, schema.users.id))
+      .leftJoin(schema.vehicles, eq(schema.receipts.vehicleId, schema.vehicles.id))
+      .where(await this.getReceiptVisibility(accountId, userId, role, true))
+      .orderBy(desc(schema.receipts.deletedAt));
+
+    return receipts.map((r) => ({
+      ...r.receipt,
+      uploadedByUser: r.uploadedByUser,
+      vehicle: r.vehicle,
+    }));
+  }
+
+  async getTrashedReceipt(id: string): Promise<Receipt | undefined> {
+    const [receipt] = await db
+      .select()
+      .from(schema.receipts)
+      .where(and(eq(schema.receipts.id, id), isNotNull(schema.receipts.deletedAt)))
+      .limit(1);
+    return receipt;
+  }
+
+  async trashReceipt(id: string, userId: string): Promise<Receipt | undefined> {
+    const [trashed] = await db
+      .update(schema.receipts)
+      .set({ deletedAt: new Date(), deletedBy: userId })
+      .where(and(eq(schema.receipts.id, id), isNull(schema.receipts.deletedAt)))
+      .returning();
+    if (trashed) invalidateRefundCache(trashed.accountId);
+    return trashed;
+  }
+
+  async restoreReceipt(id: string): Promise<Receipt | undefined> {
+    const [restored] = await db
+      .update(schema.receipts)
+      .set({ deletedAt: null, deletedBy: null })
+      .where(and(eq(schema.receipts.id, id), isNotNull(schema.receipts.deletedAt)))
+      .returning();
+    if (restored) invalidateRefundCache(restored.accountId);
+    return restored;
+  }
+
+  // Trashed receipts past their retention period, across all accounts
+  async getExpiredTrashedReceipts(deletedBefore: Date): Promise<Receipt[]> {
+    return await db
+      .select()
+      .from(schema.receipts)
+      .where(lte(schema.receipts.deletedAt, deletedBefore));
+  }
+}
+
+const RECEIPT_SORT_COLUMNS = {
+  date: schema.receipts.date,
+  stationName: schema.receipts.stationName,
+  gallons: schema.receipts.gallons,
+  totalAmount: schema.receipts.totalAmount,
+  createdAt: schema.receipts.createdAt,
+} as const;
+
+// Seller state groups; receipts with no state (or an empty one) are unknown
+const SELLER_STATE_CONDITIONS = {
+  missouri: sql`upper(${schema.receipts.sellerState}) = 'MO'`,
+  other: sql`coalesce(${schema.receipts.sellerState}, '') <> '' and upper(${schema.receipts.sellerState}) <> 'MO'`,
+  unknown: sql`coalesce(${schema.receipts.sellerState}, '') = ''`,
+} as const;
+
+// Escape LIKE wildcards so a search for "7_11" matches literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function getReceiptFilterConditions(filters: Omit<ReceiptFilters, "eligibility">): (SQL | undefined)[] {
+  return [
+    filters.fiscalYear ? eq(schema.receipts.fiscalYear, filters.fiscalYear) : undefined,
+    filters.vehicleId === UNASSIGNED_VEHICLE_FILTER
+      ? isNull(schema.receipts.vehicleId)
+      : filters.vehicleId ? eq(schema.receipts.vehicleId, filters.vehicleId) : undefined,
+    filters.uploadedBy ? eq(schema.receipts.uploadedBy, filters.uploadedBy) : undefined,
+    filters.dateFrom ? gte(schema.receipts.date, filters.dateFrom) : undefined,
+    filters.dateTo ? lte(schema.receipts.date, filters.dateTo) : undefined,
+    filters.processingStatus ? eq(schema.receipts.processingStatus, filters.processingStatus) : undefined,
+    filters.validated !== undefined ? eq(schema.receipts.validated, filters.validated) : undefined,
+    filters.sellerState ? SELLER_STATE_CONDITIONS[filters.sellerState] : undefined,
+    filters.search ? ilike(schema.receipts.stationName, `%${escapeLikePattern(filters.search)}%`) : undefined,
+  ];
 }
 
 export const storage = new DbStorage();
@@ -1,5 +1,6 @@
 import Stripe from "stripe";
 import { db, storage } from "./storage";
+import { invalidateRefundCache } from "./refundCache";
 import { users, fiscalYearPlans, accountSubscriptions, accounts, paymentLedger, receiptPacks } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 
@@ -93,13 +94,25 @@ export async function createFiscalYearPlan(
     stripePriceId: price.id,
     active: true,
   });
+  // A plan can carry a custom filing window, which moves the claim deadline
+  invalidateRefundCache();
 
   return { productId: product.id, priceId: price.id };
 }
 
 export async function updateFiscalYearPlan(
   id: string,
-  updates: { name?: string; description?: string; priceInCents?: number; active?: boolean; baseReceiptLimit?: number; packPriceInCents?: number; packSize?: number }
+  updates: {
+    name?: string;
+    description?: string;
+    priceInCents?: number;
+    active?: boolean;
+    baseReceiptLimit?: number;
+    packPriceInCents?: number;
+    packSize?: number;
+    filingOpensOn?: string | null;
+    filingDeadline?: string | null;
+  }
 ): Promise<void> {
   const [plan] = await db.select().from(fiscalYearPlans).where(eq(fiscalYearPlans.id, id));
   
@@ -130,6 +143,7 @@ export async function updateFiscalYearPlan(
   }
 
   await db.update(fiscalYearPlans).set(updates).where(eq(fiscalYearPlans.id, id));
+  invalidateRefundCache();
 }
 
 export async function createCheckoutSession(
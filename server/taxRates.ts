@@ -0,0 +1,149 @@
+import type { TaxRate } from "@shared/schema";
+
+export interface TaxRatePeriod {
+  fuelType: string;
+  startDate: string;
+  endDate: string | null;
+  baseRate: string;
+  increase: string;
+}
+
+// Rates stored under the generic fuel type apply to any fuel without a more
+// specific schedule (Missouri taxes gasoline and diesel at the same rate).
+export const DEFAULT_FUEL_TYPE = "Motor Fuel";
+
+// Published Missouri motor fuel tax schedule (RSMo 142.803). The base rate of
+// 17 cents stays in place; the increase is the refundable portion per gallon.
+export const MISSOURI_TAX_RATE_SCHEDULE: TaxRatePeriod[] = [
+  { fuelType: DEFAULT_FUEL_TYPE, startDate: "2021-10-01", endDate: "2022-06-30", baseRate: "0.170", increase: "0.025" },
+  { fuelType: DEFAULT_FUEL_TYPE, startDate: "2022-07-01", endDate: "2023-06-30", baseRate: "0.170", increase: "0.050" },
+  { fuelType: DEFAULT_FUEL_TYPE, startDate: "2023-07-01", endDate: "2024-06-30", baseRate: "0.170", increase: "0.075" },
+  { fuelType: DEFAULT_FUEL_TYPE, startDate: "2024-07-01", endDate: "2025-06-30", baseRate: "0.170", increase: "0.100" },
+  { fuelType: DEFAULT_FUEL_TYPE, startDate: "2025-07-01", endDate: null, baseRate: "0.170", increase: "0.125" },
+];
+
+/**
+ * Map a vehicle or receipt fuel description onto the fuel types used by the
+ * tax rate schedule. NHTSA reports values like "Gasoline" or "Diesel" while
+ * receipts print product codes like "UNL" or "DSL".
+ *
+ * @returns "Gasoline", "Diesel", or null when the fuel type is not recognized
+ */
+export function normalizeFuelType(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const fuel = value.trim().toLowerCase();
+  if (/diesel|\bdsl\b|\bulsd\b|\bb\d{1,2}\b/.test(fuel)) return "Diesel";
+  if (/gas|unl|unleaded|regular|\breg\b|premium|\bprem\b|plus|midgrade|\be\d{1,2}\b|ethanol|flex/.test(fuel)) return "Gasoline";
+  return null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function addDays(value: string, days: number): string {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Validate a tax rate period against the existing schedule for its fuel type.
+ *
+ * Periods for a fuel type must not overlap and must be contiguous: the period
+ * before a new one has to end the day before it starts, and the period after
+ * it has to start the day after it ends. Only the latest period may be
+ * open-ended.
+ *
+ * @param period - The period being created or updated
+ * @param existing - All stored tax rates
+ * @param excludeId - ID of the rate being updated, so it is not compared with itself
+ * @returns A list of validation errors (empty when the period is valid)
+ */
+export function validateTaxRatePeriod(
+  period: TaxRatePeriod,
+  existing: Pick<TaxRate, "id" | "fuelType" | "startDate" | "endDate">[],
+  excludeId?: string
+): string[] {
+  const errors: string[] = [];
+
+  if (!period.fuelType?.trim()) {
+    errors.push("Fuel type is required");
+  }
+  if (!isValidDate(period.startDate)) {
+    errors.push("Start date must be a valid date in YYYY-MM-DD format");
+  }
+  if (period.endDate !== null && !isValidDate(period.endDate)) {
+    errors.push("End date must be a valid date in YYYY-MM-DD format");
+  }
+  for (const [label, value] of [["Base rate", period.baseRate], ["Increase", period.increase]] as const) {
+    const rate = parseFloat(value);
+    if (isNaN(rate) || rate < 0 || rate > 10) {
+      errors.push(`${label} must be a number between 0 and 10`);
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  if (period.endDate !== null && period.endDate < period.startDate) {
+    return ["End date must be on or after the start date"];
+  }
+
+  const others = existing
+    .filter(rate => rate.id !== excludeId && rate.fuelType === period.fuelType)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const overlapping = others.find(rate =>
+    rate.startDate <= (period.endDate ?? "9999-12-31") &&
+    (rate.endDate ?? "9999-12-31") >= period.startDate
+  );
+  if (overlapping) {
+    errors.push(
+      `Period overlaps the existing ${period.fuelType} rate from ${overlapping.startDate} to ${overlapping.endDate ?? "open-ended"}`
+    );
+    return errors;
+  }
+
+  const previous = [...others].reverse().find(rate => rate.startDate < period.startDate);
+  const next = others.find(rate => rate.startDate > period.startDate);
+
+  if (previous && previous.endDate && addDays(previous.endDate, 1) !== period.startDate) {
+    errors.push(
+      `Period leaves a gap after the ${period.fuelType} rate ending ${previous.endDate}; it should start on ${addDays(previous.endDate, 1)}`
+    );
+  }
+  if (next) {
+    if (period.endDate === null) {
+      errors.push(`Only the latest ${period.fuelType} rate may be open-ended`);
+    } else if (addDays(period.endDate, 1) !== next.startDate) {
+      errors.push(
+        `Period leaves a gap before the ${period.fuelType} rate starting ${next.startDate}; it should end on ${addDays(next.startDate, -1)}`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check whether removing a tax rate would split its fuel type's schedule.
+ * Only the first or last period of a schedule can be deleted.
+ */
+export function validateTaxRateDeletion(
+  rate: Pick<TaxRate, "id" | "fuelType" | "startDate">,
+  existing: Pick<TaxRate, "id" | "fuelType" | "startDate">[]
+): string | null {
+  const others = existing.filter(r => r.id !== rate.id && r.fuelType === rate.fuelType);
+  const hasEarlier = others.some(r => r.startDate < rate.startDate);
+  const hasLater = others.some(r => r.startDate > rate.startDate);
+
+  if (hasEarlier && hasLater) {
+    return "Deleting this period would leave a gap in the schedule. Adjust the surrounding periods instead.";
+  }
+  return null;
+}
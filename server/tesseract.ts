@@ -0,0 +1,232 @@
+import { createRequire } from "module";
+import path from "path";
+import { createWorker, type Worker } from "tesseract.js";
+import type { AiTranscription, FieldConfidenceMap, TranscriptionField } from "@shared/schema";
+import { normalizeFuelType } from "./taxRates";
+import type { ReceiptTranscriber } from "./transcription";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Amounts like "45.10", "$45.10" or "3.459"
+const AMOUNT = String.raw`\$?\s*(\d{1,4}[.,]\d{2,3})`;
+
+// Derived values depend on two other readings, so are trusted less
+const DERIVED_CONFIDENCE = 0.6;
+
+// English model shipped with @tesseract.js-data/eng, so the worker never
+// downloads it from a CDN. The LSTM-only "best_int" model matches the
+// default engine mode; it is read in place, so nothing is cached to disk.
+const require = createRequire(import.meta.url);
+const LANG_PATH = path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0_best_int");
+
+// One OCR worker for the process; created on first use
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker("eng", undefined, { langPath: LANG_PATH, gzip: true, cacheMethod: "none" }).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+// A value read from the receipt, with the line it was read from
+interface Found<T> {
+  value: T;
+  rawText: string;
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(",", "."));
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year <= 30 ? 2000 : 1900;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const iso = `${year}-${pad(month)}-${pad(day)}`;
+  const date = new Date(`${iso}T00:00:00Z`);
+  return date.toISOString().slice(0, 10) === iso ? iso : null;
+}
+
+/**
+ * First date on the receipt. US receipts put the month first, so "03/04/25"
+ * is March 4, 2025.
+ */
+function findDate(lines: string[]): Found<string> | null {
+  for (const line of lines) {
+    const numeric = line.match(/\b(\d{1,2})[\/-](\d{1,2})[\/-](\d{2}|\d{4})\b/);
+    const written = line.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/i);
+    const value = numeric
+      ? toIsoDate(parseInt(numeric[3]), parseInt(numeric[1]), parseInt(numeric[2]))
+      : written
+        ? toIsoDate(parseInt(written[3]), MONTHS.indexOf(written[1].toLowerCase()) + 1, parseInt(written[2]))
+        : null;
+    if (value) return { value, rawText: line };
+  }
+  return null;
+}
+
+function findLabeledAmount(lines: string[], label: RegExp): Found<number> | null {
+  for (const line of lines) {
+    if (!label.test(line)) continue;
+    const match = line.match(new RegExp(AMOUNT, "g"));
+    if (match) {
+      return { value: parseAmount(match[match.length - 1].replace(/[$\s]/g, "")), rawText: line };
+    }
+  }
+  return null;
+}
+
+function findGallons(lines: string[]): Found<number> | null {
+  for (const line of lines) {
+    const suffixed = line.match(/(\d{1,3}[.,]\d{2,3})\s*(?:gal\b|gallons?\b|g\b)/i);
+    if (suffixed) return { value: parseAmount(suffixed[1]), rawText: line };
+  }
+  return findLabeledAmount(lines, /\b(gallons?|gal|volume|qty)\b/i);
+}
+
+function findPricePerGallon(lines: string[]): Found<number> | null {
+  for (const line of lines) {
+    const perGallon = line.match(/\$?\s*(\d[.,]\d{2,3})\s*\/\s*(?:gal|g)\b/i);
+    if (perGallon) return { value: parseAmount(perGallon[1]), rawText: line };
+  }
+  return findLabeledAmount(lines, /\b(price|ppg|per gal|\/gal)\b/i);
+}
+
+/**
+ * The amount on the TOTAL line, ignoring subtotals; otherwise the largest
+ * dollar amount on the receipt.
+ */
+function findTotal(lines: string[]): Found<number> | null {
+  const total = findLabeledAmount(lines, /^(?!.*sub\s*total).*\b(total|amount due|sale|fuel sale)\b/i);
+  if (total) return total;
+
+  let largest: Found<number> | null = null;
+  for (const line of lines) {
+    for (const match of Array.from(line.matchAll(/\$\s*(\d{1,4}[.,]\d{2})\b/g))) {
+      const value = parseAmount(match[1]);
+      if (!largest || value > largest.value) largest = { value, rawText: line };
+    }
+  }
+  return largest;
+}
+
+interface FoundAddress {
+  street: Found<string> | null;
+  city: Found<string>;
+  state: Found<string>;
+  zip: Found<string>;
+}
+
+/**
+ * Seller address: a "City, ST 12345" line, with the street on the line before
+ * it if that line starts with a house number.
+ */
+function findAddress(lines: string[]): FoundAddress | null {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(.+?),?\s+([A-Z]{2})\s+(\d{5})(?:-\d{4})?\b/);
+    if (!match) continue;
+    const previous = i > 0 ? lines[i - 1] : "";
+    return {
+      street: /^\d+\s+\S/.test(previous) ? { value: previous, rawText: previous } : null,
+      city: { value: match[1].replace(/,$/, "").trim(), rawText: lines[i] },
+      state: { value: match[2], rawText: lines[i] },
+      zip: { value: match[3], rawText: lines[i] },
+    };
+  }
+  return null;
+}
+
+// Diesel wins over gasoline, since station names often contain "gas"
+function findFuelType(lines: string[]): Found<string> | null {
+  for (const fuelType of ["Diesel", "Gasoline"]) {
+    const line = lines.find(line => normalizeFuelType(line) === fuelType);
+    if (line) return { value: fuelType, rawText: line };
+  }
+  return null;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Heuristic field extraction from OCR text. Each field is looked for
+ * independently; a missing one of gallons, price per gallon and total is
+ * derived from the other two.
+ *
+ * Fields read directly score the page's OCR confidence (0-1); derived fields
+ * score lower, and fields that were not found score 0.
+ */
+export function parseReceiptText(text: string, ocrConfidence = 1): AiTranscription {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, " ").trim()).filter(Boolean);
+  const fields: FieldConfidenceMap = {};
+  const read = <T>(field: TranscriptionField, found: Found<T> | null): T | null => {
+    fields[field] = found
+      ? { confidence: round(ocrConfidence, 2), rawText: found.rawText }
+      : { confidence: 0, rawText: null };
+    return found ? found.value : null;
+  };
+  const derive = (field: TranscriptionField, value: number): number => {
+    fields[field] = { confidence: round(ocrConfidence * DERIVED_CONFIDENCE, 2), rawText: null };
+    return value;
+  };
+
+  let gallons = read("gallons", findGallons(lines));
+  let pricePerGallon = read("pricePerGallon", findPricePerGallon(lines));
+  let totalAmount = read("totalAmount", findTotal(lines));
+
+  if (gallons === null && pricePerGallon && totalAmount !== null) {
+    gallons = derive("gallons", round(totalAmount / pricePerGallon, 3));
+  } else if (pricePerGallon === null && gallons && totalAmount !== null) {
+    pricePerGallon = derive("pricePerGallon", round(totalAmount / gallons, 3));
+  } else if (totalAmount === null && gallons !== null && pricePerGallon !== null) {
+    totalAmount = derive("totalAmount", round(gallons * pricePerGallon, 2));
+  }
+
+  // The station name is usually printed first, before the address
+  const stationLine = lines.find(line => /[a-z]{3,}/i.test(line) && !/^\d/.test(line));
+  const address = findAddress(lines);
+
+  return {
+    date: read("date", findDate(lines)),
+    stationName: read("stationName", stationLine ? { value: stationLine, rawText: stationLine } : null) ?? "",
+    sellerStreet: read("sellerStreet", address?.street ?? null),
+    sellerCity: read("sellerCity", address?.city ?? null),
+    sellerState: read("sellerState", address?.state ?? null),
+    sellerZip: read("sellerZip", address?.zip ?? null),
+    gallons,
+    pricePerGallon,
+    totalAmount,
+    fuelType: read("fuelType", findFuelType(lines)),
+    fields,
+  };
+}
+
+async function transcribeWithTesseract(imageBuffer: Buffer): Promise<AiTranscription> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(imageBuffer);
+  const transcription = parseReceiptText(data.text, data.confidence / 100);
+
+  if (!transcription.stationName && transcription.totalAmount === null && transcription.gallons === null) {
+    throw new Error("No receipt text could be read");
+  }
+  return transcription;
+}
+
+/**
+ * Offline provider: Tesseract OCR with heuristic field parsing. Less accurate
+ * than the vision model, but needs no external service.
+ */
+export const tesseractTranscriber: ReceiptTranscriber = {
+  name: "tesseract",
+  isAvailable: () => true,
+  transcribe: transcribeWithTesseract,
+};
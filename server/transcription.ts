@@ -0,0 +1,143 @@
+import { readFileSync } from "fs";
+import { aiTranscriptionSchema, type AiTranscription } from "@shared/schema";
+import { openaiTranscriber } from "./openai";
+import { tesseractTranscriber } from "./tesseract";
+
+/**
+ * A source of structured receipt data. Providers are tried in order by
+ * `transcribeReceipt`; a provider that throws hands over to the next one.
+ */
+export interface ReceiptTranscriber {
+  name: TranscriptionProvider;
+  // Whether the provider is configured in this environment
+  isAvailable(): boolean;
+  transcribe(imageBuffer: Buffer, mimeType: string): Promise<AiTranscription>;
+}
+
+export const TRANSCRIPTION_PROVIDERS = ["openai", "tesseract", "fixture"] as const;
+
+export type TranscriptionProvider = typeof TRANSCRIPTION_PROVIDERS[number];
+
+// Recorded as the provider of PDF receipts read from their text layer, without OCR
+export const PDF_TEXT_PROVIDER = "pdf_text";
+
+export interface TranscriptionResult {
+  transcription: AiTranscription;
+  provider: TranscriptionProvider | typeof PDF_TEXT_PROVIDER;
+  // Providers that were tried first and failed, with their error
+  failures: { provider: TranscriptionProvider; error: string }[];
+}
+
+// Provider order when RECEIPT_TRANSCRIBERS is not set
+const DEFAULT_PROVIDER_ORDER: TranscriptionProvider[] = ["openai", "tesseract"];
+
+const FIXTURE_TRANSCRIPTION: AiTranscription = {
+  date: "2025-08-15",
+  stationName: "Fixture Fuel Stop",
+  sellerStreet: "100 Main St",
+  sellerCity: "Jefferson City",
+  sellerState: "MO",
+  sellerZip: "65101",
+  gallons: 12.5,
+  pricePerGallon: 3.199,
+  totalAmount: 39.99,
+  fuelType: "Gasoline",
+  fields: {
+    date: { confidence: 0.99, rawText: "08/15/25" },
+    stationName: { confidence: 0.99, rawText: "FIXTURE FUEL STOP" },
+    sellerStreet: { confidence: 0.95, rawText: "100 MAIN ST" },
+    sellerCity: { confidence: 0.95, rawText: "JEFFERSON CITY, MO 65101" },
+    sellerState: { confidence: 0.95, rawText: "JEFFERSON CITY, MO 65101" },
+    sellerZip: { confidence: 0.95, rawText: "JEFFERSON CITY, MO 65101" },
+    gallons: { confidence: 0.99, rawText: "12.500 GAL" },
+    pricePerGallon: { confidence: 0.99, rawText: "$3.199/GAL" },
+    totalAmount: { confidence: 0.99, rawText: "TOTAL $39.99" },
+    fuelType: { confidence: 0.9, rawText: "UNLEADED" },
+  },
+};
+
+/**
+ * Deterministic provider for tests and local development. Returns the
+ * transcription in RECEIPT_FIXTURE_FILE (a JSON file) if set, otherwise a
+ * built-in Missouri receipt. Never available in production.
+ */
+const fixtureTranscriber: ReceiptTranscriber = {
+  name: "fixture",
+  isAvailable: () => process.env.NODE_ENV !== "production",
+  async transcribe() {
+    const fixtureFile = process.env.RECEIPT_FIXTURE_FILE;
+    if (!fixtureFile) {
+      return structuredClone(FIXTURE_TRANSCRIPTION);
+    }
+    return aiTranscriptionSchema.parse(JSON.parse(readFileSync(fixtureFile, "utf-8")));
+  },
+};
+
+const TRANSCRIBERS: Record<TranscriptionProvider, ReceiptTranscriber> = {
+  openai: openaiTranscriber,
+  tesseract: tesseractTranscriber,
+  fixture: fixtureTranscriber,
+};
+
+export function isTranscriptionProvider(name: string): name is TranscriptionProvider {
+  return (TRANSCRIPTION_PROVIDERS as readonly string[]).includes(name);
+}
+
+/**
+ * Provider order for this environment, from RECEIPT_TRANSCRIBERS
+ * (comma separated, e.g. "openai,tesseract"). Unknown names are ignored.
+ */
+function getEnvironmentProviders(): TranscriptionProvider[] {
+  const configured = process.env.RECEIPT_TRANSCRIBERS?.split(",")
+    .map(name => name.trim())
+    .filter(isTranscriptionProvider);
+  return configured && configured.length > 0 ? configured : DEFAULT_PROVIDER_ORDER;
+}
+
+/**
+ * Providers to try for a receipt, in order: the account's preferred provider
+ * (if any), then the environment's providers. Unavailable providers are skipped.
+ */
+export function getTranscriberChain(preferred?: string | null): ReceiptTranscriber[] {
+  const names = getEnvironmentProviders();
+  const ordered = preferred && isTranscriptionProvider(preferred)
+    ? [preferred, ...names.filter(name => name !== preferred)]
+    : names;
+  return ordered.map(name => TRANSCRIBERS[name]).filter(transcriber => transcriber.isAvailable());
+}
+
+export function getAvailableTranscriptionProviders(): TranscriptionProvider[] {
+  return TRANSCRIPTION_PROVIDERS.filter(name => TRANSCRIBERS[name].isAvailable());
+}
+
+/**
+ * Transcribe a receipt image, falling back through the provider chain until
+ * one succeeds. Throws with every provider's error if none do.
+ */
+export async function transcribeReceipt(
+  imageBuffer: Buffer,
+  mimeType: string,
+  preferredProvider?: string | null
+): Promise<TranscriptionResult> {
+  const chain = getTranscriberChain(preferredProvider);
+  if (chain.length === 0) {
+    throw new Error("No receipt transcription provider is configured");
+  }
+
+  const failures: TranscriptionResult["failures"] = [];
+  for (const transcriber of chain) {
+    try {
+      const transcription = await transcriber.transcribe(imageBuffer, mimeType);
+      if (failures.length > 0) {
+        console.log(`Receipt transcribed by ${transcriber.name} after ${failures.map(f => f.provider).join(", ")} failed`);
+      }
+      return { transcription, provider: transcriber.name, failures };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`Transcription provider ${transcriber.name} failed:`, error);
+      failures.push({ provider: transcriber.name, error: message });
+    }
+  }
+
+  throw new Error(`Transcription failed: ${failures.map(f => `${f.provider}: ${f.error}`).join("; ")}`);
+}
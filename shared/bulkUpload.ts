@@ -0,0 +1,49 @@
+import { MAX_RECEIPT_FILE_BYTES } from "./receiptFiles";
+
+// Limits and result shapes for bulk receipt uploads (many photos, or ZIP
+// archives of them, in one request). The request only stages the files; each
+// is turned into a receipt by a background job and the client polls the
+// batch for the results.
+
+export const MAX_BULK_UPLOAD_FILES = 50;
+
+// A ZIP may be larger than a single receipt file; its entries are checked one by one
+export const MAX_BULK_ARCHIVE_BYTES = 100 * 1024 * 1024;
+
+// Largest whole request: a full batch of receipts at the single file limit
+export const MAX_BULK_UPLOAD_BYTES = MAX_BULK_UPLOAD_FILES * MAX_RECEIPT_FILE_BYTES;
+
+export const BULK_UPLOAD_STATUSES = {
+  queued: { label: "Processing" },
+  uploaded: { label: "Uploaded" },
+  duplicate: { label: "Possible duplicate" },
+  failed: { label: "Failed" },
+  quota_exceeded: { label: "Receipt limit reached" },
+} as const;
+
+export type BulkUploadStatus = keyof typeof BULK_UPLOAD_STATUSES;
+
+export interface BulkUploadResult {
+  // ZIP entries are named "archive.zip/entry.jpg"
+  fileName: string;
+  status: BulkUploadStatus;
+  receiptId?: string;
+  duplicateOfId?: string;
+  error?: string;
+}
+
+export interface BulkUploadSummary {
+  batchId: string;
+  results: BulkUploadResult[];
+  // Files still waiting for their job; the batch is done at zero
+  queued: number;
+  uploaded: number;
+  duplicates: number;
+  failed: number;
+}
+
+export function isZipFile(mimeType: string | undefined, fileName: string | undefined): boolean {
+  return mimeType === "application/zip"
+    || mimeType === "application/x-zip-compressed"
+    || !!fileName?.toLowerCase().endsWith(".zip");
+}
@@ -0,0 +1,34 @@
+// Lifecycle of a Form 4923-H refund claim for one account and fiscal year:
+//
+//   draft -> ready -> filed -> refund_received | adjusted
+//
+// A filed claim can be reopened as an amendment, which unlocks its receipts
+// until it is filed again.
+export const CLAIM_STATUSES = {
+  draft: { label: "Draft", locked: false },
+  ready: { label: "Ready to File", locked: false },
+  filed: { label: "Filed", locked: true },
+  refund_received: { label: "Refund Received", locked: true },
+  adjusted: { label: "Refund Adjusted", locked: true },
+  amending: { label: "Amending", locked: false },
+} as const;
+
+export type ClaimStatus = keyof typeof CLAIM_STATUSES;
+
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  draft: ["ready", "filed"],
+  ready: ["draft", "filed"],
+  filed: ["refund_received", "adjusted", "amending"],
+  refund_received: ["amending"],
+  adjusted: ["amending"],
+  amending: ["filed"],
+};
+
+export function canTransitionClaim(from: ClaimStatus, to: ClaimStatus): boolean {
+  return CLAIM_TRANSITIONS[from].includes(to);
+}
+
+// Receipts in a fiscal year whose claim is in a locked status are read-only
+export function isClaimLocked(status: string | null | undefined): boolean {
+  return !!status && status in CLAIM_STATUSES && CLAIM_STATUSES[status as ClaimStatus].locked;
+}
@@ -0,0 +1,26 @@
+import type { FieldConfidenceMap, TranscriptionField } from "./schema";
+
+// Fields scoring below this are highlighted for the user to check
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Fields a refund depends on. A low score on any of these puts the receipt in
+// the "needs review" state; address fields are only highlighted.
+export const REVIEW_FIELDS: TranscriptionField[] = ["date", "stationName", "gallons", "pricePerGallon", "totalAmount"];
+
+export function isLowConfidence(confidence: FieldConfidenceMap | null | undefined, field: TranscriptionField): boolean {
+  const score = confidence?.[field]?.confidence;
+  return score !== undefined && score < LOW_CONFIDENCE_THRESHOLD;
+}
+
+export function getLowConfidenceFields(confidence: FieldConfidenceMap | null | undefined): TranscriptionField[] {
+  if (!confidence) return [];
+  return (Object.keys(confidence) as TranscriptionField[]).filter(field => isLowConfidence(confidence, field));
+}
+
+/**
+ * Whether a transcription should be reviewed before it is trusted. Providers
+ * that report no scores are not flagged.
+ */
+export function needsReview(confidence: FieldConfidenceMap | null | undefined): boolean {
+  return REVIEW_FIELDS.some(field => isLowConfidence(confidence, field));
+}
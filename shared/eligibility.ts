@@ -0,0 +1,68 @@
+// Reason codes explaining why a receipt does not qualify for a Form 4923-H
+// refund. Shared so the server can tag receipts and the client can describe them.
+//
+// Overridable reasons are judgement calls an account admin can waive with a
+// recorded justification. The others make a refund impossible to compute.
+export const ELIGIBILITY_REASONS = {
+  NOT_PROCESSED: {
+    label: "Not processed",
+    description: "The receipt has not finished processing.",
+    overridable: false,
+  },
+  SUSPECTED_DUPLICATE: {
+    label: "Possible duplicate",
+    description: "The receipt looks like a second upload of another receipt. Mark it as not a duplicate or delete it.",
+    overridable: false,
+  },
+  NOT_FILED: {
+    label: "Not in filed claim",
+    description: "The receipt's fiscal year has been filed without it, usually because it had not been validated yet. Reopen the claim as an amendment to add it.",
+    overridable: false,
+  },
+  MISSING_GALLONS: {
+    label: "Missing gallons",
+    description: "The number of gallons purchased is missing.",
+    overridable: false,
+  },
+  NO_TAX_RATE: {
+    label: "No tax rate",
+    description: "No Missouri tax rate increase was in effect on the purchase date.",
+    overridable: false,
+  },
+  OUT_OF_STATE: {
+    label: "Out of state",
+    description: "Only fuel purchased in Missouri qualifies.",
+    overridable: true,
+  },
+  UNKNOWN_STATE: {
+    label: "State unknown",
+    description: "The seller state is missing, so the purchase location cannot be confirmed.",
+    overridable: true,
+  },
+  NO_VEHICLE: {
+    label: "No vehicle",
+    description: "The receipt is not assigned to a vehicle.",
+    overridable: true,
+  },
+  INACTIVE_VEHICLE: {
+    label: "Inactive vehicle",
+    description: "The receipt's vehicle has been deactivated.",
+    overridable: true,
+  },
+  VEHICLE_OVER_26000: {
+    label: "Vehicle over 26,000 lbs",
+    description: "Only vehicles with a gross weight of 26,000 lbs or less qualify.",
+    overridable: true,
+  },
+  OUTSIDE_CLAIM_PERIOD: {
+    label: "Outside claim period",
+    description: "The purchase date is in the future or the claim was filed after the deadline for its fiscal year.",
+    overridable: true,
+  },
+} as const;
+
+export type EligibilityReason = keyof typeof ELIGIBILITY_REASONS;
+
+export function isOverridableReason(reason: EligibilityReason): boolean {
+  return ELIGIBILITY_REASONS[reason].overridable;
+}
@@ -0,0 +1,50 @@
+// Columns available to the receipt export endpoint, in their default order.
+// Values are produced server-side in server/exports.ts; the client only needs
+// the labels to let users pick columns.
+export const EXPORT_COLUMNS = {
+  date: { header: "Date", default: true },
+  stationName: { header: "Station Name", default: true },
+  sellerStreet: { header: "Seller Street", default: true },
+  sellerCity: { header: "Seller City", default: true },
+  sellerState: { header: "Seller State", default: true },
+  sellerZip: { header: "Seller ZIP", default: true },
+  gallons: { header: "Gallons", default: true },
+  pricePerGallon: { header: "Price per Gallon", default: true },
+  totalAmount: { header: "Total Amount", default: true },
+  fuelType: { header: "Fuel Type", default: true },
+  vehicle: { header: "Vehicle", default: true },
+  vin: { header: "VIN", default: true },
+  uploadedBy: { header: "Uploaded By", default: false },
+  baseRate: { header: "Base Tax Rate", default: false },
+  taxIncrease: { header: "Tax Increase per Gallon", default: true },
+  refundAmount: { header: "Refund Amount", default: true },
+  eligible: { header: "Eligible", default: true },
+  eligibilityReasons: { header: "Eligibility Reasons", default: true },
+  // Receipt image, or what documents a manual entry
+  evidence: { header: "Evidence", default: false },
+  fiscalYear: { header: "Fiscal Year", default: false },
+  receiptId: { header: "Receipt ID", default: false },
+  // Image URL, or the file name inside an audit packet
+  image: { header: "Image", default: false },
+} as const;
+
+export type ExportColumnKey = keyof typeof EXPORT_COLUMNS;
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const DEFAULT_EXPORT_COLUMNS = (Object.keys(EXPORT_COLUMNS) as ExportColumnKey[])
+  .filter(key => EXPORT_COLUMNS[key].default);
+
+// Audit packets for fiscal years with more receipts than this are built as a
+// background job instead of streamed while the user waits
+export const AUDIT_PACKET_BACKGROUND_THRESHOLD = 100;
+
+export function isExportColumn(key: string): key is ExportColumnKey {
+  return Object.prototype.hasOwnProperty.call(EXPORT_COLUMNS, key);
+}
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
@@ -0,0 +1,145 @@
+import type { FiscalYearPlan } from "./schema";
+
+// Missouri's fiscal year runs July 1 - June 30 and is named after the two
+// calendar years it spans ("2024-2025"). A year's refund claim can be filed
+// from July 1 through September 30 after it ends, unless the fiscal year's
+// plan sets its own filing window.
+export const FISCAL_YEAR_START_MONTH = 7;
+
+// Default filing window as MM-DD in the calendar year the fiscal year ends
+export const DEFAULT_FILING_OPENS = "07-01";
+export const DEFAULT_FILING_DEADLINE = "09-30";
+
+export type FilingCalendarOverrides = Partial<Pick<FiscalYearPlan, "fiscalYear" | "filingOpensOn" | "filingDeadline">>;
+
+export interface FiscalYearCalendar {
+  fiscalYear: string;
+  // First and last day of the fiscal year (YYYY-MM-DD)
+  startDate: string;
+  endDate: string;
+  // First and last day a claim for the fiscal year can be filed (YYYY-MM-DD)
+  filingOpensOn: string;
+  filingDeadline: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatUTCDate(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+export function isCalendarDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && formatUTCDate(parseDate(value)) === value;
+}
+
+// Local calendar date (YYYY-MM-DD), so "today" matches the user's wall clock
+export function toDateString(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function getFiscalYear(date: string): string {
+  const [year, month] = date.split("-").map(Number);
+  return month >= FISCAL_YEAR_START_MONTH ? `${year}-${year + 1}` : `${year - 1}-${year}`;
+}
+
+export function getCurrentFiscalYear(today: string = toDateString()): string {
+  return getFiscalYear(today);
+}
+
+export function getPreviousFiscalYear(fiscalYear: string): string {
+  const [startYear, endYear] = fiscalYear.split("-").map(Number);
+  return `${startYear - 1}-${endYear - 1}`;
+}
+
+/**
+ * Boundaries and filing window for a fiscal year. Dates set on the fiscal
+ * year's plan override the default filing window.
+ */
+export function getFiscalYearCalendar(fiscalYear: string, overrides?: FilingCalendarOverrides | null): FiscalYearCalendar {
+  const [startYear, endYear] = fiscalYear.split("-").map(Number);
+  const startDate = `${startYear}-${pad(FISCAL_YEAR_START_MONTH)}-01`;
+  // Day zero of the start month is the last day of the month before it
+  const endDate = formatUTCDate(new Date(Date.UTC(endYear, FISCAL_YEAR_START_MONTH - 1, 0)));
+
+  return {
+    fiscalYear,
+    startDate,
+    endDate,
+    filingOpensOn: overrides?.filingOpensOn || `${endYear}-${DEFAULT_FILING_OPENS}`,
+    filingDeadline: overrides?.filingDeadline || `${endYear}-${DEFAULT_FILING_DEADLINE}`,
+  };
+}
+
+/**
+ * Find the fiscal year whose filing window is open today, if any. Plans are
+ * consulted for custom windows; the fiscal year that most recently ended is
+ * always considered with its default window.
+ */
+export function getOpenFilingWindow(
+  plans: FilingCalendarOverrides[] = [],
+  today: string = toDateString()
+): FiscalYearCalendar | null {
+  const previous = getPreviousFiscalYear(getFiscalYear(today));
+  const fiscalYears = new Set([previous, ...plans.map(plan => plan.fiscalYear).filter((fy): fy is string => !!fy)]);
+
+  const open = Array.from(fiscalYears)
+    .map(fiscalYear => getFiscalYearCalendar(fiscalYear, plans.find(plan => plan.fiscalYear === fiscalYear)))
+    .filter(calendar => calendar.filingOpensOn <= today && today <= calendar.filingDeadline)
+    .sort((a, b) => a.filingDeadline.localeCompare(b.filingDeadline));
+
+  return open[0] || null;
+}
+
+// Whole days from one date to another (negative when `to` is earlier)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / MS_PER_DAY);
+}
+
+// "September 30, 2025"
+export function formatCalendarDate(date: string): string {
+  return parseDate(date).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Validate a fiscal year's custom filing window. Either date may be left
+ * empty to use the default.
+ */
+export function validateFilingCalendar(fiscalYear: string, overrides: FilingCalendarOverrides): string[] {
+  const errors: string[] = [];
+  const { filingOpensOn, filingDeadline } = overrides;
+
+  if (filingOpensOn && !isCalendarDate(filingOpensOn)) {
+    errors.push("Filing window start must be a valid date (YYYY-MM-DD)");
+  }
+  if (filingDeadline && !isCalendarDate(filingDeadline)) {
+    errors.push("Filing deadline must be a valid date (YYYY-MM-DD)");
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const calendar = getFiscalYearCalendar(fiscalYear, overrides);
+  if (calendar.filingOpensOn > calendar.filingDeadline) {
+    errors.push("Filing window must open on or before the deadline");
+  }
+  if (calendar.filingDeadline <= calendar.endDate) {
+    errors.push(`Filing deadline must be after the fiscal year ends (${calendar.endDate})`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,37 @@
+// What a receipt's purchase is documented by. Uploaded receipts are backed by
+// the receipt image; manual entries record a purchase whose receipt was lost,
+// optionally with a supporting document. Form 4923-H marks manual entries
+// with their code so the reviewer knows no receipt is attached.
+export const EVIDENCE_TYPES = {
+  receipt: {
+    label: "Receipt",
+    formCode: "",
+    description: "The receipt image.",
+  },
+  statement: {
+    label: "Card or bank statement",
+    formCode: "S",
+    description: "A card or bank statement line showing the purchase.",
+  },
+  affidavit: {
+    label: "Lost-receipt affidavit",
+    formCode: "A",
+    description: "A signed statement describing the purchase.",
+  },
+  none: {
+    label: "No supporting document",
+    formCode: "N",
+    description: "Entered from the purchaser's own records.",
+  },
+} as const;
+
+export type EvidenceType = keyof typeof EVIDENCE_TYPES;
+
+// Evidence types a manual entry can be recorded with
+export const MANUAL_EVIDENCE_TYPES = ["statement", "affidavit", "none"] as const;
+
+export type ManualEvidenceType = typeof MANUAL_EVIDENCE_TYPES[number];
+
+export function isManualEvidenceType(type: string): type is ManualEvidenceType {
+  return (MANUAL_EVIDENCE_TYPES as readonly string[]).includes(type);
+}
@@ -0,0 +1,44 @@
+// File types accepted for receipt uploads. Shared so the upload zone and the
+// server agree. HEIC photos and PDF e-receipts are converted to an image on
+// the server; the file as uploaded is kept as the receipt's original.
+export const RECEIPT_FILE_TYPES = {
+  "image/jpeg": { extensions: [".jpg", ".jpeg"], browserViewable: true },
+  "image/png": { extensions: [".png"], browserViewable: true },
+  "image/webp": { extensions: [".webp"], browserViewable: true },
+  "image/gif": { extensions: [".gif"], browserViewable: true },
+  "image/tiff": { extensions: [".tif", ".tiff"], browserViewable: false },
+  "image/heic": { extensions: [".heic"], browserViewable: false },
+  "image/heif": { extensions: [".heif"], browserViewable: false },
+  "application/pdf": { extensions: [".pdf"], browserViewable: false },
+} as const;
+
+export type ReceiptFileType = keyof typeof RECEIPT_FILE_TYPES;
+
+export const MAX_RECEIPT_FILE_BYTES = 10 * 1024 * 1024;
+
+// Value for a file input's `accept`; extensions too, as some browsers report no type for HEIC
+export const RECEIPT_FILE_ACCEPT = Object.entries(RECEIPT_FILE_TYPES)
+  .flatMap(([type, { extensions }]) => [type, ...extensions])
+  .join(",");
+
+/**
+ * Type of an upload from its MIME type, or from its extension when the
+ * browser reports none (common for HEIC). Null if it is not supported.
+ */
+export function getReceiptFileType(mimeType: string | undefined, fileName: string | undefined): ReceiptFileType | null {
+  const type = mimeType?.toLowerCase();
+  if (type && type in RECEIPT_FILE_TYPES) {
+    return type as ReceiptFileType;
+  }
+
+  const extension = fileName?.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+  const match = Object.entries(RECEIPT_FILE_TYPES).find(([, { extensions }]) =>
+    (extensions as readonly string[]).includes(extension ?? "")
+  );
+  return match ? match[0] as ReceiptFileType : null;
+}
+
+// Whether an <img> can show the file; other originals are offered as a download
+export function isBrowserViewable(type: string | null | undefined): boolean {
+  return !!type && type in RECEIPT_FILE_TYPES && RECEIPT_FILE_TYPES[type as ReceiptFileType].browserViewable;
+}
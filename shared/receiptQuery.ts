@@ -0,0 +1,118 @@
+// Filters, sorting and paging for the receipts list endpoint. The client builds
+// the query string with toReceiptQueryString; server/receiptQueries.ts parses
+// and validates it.
+
+export const RECEIPT_SORT_FIELDS = ["date", "stationName", "gallons", "totalAmount", "createdAt"] as const;
+
+export type ReceiptSortField = typeof RECEIPT_SORT_FIELDS[number];
+
+export const SORT_DIRECTIONS = ["asc", "desc"] as const;
+
+export type SortDirection = typeof SORT_DIRECTIONS[number];
+
+export const RECEIPT_PAGE_SIZES = [25, 50, 100] as const;
+
+export const DEFAULT_RECEIPT_PAGE_SIZE = 25;
+
+export const RECEIPT_PROCESSING_STATUSES = ["pending", "processing", "completed", "failed"] as const;
+
+export type ReceiptProcessingStatus = typeof RECEIPT_PROCESSING_STATUSES[number];
+
+// Missouri purchases, purchases in other states, and receipts without a seller state
+export const SELLER_STATE_FILTERS = ["missouri", "other", "unknown"] as const;
+
+export type SellerStateFilter = typeof SELLER_STATE_FILTERS[number];
+
+export const ELIGIBILITY_FILTERS = ["eligible", "ineligible"] as const;
+
+export type EligibilityFilter = typeof ELIGIBILITY_FILTERS[number];
+
+// vehicleId filter value for receipts not assigned to a vehicle
+export const UNASSIGNED_VEHICLE_FILTER = "unassigned";
+
+export interface ReceiptFilters {
+  fiscalYear?: string;
+  vehicleId?: string;
+  uploadedBy?: string;
+  // Inclusive purchase date range, YYYY-MM-DD
+  dateFrom?: string;
+  dateTo?: string;
+  processingStatus?: ReceiptProcessingStatus;
+  validated?: boolean;
+  eligibility?: EligibilityFilter;
+  sellerState?: SellerStateFilter;
+  // Matched against the station name, case-insensitively
+  search?: string;
+}
+
+export interface ReceiptQuery extends ReceiptFilters {
+  sort: ReceiptSortField;
+  direction: SortDirection;
+  page: number;
+  pageSize: number;
+}
+
+export interface ReceiptPage<T> {
+  receipts: T[];
+  // Receipts matching the filters across all pages
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ReceiptRefundTotals {
+  receiptCount: number;
+  eligibleCount: number;
+  gallons: number;
+  refundAmount: number;
+}
+
+// Aggregates for the receipts matching a set of filters, from the summary endpoint
+export interface ReceiptSummary {
+  receiptCount: number;
+  gallons: number;
+  totalAmount: number;
+  statusCounts: Record<ReceiptProcessingStatus, number>;
+  sellerStateCounts: Record<SellerStateFilter, number>;
+  // Every fiscal year the user has receipts in, newest first, whatever the filters
+  fiscalYears: string[];
+  refunds: ReceiptRefundTotals;
+  refundTotals: Record<string, number>;
+  refundTotalsByVehicle: Record<string, ReceiptRefundTotals>;
+  refundTotalsByUploader: Record<string, ReceiptRefundTotals>;
+}
+
+export const DEFAULT_RECEIPT_SORT: Pick<ReceiptQuery, "sort" | "direction"> = {
+  sort: "date",
+  direction: "desc",
+};
+
+export function isReceiptSortField(field: string): field is ReceiptSortField {
+  return (RECEIPT_SORT_FIELDS as readonly string[]).includes(field);
+}
+
+export function isSortDirection(direction: string): direction is SortDirection {
+  return (SORT_DIRECTIONS as readonly string[]).includes(direction);
+}
+
+export function isReceiptProcessingStatus(status: string): status is ReceiptProcessingStatus {
+  return (RECEIPT_PROCESSING_STATUSES as readonly string[]).includes(status);
+}
+
+export function isSellerStateFilter(filter: string): filter is SellerStateFilter {
+  return (SELLER_STATE_FILTERS as readonly string[]).includes(filter);
+}
+
+export function isEligibilityFilter(filter: string): filter is EligibilityFilter {
+  return (ELIGIBILITY_FILTERS as readonly string[]).includes(filter);
+}
+
+// Query string for the receipts list or summary endpoint; unset values are left out
+export function toReceiptQueryString(query: Partial<ReceiptQuery>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === "") continue;
+    params.set(key, String(value));
+  }
+  return params.toString();
+}
@@ -0,0 +1,45 @@
+// Where a change to a receipt came from, for its revision history
+export const REVISION_SOURCES = {
+  ai: { label: "AI transcription" },
+  user: { label: "Edited" },
+  reprocess: { label: "Re-transcription accepted" },
+  review: { label: "Approved in review" },
+  admin_override: { label: "Eligibility override" },
+  trash: { label: "Moved to trash" },
+  restore: { label: "Restored from trash" },
+  duplicates: { label: "Duplicate check" },
+} as const;
+
+export type RevisionSource = keyof typeof REVISION_SOURCES;
+
+// Receipt fields whose changes are recorded, with the labels the history shows.
+// Bookkeeping fields (processing status, confidence, warnings) are left out.
+export const REVISION_FIELDS = {
+  date: { label: "Date" },
+  stationName: { label: "Station" },
+  sellerStreet: { label: "Street" },
+  sellerCity: { label: "City" },
+  sellerState: { label: "State" },
+  sellerZip: { label: "ZIP" },
+  gallons: { label: "Gallons" },
+  pricePerGallon: { label: "Price per gallon" },
+  totalAmount: { label: "Total" },
+  fuelType: { label: "Fuel type" },
+  vehicleId: { label: "Vehicle" },
+  fiscalYear: { label: "Fiscal year" },
+  validated: { label: "Validated" },
+  duplicateOfId: { label: "Duplicate of" },
+  eligibilityOverride: { label: "Eligibility override" },
+  eligibilityOverrideReason: { label: "Override justification" },
+  deletedAt: { label: "In trash since" },
+} as const;
+
+export type RevisionField = keyof typeof REVISION_FIELDS;
+
+export type RevisionValue = string | number | boolean | null;
+
+export interface ReceiptFieldChange {
+  field: RevisionField;
+  before: RevisionValue;
+  after: RevisionValue;
+}
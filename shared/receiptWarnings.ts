@@ -0,0 +1,53 @@
+// Plausibility warnings for a receipt's transcribed or entered values. Unlike
+// eligibility reasons they do not affect the refund; they point the user at
+// values that are probably misread.
+export const RECEIPT_WARNINGS = {
+  MATH_MISMATCH: {
+    label: "Total doesn't add up",
+    description: "Gallons times price per gallon does not match the total amount.",
+  },
+  PRICE_OUT_OF_RANGE: {
+    label: "Unusual price",
+    description: "The price per gallon is outside the plausible range for the purchase date.",
+  },
+  GALLONS_EXCEED_TANK: {
+    label: "Too many gallons",
+    description: "More gallons than the vehicle's fuel tank can hold.",
+  },
+  FUTURE_DATE: {
+    label: "Future date",
+    description: "The purchase date is after today.",
+  },
+} as const;
+
+export type ReceiptWarningCode = keyof typeof RECEIPT_WARNINGS;
+
+export interface ReceiptWarning {
+  code: ReceiptWarningCode;
+  // Specific explanation, e.g. "12.000 gal × $3.199 = $38.39, receipt total $83.39"
+  message: string;
+  // Receipt fields the warning is about
+  fields: string[];
+}
+
+// Allowed difference between gallons × price and the total: the larger of
+// an absolute amount (rounding, pump display) and a share of the total
+export const MATH_TOLERANCE_DOLLARS = 0.1;
+export const MATH_TOLERANCE_RATIO = 0.02;
+
+// Tank size assumed when the vehicle has no capacity recorded. Generous, so
+// only clear misreads (e.g. 312.5 instead of 31.25) are flagged.
+export const DEFAULT_TANK_CAPACITY_GALLONS = 60;
+
+// Plausible retail price per gallon, by the date the range starts. Wide on
+// purpose: these catch misreads like $0.25/gal, not expensive stations.
+export const PRICE_RANGES: { from: string; min: number; max: number }[] = [
+  { from: "2000-01-01", min: 0.9, max: 4.5 },
+  { from: "2008-01-01", min: 1.4, max: 5.5 },
+  { from: "2021-07-01", min: 2.0, max: 7.0 },
+];
+
+export function getPriceRange(date: string): { min: number; max: number } {
+  const range = [...PRICE_RANGES].reverse().find(r => date >= r.from) ?? PRICE_RANGES[0];
+  return { min: range.min, max: range.max };
+}
@@ -1,7 +1,11 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, numeric, timestamp, serial, integer, boolean, index, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, numeric, timestamp, serial, integer, boolean, index, uniqueIndex, uuid, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ReceiptWarning } from "./receiptWarnings";
+import type { ReceiptFieldChange } from "./receiptRevisions";
+import type { EvidenceType } from "./receiptEvidence";
+import type { BulkUploadStatus } from "./bulkUpload";
 
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -59,6 +63,8 @@ export const accounts = pgTable("accounts", {
   emailAddress: varchar("email_address", { length: 255 }),
   phoneNumber: varchar("phone_number", { length: 50 }),
   faxNumber: varchar("fax_number", { length: 50 }),
+  // Preferred receipt transcription provider; null uses the environment default
+  transcriptionProvider: varchar("transcription_provider", { length: 50 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -84,6 +90,8 @@ export const vehicles = pgTable("vehicles", {
   model: varchar("model", { length: 100 }).notNull(),
   fuelType: varchar("fuel_type", { length: 50 }).notNull(),
   weightUnder26000: boolean("weight_under_26000").notNull(),
+  // Used to flag receipts with more gallons than the tank holds
+  tankCapacityGallons: numeric("tank_capacity_gallons", { precision: 6, scale: 1 }),
   active: boolean("active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
@@ -117,7 +125,10 @@ export const receipts = pgTable("receipts", {
   accountId: uuid("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
   vehicleId: uuid("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
   uploadedBy: uuid("uploaded_by").notNull().references(() => users.id, { onDelete: "cascade" }),
-  imageUrl: text("image_url").notNull(),
+  // Null for manual entries, which have no receipt image
+  imageUrl: text("image_url"),
+  // What documents the purchase; anything but "receipt" is a manual entry
+  evidenceType: varchar("evidence_type", { length: 20 }).$type<EvidenceType>().notNull().default("receipt"),
   date: text("date").notNull(),
   stationName: text("station_name").notNull(),
   sellerStreet: text("seller_street"),
@@ -127,14 +138,43 @@ export const receipts = pgTable("receipts", {
   validated: boolean("validated").notNull().default(false),
   processingStatus: varchar("processing_status", { length: 20 }).notNull().default("pending"),
   processingError: text("processing_error"),
+  transcriptionProvider: varchar("transcription_provider", { length: 50 }),
+  // Per-field confidence and source text reported by the transcription provider
+  fieldConfidence: jsonb("field_confidence").$type<FieldConfidenceMap>(),
+  // Set when a key field was transcribed with low confidence; cleared on validation
+  needsReview: boolean("needs_review").notNull().default(false),
+  // Result of re-running transcription, waiting for the user to accept fields from it
+  pendingTranscription: jsonb("pending_transcription").$type<TranscriptionProposal>(),
+  // Arithmetic and plausibility warnings, refreshed whenever the receipt's values change
+  validationWarnings: jsonb("validation_warnings").$type<ReceiptWarning[]>().notNull().default([]),
+  // The upload as received, before resizing and grayscale; null for receipts uploaded before it was kept.
+  // For manual entries, the supporting document if one was attached.
+  originalImagePath: text("original_image_path"),
+  originalImageType: varchar("original_image_type", { length: 100 }),
+  originalImageEncrypted: boolean("original_image_encrypted").notNull().default(false),
+  // Perceptual hash (dHash, hex) of the stored image, for duplicate detection
+  imageHash: varchar("image_hash", { length: 16 }),
+  // Earlier receipt this one appears to duplicate; excluded from refunds until resolved
+  duplicateOfId: uuid("duplicate_of_id").references((): AnyPgColumn => receipts.id, { onDelete: "set null" }),
+  // Set when the user marks a suspected duplicate as a separate purchase
+  duplicateDismissed: boolean("duplicate_dismissed").notNull().default(false),
   gallons: numeric("gallons", { precision: 10, scale: 3 }),
   pricePerGallon: numeric("price_per_gallon", { precision: 10, scale: 3 }),
   totalAmount: numeric("total_amount", { precision: 10, scale: 2 }),
+  fuelType: varchar("fuel_type", { length: 50 }),
   fiscalYear: text("fiscal_year").notNull(),
+  eligibilityOverride: boolean("eligibility_override"),
+  eligibilityOverrideReason: text("eligibility_override_reason"),
+  eligibilityOverrideBy: uuid("eligibility_override_by").references(() => users.id, { onDelete: "set null" }),
+  eligibilityOverrideAt: timestamp("eligibility_override_at"),
+  // Set when the receipt is moved to the trash; it is purged once the retention period passes
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: uuid("deleted_by").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   accountIdx: index("receipt_account_idx").on(table.accountId),
   vehicleIdx: index("receipt_vehicle_idx").on(table.vehicleId),
+  deletedAtIdx: index("receipt_deleted_at_idx").on(table.deletedAt),
 }));
 
 export const fiscalYearPlans = pgTable("fiscal_year_plans", {
@@ -149,6 +189,9 @@ export const fiscalYearPlans = pgTable("fiscal_year_plans", {
   stripePriceId: varchar("stripe_price_id", { length: 255 }),
   stripeProductId: varchar("stripe_product_id", { length: 255 }),
   active: boolean("active").notNull().default(true),
+  // Custom filing window (YYYY-MM-DD); null uses the default in shared/filingCalendar.ts
+  filingOpensOn: text("filing_opens_on"),
+  filingDeadline: text("filing_deadline"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -187,6 +230,140 @@ export const receiptPacks = pgTable("receipt_packs", {
   accountFiscalYearIdx: index("receipt_pack_idx").on(table.accountId, table.fiscalYear),
 }));
 
+export const claims = pgTable("claims", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  accountId: uuid("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  fiscalYear: text("fiscal_year").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("draft"),
+  filedReceiptCount: integer("filed_receipt_count"),
+  filedGallons: numeric("filed_gallons", { precision: 12, scale: 3 }),
+  filedRefundAmount: numeric("filed_refund_amount", { precision: 10, scale: 2 }),
+  filedAt: timestamp("filed_at"),
+  filedBy: uuid("filed_by").references(() => users.id, { onDelete: "set null" }),
+  refundPaidAmount: numeric("refund_paid_amount", { precision: 10, scale: 2 }),
+  refundReceivedAt: timestamp("refund_received_at"),
+  varianceAmount: numeric("variance_amount", { precision: 10, scale: 2 }),
+  amendmentCount: integer("amendment_count").notNull().default(0),
+  reopenedAt: timestamp("reopened_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  accountFiscalYearIdx: uniqueIndex("claim_account_fy_idx").on(table.accountId, table.fiscalYear),
+}));
+
+// Per-receipt refund figures frozen when a claim is filed, so later tax rate
+// corrections can't change amounts that were already submitted
+export const claimReceipts = pgTable("claim_receipts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  claimId: uuid("claim_id").notNull().references(() => claims.id, { onDelete: "cascade" }),
+  // Not a foreign key: the snapshot is what was filed with the state, so it
+  // outlives the receipt being purged from the trash
+  receiptId: uuid("receipt_id").notNull(),
+  vehicleId: uuid("vehicle_id"),
+  uploadedBy: uuid("uploaded_by").notNull(),
+  date: text("date").notNull(),
+  stationName: text("station_name").notNull().default(""),
+  fuelType: varchar("fuel_type", { length: 50 }),
+  // Copied from the tax rate period rather than referenced, since periods can be edited or deleted
+  taxRateId: uuid("tax_rate_id"),
+  rateFuelType: varchar("rate_fuel_type", { length: 50 }),
+  rateStartDate: text("rate_start_date"),
+  rateEndDate: text("rate_end_date"),
+  rateFallback: boolean("rate_fallback").notNull().default(false),
+  baseRate: numeric("base_rate", { precision: 10, scale: 3 }).notNull(),
+  increase: numeric("increase", { precision: 10, scale: 3 }).notNull(),
+  gallons: numeric("gallons", { precision: 10, scale: 3 }).notNull(),
+  refundAmount: numeric("refund_amount", { precision: 10, scale: 2 }).notNull(),
+  eligible: boolean("eligible").notNull(),
+  eligibilityReasons: text("eligibility_reasons").array().notNull().default(sql`'{}'::text[]`),
+  eligibilityOverridden: boolean("eligibility_overridden").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  claimReceiptIdx: uniqueIndex("claim_receipt_idx").on(table.claimId, table.receiptId),
+}));
+
+// One row per change to a receipt's values: what changed, who changed it and
+// how (see shared/receiptRevisions.ts). AI transcriptions have no actor.
+export const receiptRevisions = pgTable("receipt_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  receiptId: uuid("receipt_id").notNull().references(() => receipts.id, { onDelete: "cascade" }),
+  accountId: uuid("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  actorId: uuid("actor_id").references(() => users.id, { onDelete: "set null" }),
+  source: varchar("source", { length: 20 }).notNull(),
+  changes: jsonb("changes").$type<ReceiptFieldChange[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  receiptIdx: index("receipt_revision_receipt_idx").on(table.receiptId),
+}));
+
+// Exports generated in the background (e.g. audit packets for large fiscal
+// years); the finished file is kept in object storage until downloaded
+export const exportJobs = pgTable("export_jobs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  accountId: uuid("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  requestedBy: uuid("requested_by").references(() => users.id, { onDelete: "set null" }),
+  kind: varchar("kind", { length: 30 }).notNull(),
+  fiscalYear: text("fiscal_year").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  objectPath: text("object_path"),
+  fileName: text("file_name"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  accountIdx: index("export_job_account_idx").on(table.accountId),
+}));
+
+// Files of a bulk upload, staged in object storage until a `bulk_upload_file`
+// job turns each into a receipt (see server/receiptUploads.ts). A ZIP
+// archive's row is replaced by one row per file inside it once the archive
+// is unpacked. The client polls a batch's rows for the per-file results.
+export const bulkUploadFiles = pgTable("bulk_upload_files", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  batchId: uuid("batch_id").notNull(),
+  accountId: uuid("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  uploadedBy: uuid("uploaded_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  vehicleId: uuid("vehicle_id"),
+  // ZIP entries are named "archive.zip/entry.jpg"
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type"),
+  // Cleared once the file has been processed and the staged copy deleted
+  stagedPath: text("staged_path"),
+  // Scheme and host of the upload request, which the receipt image is served from
+  baseUrl: text("base_url").notNull(),
+  status: varchar("status", { length: 20 }).$type<BulkUploadStatus>().notNull().default("queued"),
+  receiptId: uuid("receipt_id"),
+  duplicateOfId: uuid("duplicate_of_id"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  batchIdx: index("bulk_upload_file_batch_idx").on(table.batchId),
+}));
+
+// Durable background work (transcription, exports, emails), run by the job
+// worker in server/jobs.ts. Failed jobs are retried with backoff until
+// maxAttempts, then left in the "dead" state for inspection.
+export const jobs = pgTable("jobs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  type: varchar("type", { length: 50 }).notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  // Identifies the entity a job works on (e.g. "receipt:<id>") so it is not queued twice
+  key: text("key"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  statusRunAtIdx: index("job_status_run_at_idx").on(table.status, table.runAt),
+  keyIdx: index("job_key_idx").on(table.key),
+}));
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -228,6 +405,13 @@ export const insertTaxRateSchema = createInsertSchema(taxRates).omit({
   createdAt: true,
 });
 
+export const fieldConfidenceSchema = z.object({
+  // 0 (guess) to 1 (certain)
+  confidence: z.number().min(0).max(1),
+  // The text on the receipt the value was read from
+  rawText: z.string().nullable().optional(),
+});
+
 export const insertReceiptSchema = createInsertSchema(receipts).omit({
   id: true,
   createdAt: true,
@@ -238,6 +422,10 @@ export const insertReceiptSchema = createInsertSchema(receipts).omit({
   totalAmount: z.string().or(z.number()).transform(val => String(val)).optional(),
   processingStatus: z.enum(["pending", "processing", "completed", "failed"]).optional(),
   processingError: z.string().optional().nullable(),
+  fieldConfidence: z.record(z.string(), fieldConfidenceSchema).optional().nullable(),
+  pendingTranscription: z.custom<TranscriptionProposal>().optional().nullable(),
+  validationWarnings: z.custom<ReceiptWarning[]>().optional(),
+  evidenceType: z.enum(["receipt", "statement", "affidavit", "none"]).optional(),
 });
 
 export const insertFiscalYearPlanSchema = createInsertSchema(fiscalYearPlans).omit({
@@ -250,6 +438,11 @@ export const insertAccountSubscriptionSchema = createInsertSchema(accountSubscri
   createdAt: true,
 });
 
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertReceiptPackSchema = createInsertSchema(receiptPacks).omit({
   id: true,
   purchasedAt: true,
@@ -327,6 +520,32 @@ export const paymentLedger = pgTable("payment_ledger", {
   fiscalYearIdx: index("payment_ledger_fy_idx").on(table.fiscalYear),
 }));
 
+export const insertClaimSchema = createInsertSchema(claims).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertClaimReceiptSchema = createInsertSchema(claimReceipts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReceiptRevisionSchema = createInsertSchema(receiptRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExportJobSchema = createInsertSchema(exportJobs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBulkUploadFileSchema = createInsertSchema(bulkUploadFiles).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertInvitationSchema = createInsertSchema(invitations).omit({
   id: true,
   createdAt: true,
@@ -394,6 +613,26 @@ export type InsertDiscountCode = z.infer<typeof insertDiscountCodeSchema>;
 export type DiscountCodeRedemption = typeof discountCodeRedemptions.$inferSelect;
 export type InsertDiscountCodeRedemption = z.infer<typeof insertDiscountCodeRedemptionSchema>;
 
+export type Claim = typeof claims.$inferSelect;
+export type InsertClaim = z.infer<typeof insertClaimSchema>;
+
+export type ClaimReceipt = typeof claimReceipts.$inferSelect;
+export type InsertClaimReceipt = z.infer<typeof insertClaimReceiptSchema>;
+
+export type ReceiptRevision = typeof receiptRevisions.$inferSelect;
+// From the table rather than the zod schema so `changes` keeps its element type
+export type InsertReceiptRevision = typeof receiptRevisions.$inferInsert;
+
+export type ExportJob = typeof exportJobs.$inferSelect;
+export type InsertExportJob = z.infer<typeof insertExportJobSchema>;
+
+export type BulkUploadFile = typeof bulkUploadFiles.$inferSelect;
+// From the table rather than the zod schema so `status` keeps its type
+export type InsertBulkUploadFile = typeof bulkUploadFiles.$inferInsert;
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
 export type PaymentLedgerEntry = typeof paymentLedger.$inferSelect;
 export type InsertPaymentLedgerEntry = z.infer<typeof insertPaymentLedgerSchema>;
 
@@ -407,6 +646,20 @@ export const aiTranscriptionSchema = z.object({
   gallons: z.number().nullable(),
   pricePerGallon: z.number().nullable(),
   totalAmount: z.number().nullable(),
+  fuelType: z.string().optional().nullable(),
+  fields: z.record(z.string(), fieldConfidenceSchema).optional(),
 });
 
 export type AiTranscription = z.infer<typeof aiTranscriptionSchema>;
+export type FieldConfidence = z.infer<typeof fieldConfidenceSchema>;
+export type TranscriptionField = Exclude<keyof AiTranscription, "fields">;
+export type FieldConfidenceMap = Partial<Record<TranscriptionField, FieldConfidence>>;
+
+// Values from a re-transcription, in receipt column format, for the user to
+// accept field by field
+export interface TranscriptionProposal {
+  values: Record<TranscriptionField, string | null>;
+  provider: string;
+  fieldConfidence: FieldConfidenceMap | null;
+  createdAt: string;
+}